@@ -0,0 +1,77 @@
+// lib/pulse/__tests__/alerts.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { PulseAlertService, alertMatches } from '../alerts'
+import { PulseBatchUpdateService } from '../engine'
+import { PulseData, VenueDataSource, VenueRecord } from '../types'
+
+const VENUE: VenueRecord = { id: 1, name: 'Test Bar', spree_onboarded: false, pulse: 3, timezone: 'America/New_York' }
+
+function pulse(value: number): PulseData {
+  return { value, confidence: 0.8, dataSource: VenueDataSource.COMMUNITY, lastUpdated: new Date() }
+}
+
+describe('alertMatches', () => {
+  it('needs every condition the alert sets', () => {
+    const alert = { min_pulse: 5, min_relative_level: 'above_average' as const, max_wait_minutes: null }
+    assert.ok(alertMatches(alert, { ...pulse(6), relativeLevel: 'high' }))
+    assert.ok(!alertMatches(alert, { ...pulse(6), relativeLevel: 'average' }))
+    assert.ok(!alertMatches(alert, { ...pulse(4), relativeLevel: 'high' }))
+  })
+  
+  it('counts no line at all as a short line', () => {
+    const alert = { min_pulse: null, min_relative_level: null, max_wait_minutes: 10 }
+    assert.ok(alertMatches(alert, { ...pulse(6), breakdown: { waitTime: 0, waitTimeAgeMinutes: 5 } }))
+    assert.ok(!alertMatches(alert, { ...pulse(6), breakdown: { waitTime: 15, waitTimeAgeMinutes: 5 } }))
+  })
+  
+  it('ignores stale or undated wait reports', () => {
+    const alert = { min_pulse: null, min_relative_level: null, max_wait_minutes: 10 }
+    assert.ok(!alertMatches(alert, { ...pulse(6), breakdown: { waitTime: 2, waitTimeAgeMinutes: 45 } }))
+    assert.ok(!alertMatches(alert, { ...pulse(6), breakdown: { waitTime: 2 } }))
+  })
+  
+  it('never matches a closed venue', () => {
+    assert.ok(!alertMatches({ min_pulse: 0 }, { ...pulse(0), openStatus: 'closed' }))
+  })
+})
+
+describe('PulseBatchUpdateService alerts', () => {
+  async function setup() {
+    const repository = new InMemoryPulseRepository({ venues: [{ ...VENUE }] })
+    const alerts = new PulseAlertService(repository)
+    // The 5.0 fallback estimate would clear this
+    await alerts.createVenueAlert('user-1', 1, { minPulse: 4 })
+    
+    repository.getVibeReports = async () => {
+      throw new Error('Database unavailable')
+    }
+    return { repository, service: new PulseBatchUpdateService(repository, null, alerts) }
+  }
+  
+  it('queues nothing from the fallback estimate of a failed venue update', async () => {
+    const { repository, service } = await setup()
+    await service.updateVenue(1)
+    
+    assert.deepEqual(repository.tables.alert_notifications, [])
+  })
+  
+  it('queues nothing from fallback estimates in a batch run', async () => {
+    const { repository, service } = await setup()
+    const result = await service.updateAllVenues({ bulk: false })
+    
+    assert.equal(result.alerts, 0)
+    assert.deepEqual(repository.tables.alert_notifications, [])
+  })
+  
+  it('still queues from real readings', async () => {
+    const repository = new InMemoryPulseRepository({ venues: [{ ...VENUE }] })
+    const alerts = new PulseAlertService(repository)
+    await alerts.createVenueAlert('user-1', 1, { minPulse: 4 })
+    
+    const notifications = await alerts.evaluate([{ venue: VENUE, pulse: pulse(6) }])
+    assert.equal(notifications.length, 1)
+  })
+})
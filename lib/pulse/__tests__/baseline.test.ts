@@ -0,0 +1,118 @@
+// lib/pulse/__tests__/baseline.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { VenueBaselineService, levelFromDeviation } from '../baseline'
+import { getVenueLocalTime, hourOfWeek } from '../time'
+import { PulseData, VenueDataSource, VenueRecord } from '../types'
+
+const HOUR_MS = 60 * 60 * 1000
+const WEEK_MS = 7 * 24 * HOUR_MS
+const NOW = new Date('2026-10-17T03:00:00Z') // Friday 11pm in New York
+
+function venue(overrides: Partial<VenueRecord> = {}): VenueRecord {
+  return {
+    id: 1,
+    name: 'Test Bar',
+    spree_onboarded: false,
+    pulse: 5,
+    timezone: 'America/New_York',
+    ...overrides
+  }
+}
+
+function pulse(value: number): PulseData {
+  return { value, confidence: 0.8, dataSource: VenueDataSource.GOOGLE, lastUpdated: NOW }
+}
+
+describe('levelFromDeviation', () => {
+  it('buckets z-scores', () => {
+    assert.equal(levelFromDeviation(-2), 'low')
+    assert.equal(levelFromDeviation(-1), 'below_average')
+    assert.equal(levelFromDeviation(0), 'average')
+    assert.equal(levelFromDeviation(1), 'above_average')
+    assert.equal(levelFromDeviation(2), 'high')
+  })
+})
+
+describe('VenueBaselineService', () => {
+  it('does not relearn a venue that had nothing to learn', async () => {
+    const record = venue()
+    const repository = new InMemoryPulseRepository({ venues: [record] })
+    let historyReads = 0
+    const getPulseHistory = repository.getPulseHistory.bind(repository)
+    repository.getPulseHistory = async (...args) => {
+      historyReads++
+      return getPulseHistory(...args)
+    }
+    
+    const service = new VenueBaselineService(repository)
+    assert.equal(await service.compare(record, pulse(6), { now: NOW }), null)
+    assert.equal(await service.compare(record, pulse(6), { now: new Date(NOW.getTime() + HOUR_MS) }), null)
+    
+    assert.equal(historyReads, 1)
+    assert.equal(record.baseline_learned_at, NOW.toISOString())
+  })
+  
+  it('compares against the same hour in past weeks', async () => {
+    const record = venue()
+    const history = [4, 5, 6].map((value, i) => ({
+      venue_id: 1,
+      pulse_value: value,
+      confidence: 0.8,
+      data_sources: ['google'],
+      created_at: new Date(NOW.getTime() - (i + 1) * WEEK_MS).toISOString()
+    }))
+    const repository = new InMemoryPulseRepository({ venues: [record], pulse_history: history })
+    
+    const comparison = await new VenueBaselineService(repository).compare(record, pulse(8), { now: NOW })
+    
+    assert.equal(comparison?.usualPulse, 5)
+    assert.equal(comparison?.relativeLevel, 'high')
+  })
+  
+  it('counts one sample per week however often the batch ran', async () => {
+    const record = venue()
+    // A night of runs five minutes apart, then one quiet and one busy week
+    const history = [
+      ...[3, 7, 3, 7].map((value, i) => ({ value, at: NOW.getTime() - WEEK_MS + i * 5 * 60 * 1000 })),
+      { value: 4, at: NOW.getTime() - 2 * WEEK_MS },
+      { value: 6, at: NOW.getTime() - 3 * WEEK_MS }
+    ].map(({ value, at }) => ({
+      venue_id: 1,
+      pulse_value: value,
+      confidence: 0.8,
+      data_sources: ['google'],
+      created_at: new Date(at).toISOString()
+    }))
+    const repository = new InMemoryPulseRepository({ venues: [record], pulse_history: history })
+    
+    const records = await new VenueBaselineService(repository).learn(record, NOW)
+    const baseline = records.find(r => r.hour_of_week === hourOfWeek(getVenueLocalTime(record, NOW)))!
+    
+    assert.equal(baseline.pulse_samples, 3)
+    assert.equal(baseline.pulse_mean, 5)
+    assert.ok(Math.abs(baseline.pulse_std - Math.sqrt(2 / 3)) < 1e-9)
+  })
+  
+  it('counts partner check-in weeks only since onboarding', async () => {
+    const record = venue({
+      spree_onboarded: true,
+      created_at: new Date(NOW.getTime() - 2 * WEEK_MS - HOUR_MS).toISOString()
+    })
+    const checkIns = [1, 2].map(week => ({
+      id: week,
+      venue_id: 1,
+      created_at: new Date(NOW.getTime() - week * WEEK_MS + 60 * 1000).toISOString()
+    }))
+    const repository = new InMemoryPulseRepository({ venues: [record], checkins: checkIns })
+    
+    const records = await new VenueBaselineService(repository).learn(record, NOW)
+    const hour = hourOfWeek(getVenueLocalTime(record, NOW))
+    const baseline = records.find(r => r.hour_of_week === hour)!
+    
+    assert.equal(baseline.checkin_samples, 2)
+    assert.equal(baseline.checkin_mean, 1)
+  })
+})
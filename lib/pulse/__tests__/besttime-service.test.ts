@@ -0,0 +1,67 @@
+// lib/pulse/__tests__/besttime-service.test.ts
+
+import { afterEach, describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { ApiBudget, DEFAULT_BESTTIME_BUDGET } from '../budget'
+import { BestTimeBusynessProvider } from '../services/besttime-service'
+import { VenueRecord } from '../types'
+
+const venue: VenueRecord = { id: 1, name: 'Test Bar', address: '1 Main St', spree_onboarded: false, pulse: 5 }
+const realFetch = globalThis.fetch
+
+function stubFetch(status: number, body: unknown): { calls: number } {
+  const counter = { calls: 0 }
+  globalThis.fetch = (async () => {
+    counter.calls++
+    return new Response(JSON.stringify(body), { status })
+  }) as typeof fetch
+  return counter
+}
+
+const LIVE = {
+  status: 'OK',
+  analysis: { venue_live_busyness_available: true, venue_live_busyness: 80, venue_forecasted_busyness: 50 }
+}
+
+function setup(monthlyLimit: number = 100) {
+  const repository = new InMemoryPulseRepository({ venues: [venue] })
+  const budget = new ApiBudget(repository, { ...DEFAULT_BESTTIME_BUDGET, monthlyLimit, dailyLimit: monthlyLimit })
+  return { repository, provider: new BestTimeBusynessProvider(repository, budget, null, 'key') }
+}
+
+describe('BestTimeBusynessProvider', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch
+  })
+  
+  it('serves a fresh reading from the cache without calling out', async () => {
+    const { repository, provider } = setup()
+    const fetches = stubFetch(200, LIVE)
+    
+    const first = await provider.getBusyness(venue)
+    const second = await provider.getBusyness(venue)
+    
+    assert.equal(first?.currentBusyness, 80)
+    assert.equal(second?.currentBusyness, 80)
+    assert.ok(second?.lastUpdated instanceof Date)
+    assert.equal(fetches.calls, 1)
+    assert.equal(repository.tables.busyness_api_calls.length, 1)
+    assert.equal(repository.tables.busyness_api_calls[0].provider, 'besttime')
+  })
+  
+  it('does not call out once the budget is spent', async () => {
+    const { provider } = setup(0)
+    const fetches = stubFetch(200, LIVE)
+    
+    assert.equal(await provider.getBusyness(venue), null)
+    assert.equal(fetches.calls, 0)
+  })
+  
+  it('treats an HTTP error as no reading', async () => {
+    const { provider } = setup()
+    stubFetch(502, { status: 'OK', analysis: LIVE.analysis })
+    
+    assert.equal(await provider.getBusyness(venue), null)
+  })
+})
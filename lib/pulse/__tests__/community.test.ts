@@ -0,0 +1,40 @@
+// lib/pulse/__tests__/community.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { CommunityDataService } from '../community'
+
+const MINUTE_MS = 60 * 1000
+
+function setup() {
+  const now = Date.now()
+  const repository = new InMemoryPulseRepository({
+    community_vibe_reports: [
+      { id: 'r1', venue_id: 1, user_id: 'a', vibe_level: 'packed', created_at: new Date(now).toISOString() },
+      { id: 'r2', venue_id: 1, user_id: 'b', vibe_level: 'dead', created_at: new Date(now - 20 * MINUTE_MS).toISOString() }
+    ]
+  })
+  return new CommunityDataService(repository)
+}
+
+describe('CommunityDataService.getConsensus', () => {
+  it('rejects a half-life that is not a positive number', async () => {
+    const service = setup()
+    for (const halfLife of [0, -5, NaN, Infinity]) {
+      await assert.rejects(service.getConsensus(1, 60, halfLife), /Half-life/)
+    }
+  })
+  
+  it('rejects an invalid configured half-life up front', () => {
+    assert.throws(() => new CommunityDataService(new InMemoryPulseRepository(), undefined, { halfLifeMinutes: 0 }), /Half-life/)
+  })
+  
+  it('halves the weight of a report one half-life old', async () => {
+    const consensus = await setup().getConsensus(1, 60, 20)
+    const ratio = consensus.weightedVibeScores.dead / consensus.weightedVibeScores.packed
+    
+    assert.ok(Math.abs(ratio - 0.5) < 0.01)
+    assert.equal(consensus.consensusVibe, 'packed')
+  })
+})
@@ -0,0 +1,97 @@
+// lib/pulse/__tests__/dwell.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { DEFAULT_DWELL_MODEL, DwellTimeService, dwellSurvival, expectedActiveCheckIns, fitDwellModel } from '../dwell'
+import { CheckInRecord } from '../types'
+
+const MINUTE_MS = 60 * 1000
+const NOW = new Date('2026-10-17T02:00:00Z')
+
+const ago = (minutes: number) => new Date(NOW.getTime() - minutes * MINUTE_MS).toISOString()
+
+describe('fitDwellModel', () => {
+  it('fits the mean and spread of the log stay', () => {
+    const fit = fitDwellModel([Math.E, Math.E ** 3])
+    assert.equal(fit.samples, 2)
+    assert.ok(Math.abs(fit.logMean - 2) < 1e-9)
+    assert.ok(Math.abs(fit.logStd - 1) < 1e-9)
+  })
+  
+  it('keeps a floor under the spread and skips empty stays', () => {
+    const fit = fitDwellModel([60, 60, 60, 0])
+    assert.equal(fit.samples, 3)
+    assert.ok(Math.abs(fit.logMean - Math.log(60)) < 1e-9)
+    assert.equal(fit.logStd, 0.2)
+  })
+  
+  it('falls back to the default model without stays', () => {
+    assert.deepEqual(fitDwellModel([]), { logMean: DEFAULT_DWELL_MODEL.logMean, logStd: DEFAULT_DWELL_MODEL.logStd, samples: 0 })
+  })
+})
+
+describe('expectedActiveCheckIns', () => {
+  it('counts each open check-in by its chance of still being there', () => {
+    assert.equal(dwellSurvival(DEFAULT_DWELL_MODEL, 0), 1)
+    assert.ok(Math.abs(dwellSurvival(DEFAULT_DWELL_MODEL, 90) - 0.5) < 1e-6)
+    
+    const checkIns = [
+      { created_at: ago(90) },
+      { created_at: ago(90), checked_out_at: ago(10) },
+      { created_at: ago(7 * 60) }
+    ]
+    assert.equal(expectedActiveCheckIns(checkIns, DEFAULT_DWELL_MODEL, NOW), 0.5)
+  })
+})
+
+describe('DwellTimeService', () => {
+  it('learns venue, type and global models from user check-outs', async () => {
+    const stays: CheckInRecord[] = Array.from({ length: 6 }, (_, i) => ({
+      id: i + 1, venue_id: 1, created_at: ago(24 * 60 + 60), checked_out_at: ago(24 * 60)
+    }))
+    const repository = new InMemoryPulseRepository({
+      venues: [
+        { id: 1, name: 'Test Bar', spree_onboarded: false, pulse: 5, venue_type: 'bar' },
+        { id: 2, name: 'Quiet Pub', spree_onboarded: false, pulse: 3, venue_type: 'bar' }
+      ],
+      checkins: [
+        ...stays,
+        { id: 7, venue_id: 2, created_at: ago(24 * 60 + 60), checked_out_at: ago(24 * 60) },
+        // Forgotten check-out and one the model closed
+        { id: 8, venue_id: 1, created_at: ago(24 * 60 + 600), checked_out_at: ago(24 * 60) },
+        { id: 9, venue_id: 1, created_at: ago(24 * 60 + 300), checked_out_at: ago(24 * 60), auto_checked_out: true }
+      ]
+    })
+    
+    const result = await new DwellTimeService(repository).learnAll(NOW)
+    
+    assert.deepEqual(result, { venues: 1, venueTypes: 1, samples: 7 })
+    const keys = repository.tables.venue_dwell_models.map(m => `${m.scope}:${m.scope_key}`).sort()
+    assert.deepEqual(keys, ['global:all', 'venue:1', 'venue_type:bar'])
+    assert.equal(repository.tables.venue_dwell_models.find(m => m.scope === 'venue')!.log_mean, 4.094)
+  })
+  
+  it('checks out only stays the model says are over, at the median stay', async () => {
+    const repository = new InMemoryPulseRepository({
+      venues: [{ id: 1, name: 'Test Bar', spree_onboarded: false, pulse: 5 }],
+      checkins: [
+        { id: 1, venue_id: 1, created_at: ago(300) },
+        { id: 2, venue_id: 1, created_at: ago(40) },
+        { id: 3, venue_id: 1, created_at: ago(300), checked_out_at: ago(200) }
+      ]
+    })
+    repository.getActiveVenues = async () => {
+      throw new Error('Venues were passed in')
+    }
+    
+    const closed = await new DwellTimeService(repository).checkOutStale(NOW, 500, [{ id: 1 }])
+    
+    assert.equal(closed, 1)
+    const [stale, recent, user] = repository.tables.checkins
+    assert.equal(stale.checked_out_at, ago(210))
+    assert.equal(stale.auto_checked_out, true)
+    assert.equal(recent.checked_out_at, undefined)
+    assert.equal(user.checked_out_at, ago(200))
+  })
+})
@@ -0,0 +1,166 @@
+// lib/pulse/__tests__/engine.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository, InMemoryTables } from '../repository'
+import { PulseBatchUpdateService } from '../engine'
+import { getVenueLocalTime, hourOfWeek } from '../time'
+import { WeeklyHistogram } from '../types'
+
+const MINUTE_MS = 60 * 1000
+
+function seed(now: Date): Partial<InMemoryTables> {
+  const ago = (minutes: number) => new Date(now.getTime() - minutes * MINUTE_MS).toISOString()
+  const histogram: WeeklyHistogram = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => 40))
+  const venue = { timezone: 'America/New_York' }
+  
+  return {
+    venues: [
+      { id: 1, name: 'Partner Bar', spree_onboarded: true, pulse: 5, google_place_id: 'place-1', baseline_learned_at: ago(60), ...venue },
+      { id: 2, name: 'Corner Pub', spree_onboarded: false, pulse: 4, google_place_id: 'place-2', baseline_learned_at: ago(60), ...venue },
+      { id: 3, name: 'Quiet Lounge', spree_onboarded: false, pulse: 3, baseline_learned_at: ago(60), ...venue }
+    ],
+    checkins: [
+      { id: 1, venue_id: 1, created_at: ago(20) },
+      { id: 2, venue_id: 1, created_at: ago(50) },
+      { id: 3, venue_id: 1, created_at: ago(95), checked_out_at: ago(10) }
+    ],
+    venue_ratings: [{ venue_id: 1, vibe_check: 'busy', created_at: ago(40) }],
+    community_vibe_reports: [
+      { id: 'r1', venue_id: 2, user_id: 'u1', vibe_level: 'busy', created_at: ago(10), location_status: 'verified' },
+      { id: 'r2', venue_id: 2, user_id: 'u2', vibe_level: 'packed', created_at: ago(25), location_status: 'verified' }
+    ],
+    anonymous_pings: [{ id: 'p1', venue_id: 3, device_id: 'd1', created_at: ago(15) }],
+    pulse_history: [
+      { venue_id: 1, pulse_value: 6, smoothing_state: 6.04, confidence: 0.7, data_sources: ['checkins'], created_at: ago(15) },
+      { venue_id: 2, pulse_value: 5.5, confidence: 0.6, data_sources: ['community'], created_at: ago(15) }
+    ],
+    google_busyness_cache: [{
+      google_place_id: 'place-1',
+      busyness_data: {
+        currentBusyness: 70,
+        usualBusyness: 50,
+        relativeLevel: 'above_average',
+        trend: 'increasing',
+        lastUpdated: new Date(now.getTime() - 2 * MINUTE_MS),
+        confidence: 0.8
+      },
+      fetched_at: ago(2)
+    }],
+    google_popular_times: [
+      { google_place_id: 'place-1', histogram, fetched_at: ago(60), checked_at: ago(60) },
+      { google_place_id: 'place-2', histogram: null, fetched_at: ago(60), checked_at: ago(60) }
+    ],
+    venue_hourly_baselines: [{
+      venue_id: 1,
+      hour_of_week: hourOfWeek(getVenueLocalTime(venue, now)),
+      pulse_mean: 4,
+      pulse_std: 1,
+      pulse_samples: 8,
+      checkin_mean: 1,
+      checkin_std: 1,
+      checkin_samples: 8,
+      updated_at: ago(60)
+    }],
+    venue_views: [{ venue_id: 1, viewed_at: ago(30) }, { venue_id: 2, viewed_at: ago(90) }]
+  }
+}
+
+describe('PulseBatchUpdateService.updateAllVenues', () => {
+  it('stores the same pulses in bulk as venue by venue', async () => {
+    const now = new Date()
+    const perVenue = new InMemoryPulseRepository(seed(now))
+    const bulk = new InMemoryPulseRepository(seed(now))
+    
+    await new PulseBatchUpdateService(perVenue).updateAllVenues({ bulk: false })
+    await new PulseBatchUpdateService(bulk).updateAllVenues()
+    
+    const pulses = (repository: InMemoryPulseRepository) => repository.tables.venues.map(v => ({
+      id: v.id,
+      pulse: v.pulse,
+      pulse_raw: v.pulse_raw,
+      pulse_confidence: v.pulse_confidence,
+      pulse_data_source: v.pulse_data_source,
+      pulse_status: v.pulse_status
+    }))
+    // The runs are milliseconds apart, which moves the unrounded smoothing state a hair
+    const history = (repository: InMemoryPulseRepository) => repository.tables.pulse_history
+      .map(({ created_at, smoothing_state, ...row }) => ({ ...row, smoothing_state: smoothing_state?.toFixed(2) }))
+      .sort((a, b) => a.venue_id - b.venue_id)
+    
+    assert.deepEqual(pulses(bulk), pulses(perVenue))
+    assert.deepEqual(history(bulk), history(perVenue))
+    assert.equal(bulk.tables.pulse_history.length, 5)
+  })
+  
+  it('serves per-venue reads from the grouped ones', async () => {
+    const repository = new InMemoryPulseRepository(seed(new Date()))
+    const perVenue = [
+      'getCheckIns', 'getVibeReports', 'getPings', 'getPulseHistory', 'getGoogleCache',
+      'getPopularTimes', 'getHoursExceptions', 'countVenueViews'
+    ]
+    const grouped = ['getVenueBaselinesForVenues', 'countVenueViewsForVenues', 'getPulseHistoryForVenues']
+    
+    const calls: Record<string, number> = {}
+    const methods = repository as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>
+    for (const name of [...perVenue, ...grouped]) {
+      const method = methods[name].bind(repository)
+      calls[name] = 0
+      methods[name] = (...args) => {
+        calls[name]++
+        return method(...args)
+      }
+    }
+    
+    const result = await new PulseBatchUpdateService(repository).updateAllVenues()
+    
+    assert.equal(result.updated, 3)
+    perVenue.forEach(name => assert.equal(calls[name], 0, name))
+    grouped.forEach(name => assert.equal(calls[name], 1, name))
+  })
+  
+  it('serves baseline rebuilds from grouped reads too', async () => {
+    const now = new Date()
+    const tables = seed(now)
+    tables.venues = tables.venues!.map(({ baseline_learned_at, ...venue }) => venue)
+    const repository = new InMemoryPulseRepository(tables)
+    
+    const calls: Record<string, number> = { getPulseHistory: 0, getCheckIns: 0, getPulseHistoryForVenues: 0 }
+    const methods = repository as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>
+    for (const name of Object.keys(calls)) {
+      const method = methods[name].bind(repository)
+      methods[name] = (...args) => {
+        calls[name]++
+        return method(...args)
+      }
+    }
+    
+    await new PulseBatchUpdateService(repository).updateAllVenues()
+    
+    assert.equal(calls.getPulseHistory, 0)
+    assert.equal(calls.getCheckIns, 0)
+    assert.equal(calls.getPulseHistoryForVenues, 2)
+    assert.ok(repository.tables.venues.every(v => v.baseline_learned_at))
+  })
+  
+  it('checks out stale check-ins only after the last flush has landed', async () => {
+    const repository = new InMemoryPulseRepository(seed(new Date()))
+    const writes: string[] = []
+    const methods = repository as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>
+    for (const name of ['updateVenuePulses', 'insertPulseHistoryBatch', 'getOpenCheckIns']) {
+      const method = methods[name].bind(repository)
+      methods[name] = async (...args) => {
+        writes.push(`${name}:start`)
+        const result = await method(...args)
+        writes.push(`${name}:end`)
+        return result
+      }
+    }
+    
+    await new PulseBatchUpdateService(repository).updateAllVenues()
+    
+    const checkOut = writes.indexOf('getOpenCheckIns:start')
+    assert.ok(checkOut > writes.lastIndexOf('updateVenuePulses:end'))
+    assert.ok(checkOut > writes.lastIndexOf('insertPulseHistoryBatch:end'))
+  })
+})
@@ -0,0 +1,203 @@
+// lib/pulse/__tests__/events.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { IncomingHttpHeaders, createServer } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { InMemoryPulseRepository } from '../repository'
+import { PulseEventService, detectPulseChanges, verifyPulseSignature } from '../events'
+import { PulseBatchUpdateService } from '../engine'
+import { PulseChangeEvent, VenueDataSource } from '../types'
+
+const venue = { id: 1, name: 'Test Bar', pulse: 6, pulse_data_source: 'google' }
+
+function current(value: number, dataSource: VenueDataSource = VenueDataSource.GOOGLE) {
+  return { value, confidence: 0.8, dataSource }
+}
+
+/**
+ * Webhook receiver on a free local port, answering every POST with `status`
+ */
+async function startReceiver(status: number = 200) {
+  const received: Array<{ headers: IncomingHttpHeaders, body: string }> = []
+  const server = createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => {
+      received.push({ headers: request.headers, body })
+      response.writeHead(status, { Connection: 'close' }).end()
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  
+  const { port } = server.address() as AddressInfo
+  return {
+    url: `http://127.0.0.1:${port}/pulse`,
+    received,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections()
+      server.close(() => resolve())
+    })
+  }
+}
+
+describe('detectPulseChanges', () => {
+  it('fires threshold_crossed for each level passed', () => {
+    const events = detectPulseChanges({ ...venue, pulse: 2.5 }, current(7.5))
+    const crossed = events.filter(e => e.type === 'threshold_crossed').map(e => e.threshold)
+    assert.deepEqual(crossed, [3, 7])
+  })
+  
+  it('fires moved only for big enough changes', () => {
+    assert.ok(detectPulseChanges(venue, current(4)).some(e => e.type === 'moved'))
+    assert.deepEqual(detectPulseChanges(venue, current(6.5)), [])
+  })
+  
+  it('fires source_changed when the strongest source changes', () => {
+    const [event] = detectPulseChanges(venue, current(6, VenueDataSource.COMMUNITY))
+    assert.equal(event.type, 'source_changed')
+    assert.equal(event.previous.dataSource, 'google')
+    assert.equal(event.direction, 'none')
+  })
+  
+  it('needs a previous pulse to compare against', () => {
+    assert.deepEqual(detectPulseChanges({ ...venue, pulse: undefined as unknown as number }, current(9)), [])
+  })
+})
+
+describe('PulseEventService webhooks', () => {
+  it('posts signed events a receiver can verify', async () => {
+    const receiver = await startReceiver()
+    const repository = new InMemoryPulseRepository()
+    const service = new PulseEventService(repository)
+    
+    try {
+      const webhook = await service.registerWebhook(receiver.url)
+      const result = await service.publish(detectPulseChanges(venue, current(4)))
+      
+      assert.equal(result.delivered, 1)
+      const [request] = receiver.received
+      assert.equal(request.headers['x-pulse-event'], 'moved')
+      assert.ok(verifyPulseSignature(
+        webhook.secret,
+        String(request.headers['x-pulse-timestamp']),
+        request.body,
+        String(request.headers['x-pulse-signature'])
+      ))
+      assert.equal((JSON.parse(request.body) as PulseChangeEvent).current.value, 4)
+      assert.equal(repository.tables.pulse_event_deliveries[0].status, 'delivered')
+    } finally {
+      await receiver.close()
+    }
+  })
+  
+  it('schedules a retry when the receiver fails', async () => {
+    const receiver = await startReceiver(503)
+    const repository = new InMemoryPulseRepository()
+    const service = new PulseEventService(repository)
+    
+    try {
+      await service.registerWebhook(receiver.url)
+      const result = await service.publish(detectPulseChanges(venue, current(4)))
+      
+      assert.equal(result.failed, 1)
+      const [delivery] = repository.tables.pulse_event_deliveries
+      assert.equal(delivery.status, 'pending')
+      assert.equal(delivery.attempts, 1)
+      assert.equal(delivery.response_status, 503)
+      assert.ok(new Date(delivery.next_attempt_at).getTime() > Date.now())
+    } finally {
+      await receiver.close()
+    }
+  })
+  
+  it('leases a large publish for as long as its batches can take', async () => {
+    const receiver = await startReceiver()
+    const repository = new InMemoryPulseRepository()
+    const service = new PulseEventService(repository, { baseBackoffMs: 1000, timeoutMs: 2000 })
+    
+    try {
+      for (let i = 0; i < 25; i++) await service.registerWebhook(receiver.url)
+      const leases: number[] = []
+      const insert = repository.insertEventDeliveries.bind(repository)
+      repository.insertEventDeliveries = async deliveries => {
+        leases.push(...deliveries.map(d => new Date(d.next_attempt_at).getTime() - new Date(d.created_at).getTime()))
+        return insert(deliveries)
+      }
+      
+      const result = await service.publish(detectPulseChanges(venue, current(4)))
+      
+      assert.equal(result.delivered, 25)
+      // Three batches of ten, each up to a timeout
+      assert.ok(leases.every(lease => lease === 1000 + 3 * 2000))
+    } finally {
+      await receiver.close()
+    }
+  })
+  
+  it('delivers each due retry once when runs overlap', async () => {
+    const receiver = await startReceiver()
+    const repository = new InMemoryPulseRepository()
+    
+    try {
+      const webhook = await new PulseEventService(repository).registerWebhook(receiver.url)
+      const past = new Date(Date.now() - 60 * 1000).toISOString()
+      await repository.insertEventDeliveries(detectPulseChanges({ ...venue, pulse: 2 }, current(8)).map(event => ({
+        webhook_id: webhook.id,
+        event_id: event.id,
+        event_type: event.type,
+        venue_id: event.venueId,
+        payload: event,
+        status: 'pending' as const,
+        attempts: 1,
+        next_attempt_at: past,
+        created_at: past
+      })))
+      
+      const runs = await Promise.all([
+        new PulseEventService(repository).retryDue(),
+        new PulseEventService(repository).retryDue()
+      ])
+      
+      assert.equal(runs[0].attempted + runs[1].attempted, 3)
+      assert.equal(receiver.received.length, 3)
+      assert.ok(repository.tables.pulse_event_deliveries.every(d => d.status === 'delivered'))
+    } finally {
+      await receiver.close()
+    }
+  })
+})
+
+describe('PulseBatchUpdateService events', () => {
+  function setup() {
+    const repository = new InMemoryPulseRepository({
+      venues: [{ id: 1, name: 'Test Bar', spree_onboarded: false, pulse: 8, pulse_data_source: 'community' }]
+    })
+    repository.getVibeReports = async () => {
+      throw new Error('Database unavailable')
+    }
+    
+    const events = new PulseEventService(repository)
+    const published: PulseChangeEvent[] = []
+    events.subscribe(event => {
+      published.push(event)
+    })
+    return { service: new PulseBatchUpdateService(repository, events), published }
+  }
+  
+  it('fires nothing for the fallback estimate of a failed venue update', async () => {
+    const { service, published } = setup()
+    const pulse = await service.updateVenue(1)
+    
+    assert.equal(pulse.value, 5)
+    assert.deepEqual(published, [])
+  })
+  
+  it('fires nothing for fallback estimates in a batch run', async () => {
+    const { service, published } = setup()
+    const result = await service.updateAllVenues({ bulk: false })
+    
+    assert.equal(result.events, 0)
+    assert.deepEqual(published, [])
+  })
+})
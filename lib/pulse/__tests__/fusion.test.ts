@@ -0,0 +1,147 @@
+// lib/pulse/__tests__/fusion.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { PulseFusion, PulseObservation, checkInObservation, communityObservation, presenceObservation } from '../fusion'
+import { PulseCalculator } from '../calculations'
+import { locationWeight } from '../geofence'
+import { OccupancyEstimator } from '../occupancy'
+import { DEFAULT_SCORING_PROFILE } from '../profiles'
+import { trustWeight } from '../reputation'
+import { CommunityConsensus, VenueMetrics } from '../types'
+
+function consensus(votes: Record<string, number>, reports: number): CommunityConsensus {
+  return {
+    vibeReports: reports,
+    consensusVibe: null,
+    vibeScores: {},
+    weightedVibeScores: { dead: 0, chill: 0, busy: 0, packed: 0, ...votes },
+    averageWaitTime: null,
+    weightedAverageWaitTime: null,
+    averageCrowdEstimate: null,
+    crowdEstimateReports: 0,
+    anonymousPings: 0,
+    uniqueDevices: 0,
+    socialSignals: 0,
+    dataPoints: reports,
+    effectiveDataPoints: reports,
+    weightedPings: 0,
+    weightedSocialSignals: 0,
+    quarantinedReports: 0,
+    verifiedReports: 0
+  }
+}
+
+describe('communityObservation', () => {
+  it('never counts one report as more than one report of evidence', () => {
+    const heaviest = trustWeight(1) * locationWeight('verified')
+    const observation = communityObservation(consensus({ packed: heaviest }, 1))!
+    
+    assert.ok(heaviest > 1)
+    assert.equal(observation.variance, 2)
+  })
+  
+  it('weighs on-site reports fully and unverified ones less', () => {
+    assert.equal(locationWeight('verified'), 1)
+    assert.ok(locationWeight('unverified') < 1)
+    assert.ok(locationWeight(undefined) < 1)
+  })
+  
+  it('lets trusted reporters move the mean', () => {
+    const observation = communityObservation(consensus({ packed: 2, dead: 0.5 }, 2))!
+    
+    assert.equal(observation.value, (8.75 * 2 + 1.5 * 0.5) / 2.5)
+  })
+  
+  it('ignores votes too faded to matter', () => {
+    assert.equal(communityObservation(consensus({ busy: 0.2 }, 1)), null)
+  })
+})
+
+describe('presenceObservation', () => {
+  const presence = (weightedPings: number, weightedSocialSignals: number = 0) =>
+    presenceObservation({ ...consensus({}, 0), weightedPings, weightedSocialSignals }, DEFAULT_SCORING_PROFILE)
+  
+  it('reads weighted pings on the activity curve, with social posts as a nudge', () => {
+    assert.equal(presence(12)?.value, 5.5)
+    assert.equal(presence(12, 3)?.value, 5.8)
+  })
+  
+  it('is surer with more evidence and absent without any', () => {
+    assert.ok(presence(20)!.variance < presence(2)!.variance)
+    assert.equal(presence(0.5), null)
+  })
+})
+
+describe('checkInObservation', () => {
+  const metrics: VenueMetrics = {
+    venueId: 1,
+    activeCheckIns: 8,
+    checkInsLast30Min: 2,
+    checkInsLastHour: 4,
+    checkInTrend: 'stable',
+    reportedWaitTime: null,
+    recentRatings: 0,
+    recentSentiment: 0,
+    dayOfWeek: 5,
+    hourOfDay: 23,
+    isSpecialEvent: false
+  }
+  const observe = (capacity?: number | null) =>
+    checkInObservation(metrics, DEFAULT_SCORING_PROFILE, new PulseCalculator(), new OccupancyEstimator(0.1), capacity)
+  
+  it('reads the same check-ins as fuller in a smaller room', () => {
+    // 80 people: full at 80, a third full at 240
+    assert.equal(observe(80).value, 9.5)
+    assert.equal(observe(240).value, new OccupancyEstimator().toPulse(33))
+  })
+  
+  it('falls back to the activity curve without a capacity', () => {
+    assert.equal(observe(null).value, observe(undefined).value)
+    assert.notEqual(observe(null).value, observe(80).value)
+  })
+})
+
+describe('PulseFusion.fuse', () => {
+  const fusion = new PulseFusion()
+  const observations: PulseObservation[] = [
+    { source: 'checkins', value: 8, variance: 1, ageMinutes: 0 },
+    { source: 'community', value: 6, variance: 2, ageMinutes: 10 },
+    { source: 'google', value: 7, variance: 1.5, ageMinutes: 5 }
+  ]
+  
+  it('returns the prior with the least confidence when nothing is observed', () => {
+    const fused = fusion.fuse(5, [])
+    
+    assert.equal(fused.value, 5)
+    assert.equal(fused.confidence, 0.1)
+    assert.deepEqual(fused.sources, [])
+  })
+  
+  it('weighs observations by precision, whatever the order', () => {
+    const forward = fusion.fuse(5, observations)
+    const backward = fusion.fuse(5, [...observations].reverse())
+    
+    assert.ok(Math.abs(forward.value - backward.value) < 1e-9)
+    assert.ok(Math.abs(forward.variance - backward.variance) < 1e-9)
+    assert.equal(forward.sources[0].source, 'checkins')
+  })
+  
+  it('matches the inverse-variance mean', () => {
+    const fused = fusion.fuse(5, [{ source: 'checkins', value: 9, variance: 4, ageMinutes: 0 }])
+    
+    // Prior and observation equally sure: halfway, half the variance
+    assert.equal(fused.value, 7)
+    assert.equal(fused.variance, 2)
+    assert.equal(fused.confidence, 0.5)
+  })
+  
+  it('trusts older observations less and drops very old ones', () => {
+    const fresh = fusion.fuse(5, [{ source: 'google', value: 9, variance: 1, ageMinutes: 0 }])
+    const aged = fusion.fuse(5, [{ source: 'google', value: 9, variance: 1, ageMinutes: 60 }])
+    const expired = fusion.fuse(5, [{ source: 'google', value: 9, variance: 1, ageMinutes: 600 }])
+    
+    assert.ok(aged.value < fresh.value)
+    assert.equal(expired.value, 5)
+  })
+})
@@ -0,0 +1,65 @@
+// lib/pulse/__tests__/hours.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { resolveVenueHours } from '../hours'
+import { OpeningPeriod } from '../types'
+
+// Friday evening to midnight, then Saturday's after-midnight period
+const FRIDAY_LATE: OpeningPeriod[] = [
+  { day: 5, open: '18:00', close: '24:00' },
+  { day: 6, open: '00:00', close: '03:00' }
+]
+
+const venue = (opening_hours: OpeningPeriod[]) => ({ timezone: 'America/New_York', opening_hours })
+
+describe('resolveVenueHours', () => {
+  it('treats a period to midnight and one from midnight as one stretch', () => {
+    // Friday 23:45 EDT
+    const hours = resolveVenueHours(venue(FRIDAY_LATE), [], new Date('2026-10-17T03:45:00Z'))
+    assert.equal(hours.status, 'open')
+    assert.equal(hours.closesAt?.toISOString(), '2026-10-17T07:00:00.000Z')
+  })
+  
+  it('shows last call in the final half hour of the joined stretch', () => {
+    // Saturday 02:40 EDT
+    const hours = resolveVenueHours(venue(FRIDAY_LATE), [], new Date('2026-10-17T06:40:00Z'))
+    assert.equal(hours.status, 'last_call')
+  })
+  
+  it('closes at the wall-clock time on the night the clocks go back', () => {
+    // Saturday 23:00 EDT; 04:00 Sunday is EST
+    const hours = resolveVenueHours(
+      venue([{ day: 6, open: '20:00', close: '04:00' }]),
+      [],
+      new Date('2026-11-01T03:00:00Z')
+    )
+    assert.equal(hours.status, 'open')
+    assert.equal(hours.closesAt?.toISOString(), '2026-11-01T09:00:00.000Z')
+  })
+  
+  it('shows opening soon within the hour and closed before that', () => {
+    // Friday 17:15 and 12:00 EDT
+    const soon = resolveVenueHours(venue(FRIDAY_LATE), [], new Date('2026-10-16T21:15:00Z'))
+    assert.equal(soon.status, 'opening_soon')
+    assert.equal(soon.opensAt?.toISOString(), '2026-10-16T22:00:00.000Z')
+    
+    const closed = resolveVenueHours(venue(FRIDAY_LATE), [], new Date('2026-10-16T16:00:00Z'))
+    assert.equal(closed.status, 'closed')
+    assert.equal(closed.opensAt?.toISOString(), '2026-10-16T22:00:00.000Z')
+  })
+  
+  it('skips the regular periods on a day an exception closes', () => {
+    const hours = resolveVenueHours(
+      venue(FRIDAY_LATE),
+      [{ venue_id: 1, date: '2026-10-16', closed: true, label: 'Private event' }],
+      new Date('2026-10-16T23:00:00Z')
+    )
+    assert.equal(hours.status, 'closed')
+    assert.equal(hours.opensAt?.toISOString(), '2026-10-17T04:00:00.000Z')
+  })
+  
+  it('is unknown without opening hours', () => {
+    assert.equal(resolveVenueHours(venue([]), [], new Date('2026-10-16T23:00:00Z')).status, 'unknown')
+  })
+})
@@ -0,0 +1,93 @@
+// lib/pulse/__tests__/map.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { PulseMapService } from '../map'
+import { VenueRecord } from '../types'
+
+const MINUTE_MS = 60 * 1000
+
+function venue(id: number, lat: number, lng: number, patch: Partial<VenueRecord> = {}): VenueRecord {
+  return {
+    id,
+    name: `Venue ${id}`,
+    spree_onboarded: false,
+    pulse: 6,
+    pulse_confidence: 0.8,
+    pulse_status: 'open',
+    pulse_updated_at: new Date(Date.now() - 5 * MINUTE_MS),
+    lat,
+    lng,
+    ...patch
+  }
+}
+
+describe('PulseMapService.nearby', () => {
+  it('ranks by pulse, confidence and distance', async () => {
+    const service = new PulseMapService(new InMemoryPulseRepository({
+      venues: [
+        venue(1, 40.7, -74.0, { pulse: 8, pulse_confidence: 0.3 }),
+        venue(2, 40.701, -74.0, { pulse: 8, pulse_confidence: 0.9 }),
+        venue(3, 40.7, -74.0, { pulse: 4 }),
+        venue(4, 40.8, -74.0, { pulse: 10 })
+      ]
+    }))
+    
+    const results = await service.nearby(40.7, -74.0, 1000)
+    assert.deepEqual(results.map(r => r.venueId), [2, 1, 3])
+  })
+  
+  it('leaves out venues whose pulse has gone stale but keeps closed ones', async () => {
+    const stale = new Date(Date.now() - 3 * 60 * MINUTE_MS)
+    const service = new PulseMapService(new InMemoryPulseRepository({
+      venues: [
+        venue(1, 40.7, -74.0),
+        venue(2, 40.7, -74.0, { pulse_updated_at: stale }),
+        venue(3, 40.7, -74.0, { pulse_updated_at: undefined }),
+        venue(4, 40.7, -74.0, { pulse: 0, pulse_status: 'closed', pulse_updated_at: stale })
+      ]
+    }))
+    
+    const results = await service.nearby(40.7, -74.0, 500)
+    assert.deepEqual(results.map(r => r.venueId).sort(), [1, 4])
+  })
+  
+  it('filters on normalized venue types', async () => {
+    const service = new PulseMapService(new InMemoryPulseRepository({
+      venues: [
+        venue(1, 40.7, -74.0, { venue_type: 'Nightclub' }),
+        venue(2, 40.7, -74.0, { venue_type: 'Dive Bar' }),
+        venue(3, 40.7, -74.0)
+      ]
+    }))
+    
+    const results = await service.nearby(40.7, -74.0, 500, { venueTypes: ['club'] })
+    assert.deepEqual(results.map(r => r.venueId), [1])
+  })
+  
+  it('rejects a radius past the limit', async () => {
+    const service = new PulseMapService(new InMemoryPulseRepository())
+    await assert.rejects(service.nearby(40.7, -74.0, 50000))
+  })
+})
+
+describe('PulseMapService.heatmap', () => {
+  it('weights cells by capacity and counts closed venues apart', async () => {
+    const service = new PulseMapService(new InMemoryPulseRepository({
+      venues: [
+        venue(1, 40.71, -74.01, { pulse: 8, capacity: 300 }),
+        venue(2, 40.71, -74.01, { pulse: 2, capacity: 100 }),
+        venue(3, 40.71, -74.01, { pulse: 0, pulse_status: 'closed' }),
+        venue(4, 40.79, -73.91, { pulse: 5, pulse_updated_at: new Date(Date.now() - 3 * 60 * MINUTE_MS) })
+      ]
+    }))
+    
+    const cells = await service.heatmap({ north: 40.8, south: 40.7, east: -73.9, west: -74.1 }, 20000)
+    assert.equal(cells.length, 1)
+    assert.equal(cells[0].venueCount, 2)
+    assert.equal(cells[0].closedCount, 1)
+    assert.equal(cells[0].pulse, 6.5)
+    assert.equal(cells[0].maxPulse, 8)
+  })
+})
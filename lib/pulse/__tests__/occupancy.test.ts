@@ -0,0 +1,40 @@
+// lib/pulse/__tests__/occupancy.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { OccupancyEstimator } from '../occupancy'
+
+describe('OccupancyEstimator.toPulse', () => {
+  const estimator = new OccupancyEstimator()
+  
+  it('hits each segment boundary', () => {
+    assert.equal(estimator.toPulse(0), 3.0)
+    assert.equal(estimator.toPulse(25), 5.0)
+    assert.equal(estimator.toPulse(50), 6.5)
+    assert.equal(estimator.toPulse(75), 8.0)
+    assert.equal(estimator.toPulse(90), 9.0)
+    assert.equal(estimator.toPulse(100), 9.5)
+  })
+  
+  it('is continuous and never decreasing', () => {
+    let previous = estimator.toPulse(0)
+    for (let percent = 0.5; percent <= 110; percent += 0.5) {
+      const pulse = estimator.toPulse(percent)
+      assert.ok(pulse >= previous, `${percent}% scored ${pulse}, below ${previous}`)
+      assert.ok(pulse - previous < 0.1, `jump of ${pulse - previous} at ${percent}%`)
+      previous = pulse
+    }
+  })
+})
+
+describe('OccupancyEstimator.estimate', () => {
+  it('scales check-ins by app penetration against capacity', () => {
+    const estimate = new OccupancyEstimator(0.1).estimate({ capacity: 200, activeCheckIns: 10 })
+    assert.equal(estimate?.percent, 50)
+    assert.deepEqual(estimate?.sources, ['checkins'])
+  })
+  
+  it('returns null without any usable input', () => {
+    assert.equal(new OccupancyEstimator().estimate({ capacity: null, activeCheckIns: 4 }), null)
+  })
+})
@@ -0,0 +1,72 @@
+// lib/pulse/__tests__/popular-times.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { PopularTimesService } from '../popular-times'
+import { BusynessRefreshScheduler } from '../scheduler'
+import { GoogleBusynessService } from '../services/google-service'
+import { GoogleBusynessData, VenueRecord } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = new Date('2026-10-17T03:00:00Z')
+
+const venue: VenueRecord = { id: 1, name: 'Test Bar', google_place_id: 'place-1', spree_onboarded: false, pulse: 5 }
+const HISTOGRAM = Array.from({ length: 7 }, () => new Array(24).fill(40))
+
+function setup(answer: Partial<GoogleBusynessData> | null, seed: Partial<InMemoryPulseRepository['tables']> = {}) {
+  const repository = new InMemoryPulseRepository({ venues: [venue], ...seed })
+  const scheduler = new BusynessRefreshScheduler(repository)
+  const google = new GoogleBusynessService(repository)
+  const asks: Array<number | undefined> = []
+  google.getBusyness = async (_placeId, _timezone, options = {}) => {
+    asks.push(options.maxAgeMs)
+    return answer && {
+      currentBusyness: 0,
+      usualBusyness: 50,
+      relativeLevel: 'average',
+      trend: 'stable',
+      lastUpdated: NOW,
+      confidence: 0.3,
+      ...answer
+    }
+  }
+  return { repository, scheduler, asks, service: new PopularTimesService(repository, google, scheduler) }
+}
+
+describe('PopularTimesService.getHistogram', () => {
+  it('remembers places without a histogram instead of asking every time', async () => {
+    const { repository, asks, service } = setup({})
+    
+    assert.equal(await service.getHistogram(venue, NOW), null)
+    assert.equal(await service.getHistogram(venue, new Date(NOW.getTime() + DAY_MS)), null)
+    
+    assert.equal(asks.length, 1)
+    assert.equal(repository.tables.google_popular_times[0].histogram, null)
+    assert.equal(repository.tables.google_popular_times[0].checked_at, NOW.toISOString())
+  })
+  
+  it('asks with the scheduler TTL', async () => {
+    const { asks, scheduler, service } = setup({ popularTimes: HISTOGRAM })
+    
+    const record = await service.getHistogram(venue, NOW)
+    
+    assert.deepEqual(record?.histogram, HISTOGRAM)
+    assert.deepEqual(asks, [(await scheduler.getPriority(venue, NOW)).ttlMs])
+  })
+  
+  it('keeps an old histogram when a refresh comes back without one', async () => {
+    const fetchedAt = new Date(NOW.getTime() - 10 * DAY_MS).toISOString()
+    const { repository, asks, service } = setup({}, {
+      google_popular_times: [{ google_place_id: 'place-1', histogram: HISTOGRAM, fetched_at: fetchedAt }]
+    })
+    
+    const record = await service.getHistogram(venue, NOW)
+    await service.getHistogram(venue, new Date(NOW.getTime() + DAY_MS))
+    
+    assert.deepEqual(record?.histogram, HISTOGRAM)
+    assert.equal(record?.fetched_at, fetchedAt)
+    assert.equal(asks.length, 1)
+    assert.equal(repository.tables.google_popular_times.length, 1)
+  })
+})
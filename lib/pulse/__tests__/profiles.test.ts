@@ -0,0 +1,47 @@
+// lib/pulse/__tests__/profiles.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { DEFAULT_SCORING_PROFILE, SCORING_PROFILES, getScoringProfile, matchesVenueType, normalizeVenueType } from '../profiles'
+
+describe('normalizeVenueType', () => {
+  it('maps known types and aliases', () => {
+    assert.equal(normalizeVenueType('Club'), 'club')
+    assert.equal(normalizeVenueType('Cocktail Bar'), 'lounge')
+    assert.equal(normalizeVenueType('dive-bar'), 'bar')
+  })
+  
+  it('ignores prototype keys', () => {
+    for (const type of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      assert.equal(normalizeVenueType(type), null)
+      assert.equal(getScoringProfile(type), DEFAULT_SCORING_PROFILE)
+    }
+  })
+  
+  it('falls back to the default profile for unknown types', () => {
+    assert.equal(normalizeVenueType('bowling alley'), null)
+    assert.equal(getScoringProfile(null), DEFAULT_SCORING_PROFILE)
+    assert.equal(getScoringProfile('nightclub'), SCORING_PROFILES.club)
+  })
+})
+
+describe('matchesVenueType', () => {
+  it('normalizes both the venue type and the filter', () => {
+    assert.ok(matchesVenueType('Nightclub', ['club']))
+    assert.ok(matchesVenueType('club', ['Nightclub ', 'bar']))
+    assert.ok(!matchesVenueType('Cocktail Bar', ['club']))
+  })
+  
+  it('compares unknown types as plain text and never matches a missing one', () => {
+    assert.ok(matchesVenueType('Bowling Alley', ['bowling alley']))
+    assert.ok(!matchesVenueType('bowling alley', ['arcade']))
+    assert.ok(!matchesVenueType(null, ['club', '']))
+  })
+})
+
+describe('DEFAULT_SCORING_PROFILE', () => {
+  it('counts Sunday night as a weekend night, as the original tables did', () => {
+    const weekendNight = DEFAULT_SCORING_PROFILE.timeModifiers.find(rule => rule.label === 'weekend_night')
+    assert.deepEqual(weekendNight?.days, [0, 4, 5, 6])
+  })
+})
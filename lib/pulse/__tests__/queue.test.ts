@@ -0,0 +1,71 @@
+// lib/pulse/__tests__/queue.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { PulseUpdateQueue } from '../queue'
+
+function setup() {
+  const repository = new InMemoryPulseRepository()
+  const queue = new PulseUpdateQueue(repository, { debounceMs: 0, lockTimeoutMs: 60 * 1000 })
+  return { repository, queue }
+}
+
+describe('PulseUpdateQueue', () => {
+  it('merges triggers into one pending job per venue', async () => {
+    const { repository, queue } = setup()
+    await queue.enqueue(1, 'checkin')
+    await queue.enqueue(1, 'vibe_report')
+    
+    const jobs = repository.tables.pulse_update_jobs
+    assert.equal(jobs.length, 1)
+    assert.deepEqual(jobs[0].triggers, ['checkin', 'vibe_report'])
+  })
+  
+  it('folds a failed job into a pending job queued while it ran', async () => {
+    const { repository, queue } = setup()
+    await queue.enqueue(1, 'checkin')
+    const [claimed] = await queue.claimDue()
+    await queue.enqueue(1, 'vibe_report')
+    
+    await queue.fail(claimed, new Error('boom'))
+    
+    const jobs = repository.tables.pulse_update_jobs
+    const pending = jobs.filter(j => j.status === 'pending')
+    assert.equal(pending.length, 1)
+    assert.deepEqual(pending[0].triggers, ['vibe_report', 'checkin'])
+    
+    const failed = jobs.find(j => j.id === claimed.id)!
+    assert.equal(failed.status, 'done')
+    assert.equal(failed.last_error, 'boom')
+  })
+  
+  it('retries a failed job with backoff when nothing else is pending', async () => {
+    const { repository, queue } = setup()
+    await queue.enqueue(1, 'checkin')
+    const [claimed] = await queue.claimDue()
+    
+    await queue.fail(claimed, new Error('boom'))
+    
+    const job = repository.tables.pulse_update_jobs[0]
+    assert.equal(job.status, 'pending')
+    assert.equal(job.attempts, 1)
+    assert.ok(new Date(job.run_at).getTime() > Date.now())
+  })
+  
+  it('releases stale jobs one by one, folding conflicts', async () => {
+    const { repository, queue } = setup()
+    await queue.enqueue(1, 'checkin')
+    await queue.enqueue(2, 'checkin')
+    await queue.claimDue()
+    await queue.enqueue(1, 'manual')
+    
+    const released = await queue.releaseStale(new Date(Date.now() + 2 * 60 * 1000))
+    
+    assert.equal(released, 2)
+    const jobs = repository.tables.pulse_update_jobs
+    assert.equal(jobs.filter(j => j.status === 'processing').length, 0)
+    assert.equal(jobs.filter(j => j.venue_id === 1 && j.status === 'pending').length, 1)
+    assert.equal(jobs.filter(j => j.venue_id === 2 && j.status === 'pending').length, 1)
+  })
+})
@@ -0,0 +1,41 @@
+// lib/pulse/__tests__/reputation.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { ReporterReputationService } from '../reputation'
+
+const MINUTE_MS = 60 * 1000
+const NOW = new Date('2026-10-17T06:00:00Z')
+
+const ago = (minutes: number) => new Date(NOW.getTime() - minutes * MINUTE_MS).toISOString()
+
+function setup(dataSources: string[]) {
+  return new InMemoryPulseRepository({
+    venues: [{ id: 1, name: 'Test Bar', spree_onboarded: false, pulse: 9 }],
+    community_vibe_reports: [
+      { id: 'r1', venue_id: 1, user_id: 'u1', vibe_level: 'packed', created_at: ago(120) }
+    ],
+    pulse_history: [
+      { venue_id: 1, pulse_value: 9, confidence: 0.7, data_sources: dataSources, created_at: ago(115) }
+    ]
+  })
+}
+
+describe('ReporterReputationService.updateNightly', () => {
+  it('does not score reporters against pulses their own votes built', async () => {
+    const repository = setup(['community'])
+    const result = await new ReporterReputationService(repository).updateNightly(NOW)
+    
+    assert.equal(result.reportsScored, 0)
+    assert.deepEqual(repository.tables.reporter_reputation, [])
+  })
+  
+  it('scores reporters against pulses from other sources', async () => {
+    const repository = setup(['google', 'popular_times'])
+    const result = await new ReporterReputationService(repository).updateNightly(NOW)
+    
+    assert.equal(result.usersUpdated, 1)
+    assert.ok(repository.tables.reporter_reputation[0].trust > 0.5)
+  })
+})
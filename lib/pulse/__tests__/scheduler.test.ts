@@ -0,0 +1,55 @@
+// lib/pulse/__tests__/scheduler.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { BusynessRefreshScheduler, MAX_STALE_MS, adaptiveTtl } from '../scheduler'
+import { VenueRecord } from '../types'
+
+const NOW = new Date('2026-10-17T03:00:00Z')
+
+function venue(id: number): VenueRecord {
+  return { id, name: `Venue ${id}`, spree_onboarded: false, pulse: 5, timezone: 'America/New_York' }
+}
+
+describe('adaptiveTtl', () => {
+  it('stretches the TTL as the budget runs down', () => {
+    assert.ok(adaptiveTtl(0.5, { remainingShare: 0.3 }) > adaptiveTtl(0.5, { remainingShare: 1 }))
+  })
+  
+  it('caps staleness once the budget is spent', () => {
+    assert.equal(adaptiveTtl(0.5, { remainingShare: 0 }), MAX_STALE_MS)
+    assert.ok(Number.isFinite(MAX_STALE_MS))
+  })
+})
+
+describe('BusynessRefreshScheduler', () => {
+  it('plans every venue from one grouped read', async () => {
+    const venues = [1, 2, 3].map(venue)
+    const repository = new InMemoryPulseRepository({
+      venues,
+      venue_views: Array.from({ length: 50 }, () => ({ venue_id: 2, viewed_at: NOW.toISOString() }))
+    })
+    const calls = { single: 0, grouped: 0 }
+    repository.countVenueViews = async () => {
+      calls.single++
+      return 0
+    }
+    const countForVenues = repository.countVenueViewsForVenues.bind(repository)
+    repository.countVenueViewsForVenues = async (...args) => {
+      calls.grouped++
+      return countForVenues(...args)
+    }
+    
+    const scheduler = new BusynessRefreshScheduler(repository)
+    const plan = await scheduler.plan(venues, NOW)
+    
+    assert.equal(plan[0].venueId, 2)
+    assert.equal(plan[0].views, 50)
+    
+    // Providers reuse the plan
+    const priority = await scheduler.getPriority(venues[0], NOW)
+    assert.equal(priority.venueId, 1)
+    assert.deepEqual(calls, { single: 0, grouped: 1 })
+  })
+})
@@ -0,0 +1,71 @@
+// lib/pulse/__tests__/screening.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { CommunityReportScreener } from '../screening'
+import { VibeReportRecord } from '../types'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const NOW = new Date('2026-10-17T03:00:00Z')
+
+// Five reports two minutes apart: a burst, but not coordinated timing
+function burst(): VibeReportRecord[] {
+  return [0, 1, 2, 3, 4].map(i => ({
+    id: `burst-${i}`,
+    venue_id: 1,
+    user_id: `user-${i}`,
+    vibe_level: 'packed',
+    created_at: new Date(NOW.getTime() - i * 2 * MINUTE_MS).toISOString()
+  }))
+}
+
+function users(accountAgeMs: number) {
+  return [0, 1, 2, 3, 4].map(i => ({
+    id: `user-${i}`,
+    created_at: new Date(NOW.getTime() - accountAgeMs).toISOString()
+  }))
+}
+
+describe('CommunityReportScreener', () => {
+  it('flags a burst from new accounts at a quiet venue', async () => {
+    const repository = new InMemoryPulseRepository({
+      venues: [{ id: 1, name: 'Quiet Bar', spree_onboarded: false, pulse: 3 }],
+      users: users(DAY_MS),
+      community_vibe_reports: burst()
+    })
+    
+    const flags = await new CommunityReportScreener(repository).screen(1, NOW)
+    
+    assert.equal(flags.length, 5)
+    assert.ok(flags.every(f => f.reasons.includes('new_account_burst')))
+  })
+  
+  it('judges new accounts by age, not by scored reports', async () => {
+    const repository = new InMemoryPulseRepository({
+      venues: [{ id: 1, name: 'Quiet Bar', spree_onboarded: false, pulse: 3 }],
+      users: users(60 * DAY_MS),
+      community_vibe_reports: burst()
+    })
+    
+    assert.deepEqual(await new CommunityReportScreener(repository).screen(1, NOW), [])
+  })
+  
+  it('raises the burst threshold at venues that usually get many reports', async () => {
+    const usual: VibeReportRecord[] = Array.from({ length: 3000 }, (_, i) => ({
+      id: `usual-${i}`,
+      venue_id: 1,
+      user_id: 'regular',
+      vibe_level: 'busy',
+      created_at: new Date(NOW.getTime() - 2 * DAY_MS - i * 10 * MINUTE_MS).toISOString()
+    }))
+    const repository = new InMemoryPulseRepository({
+      venues: [{ id: 1, name: 'Busy Club', spree_onboarded: false, pulse: 8 }],
+      users: users(DAY_MS),
+      community_vibe_reports: [...usual, ...burst()]
+    })
+    
+    assert.deepEqual(await new CommunityReportScreener(repository).screen(1, NOW), [])
+  })
+})
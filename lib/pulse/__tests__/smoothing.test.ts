@@ -0,0 +1,93 @@
+// lib/pulse/__tests__/smoothing.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { PulseSmoother } from '../smoothing'
+import { PulseBatchUpdateService } from '../engine'
+import { PulseHistoryRecord } from '../types'
+
+const MINUTE_MS = 60 * 1000
+const NOW = new Date('2026-10-17T03:00:00Z')
+
+function history(value: number, minutesAgo: number, state?: number): PulseHistoryRecord {
+  return {
+    venue_id: 1,
+    pulse_value: value,
+    smoothing_state: state,
+    confidence: 0.8,
+    data_sources: ['checkins'],
+    created_at: new Date(NOW.getTime() - minutesAgo * MINUTE_MS).toISOString()
+  }
+}
+
+describe('PulseSmoother.apply', () => {
+  const smoother = new PulseSmoother(new InMemoryPulseRepository())
+  
+  it('passes the first value through', () => {
+    const result = smoother.apply(null, 6.3, 0.8, NOW)
+    assert.equal(result.value, 6.3)
+    assert.equal(result.alpha, 1)
+  })
+  
+  it('lets rises through at once', () => {
+    assert.equal(smoother.apply(history(4, 5), 7.2, 0.8, NOW).value, 7.2)
+  })
+  
+  it('holds the value inside the deadband', () => {
+    const result = smoother.apply(history(6, 5), 5.9, 0.8, NOW)
+    assert.equal(result.value, 6)
+    assert.equal(result.alpha, 0)
+  })
+  
+  it('decays drops over time', () => {
+    const soon = smoother.apply(history(8, 1), 4, 1, NOW)
+    const later = smoother.apply(history(8, 60), 4, 1, NOW)
+    
+    assert.ok(soon.value > later.value)
+    assert.ok(later.value > 4)
+  })
+  
+  it('seeds from the unrounded state, so small steps add up', () => {
+    let previous = history(5.5, 5)
+    let result = smoother.apply(previous, 5, 0.3, NOW)
+    
+    for (let run = 1; run <= 20; run++) {
+      const at = new Date(NOW.getTime() + run * 5 * MINUTE_MS)
+      previous = { ...history(result.value, 0, result.state), created_at: new Date(at.getTime() - 5 * MINUTE_MS).toISOString() }
+      result = smoother.apply(previous, 5, 0.3, at)
+    }
+    
+    assert.ok(result.state < 5.2)
+    assert.equal(result.value, Math.round(result.state * 10) / 10)
+  })
+})
+
+describe('PulseBatchUpdateService.updateVenue', () => {
+  it('writes history, so the next smoothing sees this value', async () => {
+    const repository = new InMemoryPulseRepository({
+      venues: [{ id: 1, name: 'Test Bar', spree_onboarded: false, pulse: 5 }]
+    })
+    
+    const pulse = await new PulseBatchUpdateService(repository).updateVenue(1, { fallbackOnError: false })
+    
+    const [row] = repository.tables.pulse_history
+    assert.equal(repository.tables.pulse_history.length, 1)
+    assert.equal(row.pulse_value, pulse.value)
+    assert.equal(row.smoothing_state, pulse.smoothingState)
+  })
+  
+  it('writes no history for a fallback estimate', async () => {
+    const repository = new InMemoryPulseRepository({
+      venues: [{ id: 1, name: 'Test Bar', spree_onboarded: false, pulse: 8 }]
+    })
+    repository.getVibeReports = async () => {
+      throw new Error('Database unavailable')
+    }
+    
+    const pulse = await new PulseBatchUpdateService(repository).updateVenue(1)
+    
+    assert.equal(pulse.value, 5)
+    assert.deepEqual(repository.tables.pulse_history, [])
+  })
+})
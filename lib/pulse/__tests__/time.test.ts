@@ -0,0 +1,45 @@
+// lib/pulse/__tests__/time.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { fromVenueLocalTime, getVenueLocalTime, startOfVenueHour } from '../time'
+
+describe('getVenueLocalTime', () => {
+  it('rolls hours before 6am back to the previous night', () => {
+    // 1:30am Saturday in New York
+    const local = getVenueLocalTime({ timezone: 'America/New_York' }, new Date('2026-10-17T05:30:00Z'))
+    assert.equal(local.hour, 1)
+    assert.equal(local.dayName, 'Saturday')
+    assert.equal(local.nightlifeDayOfWeek, 5)
+    assert.equal(local.nightlifeDate, '2026-10-16')
+  })
+})
+
+describe('startOfVenueHour', () => {
+  it('truncates to the UTC hour for whole-hour offsets', () => {
+    const start = startOfVenueHour({ timezone: 'America/New_York' }, new Date('2026-10-17T05:47:12.345Z'))
+    assert.equal(start.toISOString(), '2026-10-17T05:00:00.000Z')
+  })
+  
+  it('truncates to the local hour for half-hour offsets', () => {
+    // 23:17 in Kolkata (UTC+5:30)
+    const start = startOfVenueHour({ timezone: 'Asia/Kolkata' }, new Date('2026-10-17T17:47:30Z'))
+    assert.equal(start.toISOString(), '2026-10-17T17:30:00.000Z')
+    assert.equal(getVenueLocalTime({ timezone: 'Asia/Kolkata' }, start).minute, 0)
+  })
+  
+  it('handles 45-minute offsets', () => {
+    const start = startOfVenueHour({ timezone: 'Asia/Kathmandu' }, new Date('2026-10-17T17:10:00Z'))
+    assert.equal(getVenueLocalTime({ timezone: 'Asia/Kathmandu' }, start).minute, 0)
+    assert.ok(start.getTime() <= new Date('2026-10-17T17:10:00Z').getTime())
+  })
+})
+
+describe('fromVenueLocalTime', () => {
+  it('uses the offset in force at the wall-clock time', () => {
+    const venue = { timezone: 'America/New_York' }
+    // 01:00 Sunday is EDT, 04:00 is EST after the clocks go back
+    assert.equal(fromVenueLocalTime(venue, '2026-10-31', 25 * 60).toISOString(), '2026-11-01T05:00:00.000Z')
+    assert.equal(fromVenueLocalTime(venue, '2026-10-31', 28 * 60).toISOString(), '2026-11-01T09:00:00.000Z')
+  })
+})
@@ -0,0 +1,109 @@
+// lib/pulse/__tests__/trending.test.ts
+
+import { describe, it } from 'node:test'
+import { strict as assert } from 'node:assert'
+import { InMemoryPulseRepository } from '../repository'
+import { PulseTrendingService, scoreTrend } from '../trending'
+import { PulseHistoryRecord, VenueBaselineRecord } from '../types'
+
+const MINUTE_MS = 60 * 1000
+const NOW = new Date('2026-10-17T02:00:00Z')
+
+// Minutes ago -> pulse
+const RISING: Array<[number, number]> = [[60, 3], [30, 4], [15, 4.5], [5, 6], [0, 6.5]]
+
+function history(points: Array<[number, number]>, venueId: number = 1, confidence: number = 0.8): PulseHistoryRecord[] {
+  return points.map(([minutes, value]) => ({
+    venue_id: venueId,
+    pulse_value: value,
+    confidence,
+    data_sources: ['community'],
+    created_at: new Date(NOW.getTime() - minutes * MINUTE_MS).toISOString()
+  }))
+}
+
+function baseline(pulseStd: number, pulseSamples: number): VenueBaselineRecord {
+  return {
+    venue_id: 1,
+    hour_of_week: 0,
+    pulse_mean: 4,
+    pulse_std: pulseStd,
+    pulse_samples: pulseSamples,
+    checkin_mean: 0,
+    checkin_std: 0,
+    checkin_samples: 0,
+    updated_at: NOW.toISOString()
+  }
+}
+
+describe('scoreTrend', () => {
+  it('weights the rise over each window', () => {
+    const trend = scoreTrend(history(RISING), null, undefined, NOW)
+    assert.deepEqual(trend?.deltas, [
+      { minutes: 15, delta: 2 },
+      { minutes: 30, delta: 2.5 },
+      { minutes: 60, delta: 3.5 }
+    ])
+    assert.equal(trend?.pulse, 6.5)
+    assert.equal(trend?.score, 2.45)
+  })
+  
+  it('divides by the usual spread once the baseline has enough samples', () => {
+    assert.equal(scoreTrend(history(RISING), baseline(2.5, 8), undefined, NOW)?.score, 0.98)
+    assert.equal(scoreTrend(history(RISING), baseline(2.5, 1), undefined, NOW)?.score, 2.45)
+  })
+  
+  it('ignores a single spike', () => {
+    const spike = history([[60, 3], [30, 3], [15, 3], [5, 3], [0, 7]])
+    assert.equal(scoreTrend(spike, null, undefined, NOW), null)
+  })
+  
+  it('needs a fresh, confident rise over enough samples', () => {
+    assert.equal(scoreTrend(history(RISING), null, undefined, new Date(NOW.getTime() + 40 * MINUTE_MS)), null)
+    assert.equal(scoreTrend(history(RISING, 1, 0.3), null, undefined, NOW), null)
+    assert.equal(scoreTrend(history(RISING.slice(-2)), null, undefined, NOW), null)
+  })
+  
+  it('does not score a falling pulse', () => {
+    const falling = history(RISING.map(([minutes, value]) => [minutes, 10 - value]))
+    assert.equal(scoreTrend(falling, null, undefined, NOW), null)
+  })
+})
+
+describe('PulseTrendingService.getTrending', () => {
+  it('ranks rising open venues and leaves out closed ones', async () => {
+    const venue = { spree_onboarded: false, pulse: 6, timezone: 'America/New_York' }
+    const repository = new InMemoryPulseRepository({
+      venues: [
+        { ...venue, id: 1, name: 'Rising Bar' },
+        { ...venue, id: 2, name: 'Steady Pub' },
+        { ...venue, id: 3, name: 'Closed Club', pulse_status: 'closed' },
+        { ...venue, id: 4, name: 'Surging Club' }
+      ],
+      pulse_history: [
+        ...history(RISING, 1),
+        ...history(RISING.map(([minutes]) => [minutes, 5]), 2),
+        ...history(RISING, 3),
+        ...history(RISING.map(([minutes, value]) => [minutes, value * 1.4]), 4)
+      ]
+    })
+    
+    const trending = await new PulseTrendingService(repository).getTrending({}, NOW)
+    assert.deepEqual(trending.map(t => t.venueId), [4, 1])
+    assert.equal(trending[1].usualPulse, null)
+  })
+  
+  it('filters on normalized venue types', async () => {
+    const venue = { spree_onboarded: false, pulse: 6, timezone: 'America/New_York' }
+    const repository = new InMemoryPulseRepository({
+      venues: [
+        { ...venue, id: 1, name: 'Rising Bar', venue_type: 'Dive Bar' },
+        { ...venue, id: 2, name: 'Surging Club', venue_type: 'Nightclub' }
+      ],
+      pulse_history: [...history(RISING, 1), ...history(RISING, 2)]
+    })
+    
+    const trending = await new PulseTrendingService(repository).getTrending({ venueTypes: ['club'] }, NOW)
+    assert.deepEqual(trending.map(t => t.venueId), [2])
+  })
+})
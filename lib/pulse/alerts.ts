@@ -0,0 +1,284 @@
+// lib/pulse/alerts.ts
+
+import {
+  AlertNotificationRecord,
+  PulseAlertRecord,
+  PulseData,
+  RelativeBusynessLevel,
+  VenueRecord
+} from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { distanceMeters } from './geofence'
+import { getVenueLocalTime } from './time'
+
+// Quietest to busiest, for "at least" comparisons
+const RELATIVE_LEVELS: RelativeBusynessLevel[] = ['low', 'below_average', 'average', 'above_average', 'high']
+
+const MAX_AREA_RADIUS_M = 10000
+const MAX_WAIT_AGE_MINUTES = 30  // An older line report says little about the door now
+
+export interface AlertConditions {
+  minPulse?: number
+  minRelativeLevel?: RelativeBusynessLevel
+  maxWaitMinutes?: number    // Needs a fresh reported wait time to match
+}
+
+export interface AlertArea {
+  lat: number
+  lng: number
+  radiusMeters: number
+}
+
+// A venue's freshly written pulse, as handed over by the batch job
+export interface AlertReading {
+  venue: VenueRecord
+  pulse: PulseData
+}
+
+/**
+ * Reported wait, when recent enough to alert on; 0 is no line at all
+ */
+function freshWaitTime(pulse: Pick<PulseData, 'breakdown'>): number | null {
+  const wait = pulse.breakdown?.waitTime
+  const age = pulse.breakdown?.waitTimeAgeMinutes
+  if (typeof wait !== 'number' || typeof age !== 'number' || age > MAX_WAIT_AGE_MINUTES) return null
+  return wait
+}
+
+/**
+ * Whether a pulse meets every condition the alert sets
+ */
+export function alertMatches(
+  alert: Pick<PulseAlertRecord, 'min_pulse' | 'min_relative_level' | 'max_wait_minutes'>,
+  pulse: Pick<PulseData, 'value' | 'relativeLevel' | 'breakdown' | 'openStatus'>
+): boolean {
+  if (pulse.openStatus === 'closed') return false
+  
+  if (typeof alert.min_pulse === 'number' && pulse.value < alert.min_pulse) {
+    return false
+  }
+  
+  if (alert.min_relative_level) {
+    if (!pulse.relativeLevel) return false
+    if (RELATIVE_LEVELS.indexOf(pulse.relativeLevel) < RELATIVE_LEVELS.indexOf(alert.min_relative_level)) {
+      return false
+    }
+  }
+  
+  if (typeof alert.max_wait_minutes === 'number') {
+    const wait = freshWaitTime(pulse)
+    if (wait === null || wait >= alert.max_wait_minutes) return false
+  }
+  
+  return true
+}
+
+function inArea(alert: PulseAlertRecord, venue: VenueRecord): boolean {
+  if (typeof venue.lat !== 'number' || typeof venue.lng !== 'number') return false
+  if (typeof alert.area_lat !== 'number' || typeof alert.area_lng !== 'number') return false
+  
+  return distanceMeters(
+    { lat: alert.area_lat, lng: alert.area_lng },
+    { lat: venue.lat, lng: venue.lng }
+  ) <= (alert.area_radius_m ?? 0)
+}
+
+/**
+ * User alerts on venues or areas, evaluated against each batch write
+ */
+export class PulseAlertService {
+  private repository: PulseRepository
+  
+  constructor(repository: PulseRepository = new SupabasePulseRepository()) {
+    this.repository = repository
+  }
+  
+  /**
+   * Alert on one venue
+   */
+  async createVenueAlert(userId: string, venueId: number, conditions: AlertConditions): Promise<PulseAlertRecord> {
+    return this.repository.insertAlert({
+      user_id: userId,
+      venue_id: venueId,
+      ...this.toColumns(conditions),
+      active: true,
+      created_at: new Date().toISOString()
+    })
+  }
+  
+  /**
+   * Alert on any venue within `radiusMeters` of a point
+   */
+  async createAreaAlert(userId: string, area: AlertArea, conditions: AlertConditions): Promise<PulseAlertRecord> {
+    if (!(area.radiusMeters > 0 && area.radiusMeters <= MAX_AREA_RADIUS_M)) {
+      throw new Error(`Alert radius must be between 0 and ${MAX_AREA_RADIUS_M} meters`)
+    }
+    
+    return this.repository.insertAlert({
+      user_id: userId,
+      area_lat: area.lat,
+      area_lng: area.lng,
+      area_radius_m: area.radiusMeters,
+      ...this.toColumns(conditions),
+      active: true,
+      created_at: new Date().toISOString()
+    })
+  }
+  
+  async disableAlert(alertId: string): Promise<void> {
+    await this.repository.updateAlert(alertId, { active: false })
+  }
+  
+  async getUserAlerts(userId: string): Promise<PulseAlertRecord[]> {
+    return this.repository.getUserAlerts(userId)
+  }
+  
+  /**
+   * Match fresh pulses against active alerts and queue notifications
+   *
+   * Each alert fires at most once per night (venue local nightlife date); an
+   * area alert names the busiest matching venue.
+   */
+  async evaluate(readings: AlertReading[], now: Date = new Date()): Promise<AlertNotificationRecord[]> {
+    if (readings.length === 0) return []
+    
+    const [venueAlerts, areaAlerts] = await Promise.all([
+      this.repository.getActiveVenueAlerts(readings.map(r => r.venue.id)),
+      this.repository.getActiveAreaAlerts()
+    ])
+    if (venueAlerts.length === 0 && areaAlerts.length === 0) return []
+    
+    const byVenue = new Map<number, PulseAlertRecord[]>()
+    venueAlerts.forEach(alert => {
+      const list = byVenue.get(alert.venue_id!) ?? []
+      list.push(alert)
+      byVenue.set(alert.venue_id!, list)
+    })
+    
+    // Busiest first, so an area alert's one notification points at the best venue
+    const sorted = [...readings].sort((a, b) => b.pulse.value - a.pulse.value)
+    const pending = new Map<string, Omit<AlertNotificationRecord, 'id'>>()
+    
+    for (const { venue, pulse } of sorted) {
+      const candidates = [
+        ...(byVenue.get(venue.id) ?? []),
+        ...areaAlerts.filter(alert => inArea(alert, venue))
+      ]
+      if (candidates.length === 0) continue
+      
+      const nightlifeDate = getVenueLocalTime(venue, now).nightlifeDate
+      for (const alert of candidates) {
+        const key = `${alert.id}:${nightlifeDate}`
+        if (pending.has(key) || !alertMatches(alert, pulse)) continue
+        pending.set(key, this.buildNotification(alert, venue, pulse, nightlifeDate, now))
+      }
+    }
+    
+    return this.repository.insertAlertNotifications([...pending.values()])
+  }
+  
+  /**
+   * Notifications waiting for the push sender, oldest first
+   */
+  async getPendingNotifications(limit: number = 100): Promise<AlertNotificationRecord[]> {
+    return this.repository.getPendingAlertNotifications(limit)
+  }
+  
+  /**
+   * Record the push sender's outcome
+   */
+  async markNotifications(notificationIds: string[], status: 'sent' | 'failed'): Promise<void> {
+    await this.repository.updateAlertNotifications(
+      notificationIds,
+      status,
+      status === 'sent' ? new Date().toISOString() : null
+    )
+  }
+  
+  private toColumns(conditions: AlertConditions): Pick<PulseAlertRecord, 'min_pulse' | 'min_relative_level' | 'max_wait_minutes'> {
+    const columns = {
+      min_pulse: conditions.minPulse ?? null,
+      min_relative_level: conditions.minRelativeLevel ?? null,
+      max_wait_minutes: conditions.maxWaitMinutes ?? null
+    }
+    
+    if (columns.min_pulse === null && columns.min_relative_level === null && columns.max_wait_minutes === null) {
+      throw new Error('An alert needs at least one condition')
+    }
+    if (columns.min_relative_level !== null && !RELATIVE_LEVELS.includes(columns.min_relative_level)) {
+      throw new Error(`Unknown relative level: ${columns.min_relative_level}`)
+    }
+    
+    return columns
+  }
+  
+  private buildNotification(
+    alert: PulseAlertRecord,
+    venue: VenueRecord,
+    pulse: PulseData,
+    nightlifeDate: string,
+    now: Date
+  ): Omit<AlertNotificationRecord, 'id'> {
+    const wait = freshWaitTime(pulse)
+    const shortLine = typeof alert.max_wait_minutes === 'number' && wait !== null
+    
+    const details = [`Pulse ${pulse.value.toFixed(1)}`]
+    if (wait !== null) details.push(wait === 0 ? 'No line' : `~${wait} min wait`)
+    
+    return {
+      alert_id: alert.id,
+      user_id: alert.user_id,
+      venue_id: venue.id,
+      nightlife_date: nightlifeDate,
+      title: shortLine ? `Short line at ${venue.name}` : `${venue.name} is popping`,
+      body: details.join(' · '),
+      data: {
+        pulse: pulse.value,
+        relative_level: pulse.relativeLevel ?? null,
+        wait_minutes: wait
+      },
+      status: 'pending',
+      created_at: now.toISOString()
+    }
+  }
+}
+
+// Database tables needed:
+export const PULSE_ALERTS_SQL = `
+CREATE TABLE IF NOT EXISTS pulse_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  venue_id INTEGER REFERENCES venues(id),           -- Venue alert...
+  area_lat DECIMAL(9,6),                            -- ...or area alert
+  area_lng DECIMAL(9,6),
+  area_radius_m INTEGER,
+  min_pulse DECIMAL(3,1),
+  min_relative_level TEXT,
+  max_wait_minutes INTEGER,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CHECK ((venue_id IS NULL) <> (area_radius_m IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pulse_alerts_venue ON pulse_alerts(venue_id) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_pulse_alerts_user ON pulse_alerts(user_id);
+
+CREATE TABLE IF NOT EXISTS alert_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID REFERENCES pulse_alerts(id) NOT NULL,
+  user_id UUID NOT NULL,
+  venue_id INTEGER REFERENCES venues(id) NOT NULL,
+  nightlife_date DATE NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  sent_at TIMESTAMP
+);
+
+-- Fire once per alert per night
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alert_notifications_once
+  ON alert_notifications(alert_id, nightlife_date);
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_pending ON alert_notifications(status, created_at);
+`
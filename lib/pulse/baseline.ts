@@ -0,0 +1,285 @@
+// lib/pulse/baseline.ts
+
+import {
+  PulseData,
+  RelativeBusynessLevel,
+  VenueBaselineRecord,
+  VenueRecord
+} from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { getVenueLocalTime, hourOfWeek } from './time'
+
+const HOUR_MS = 60 * 60 * 1000
+const WEEK_MS = 7 * 24 * HOUR_MS
+const BASELINE_WEEKS = 8
+const BASELINE_MAX_AGE_MS = 24 * HOUR_MS
+const BASELINE_STAGGER_SLOTS = 12        // Half-hour slots past the max age, by venue id
+
+// How far back a rebuild reads history and check-ins
+export const BASELINE_LOOKBACK_MS = BASELINE_WEEKS * WEEK_MS
+const MIN_PULSE_SAMPLES = 3
+const MIN_CHECKIN_WEEKS = 3
+
+export interface HourOfWeekStats {
+  mean: number
+  std: number
+  count: number
+}
+
+export interface BaselineComparison {
+  relativeLevel: RelativeBusynessLevel
+  deviation: number          // z-score
+  usualPulse: number | null
+}
+
+/**
+ * Mean/std of values per venue-local hour of week
+ */
+export function summarizeByHourOfWeek(
+  venue: Pick<VenueRecord, 'timezone' | 'lng'>,
+  samples: Array<{ time: string | Date, value: number }>
+): Map<number, HourOfWeekStats> {
+  const buckets = new Map<number, number[]>()
+  
+  samples.forEach(sample => {
+    const key = hourOfWeek(getVenueLocalTime(venue, new Date(sample.time)))
+    const values = buckets.get(key) || []
+    values.push(sample.value)
+    buckets.set(key, values)
+  })
+  
+  const stats = new Map<number, HourOfWeekStats>()
+  buckets.forEach((values, key) => stats.set(key, describe(values)))
+  return stats
+}
+
+/**
+ * Whether a venue's baselines are due a rebuild
+ *
+ * Venues go stale up to six hours apart by id, so a fleet learned in one run
+ * doesn't come due in one run again; the gap widens a little every day.
+ */
+export function isBaselineDue(venue: Pick<VenueRecord, 'id' | 'baseline_learned_at'>, now: Date = new Date()): boolean {
+  const learnedAt = venue.baseline_learned_at ? new Date(venue.baseline_learned_at).getTime() : 0
+  const stagger = (Math.abs(venue.id) % BASELINE_STAGGER_SLOTS) * HOUR_MS / 2
+  return now.getTime() - learnedAt > BASELINE_MAX_AGE_MS + stagger
+}
+
+/**
+ * Map a z-score to a relative level
+ */
+export function levelFromDeviation(deviation: number): RelativeBusynessLevel {
+  if (deviation <= -1.5) return 'low'
+  if (deviation <= -0.5) return 'below_average'
+  if (deviation < 0.5) return 'average'
+  if (deviation < 1.5) return 'above_average'
+  return 'high'
+}
+
+/**
+ * Learns what "usual" looks like for each venue and hour of the week
+ */
+export class VenueBaselineService {
+  private repository: PulseRepository
+  
+  constructor(repository: PulseRepository = new SupabasePulseRepository()) {
+    this.repository = repository
+  }
+  
+  /**
+   * Compare a fresh pulse against the venue's baseline
+   */
+  async compare(
+    venue: VenueRecord,
+    pulse: PulseData,
+    options: { checkInsLastHour?: number, now?: Date } = {}
+  ): Promise<BaselineComparison | null> {
+    const { checkInsLastHour, now = new Date() } = options
+    const baseline = await this.getBaseline(venue, hourOfWeek(getVenueLocalTime(venue, now)), now)
+    if (!baseline) return null
+    
+    const deviations: number[] = []
+    
+    if (baseline.pulse_samples >= MIN_PULSE_SAMPLES) {
+      deviations.push(zScore(pulse.value, baseline.pulse_mean, baseline.pulse_std, 0.5))
+    }
+    
+    // Partners: compare the check-in rate too
+    if (typeof checkInsLastHour === 'number' && baseline.checkin_samples >= MIN_CHECKIN_WEEKS) {
+      deviations.push(zScore(checkInsLastHour, baseline.checkin_mean, baseline.checkin_std, 1))
+    }
+    
+    if (deviations.length === 0) return null
+    
+    const deviation = deviations.reduce((a, b) => a + b, 0) / deviations.length
+    
+    return {
+      relativeLevel: levelFromDeviation(deviation),
+      deviation: Math.round(deviation * 100) / 100,
+      usualPulse: baseline.pulse_samples >= MIN_PULSE_SAMPLES
+        ? Math.round(baseline.pulse_mean * 10) / 10
+        : null
+    }
+  }
+  
+  /**
+   * Stored baseline for one hour of week, relearned when stale
+   *
+   * Freshness comes from venues.baseline_learned_at, so a venue with no
+   * history yet isn't relearned on every call.
+   */
+  async getBaseline(venue: VenueRecord, hour: number, now: Date = new Date()): Promise<VenueBaselineRecord | null> {
+    if (!isBaselineDue(venue, now)) {
+      const [record] = await this.repository.getVenueBaselinesForVenues([venue.id], [hour])
+      return record ?? null
+    }
+    
+    const records = await this.learn(venue, now)
+    return records.find(r => r.hour_of_week === hour) ?? null
+  }
+  
+  /**
+   * Rebuild a venue's baselines from pulse_history and check-ins
+   */
+  async learn(venue: VenueRecord, now: Date = new Date()): Promise<VenueBaselineRecord[]> {
+    const since = new Date(now.getTime() - BASELINE_LOOKBACK_MS)
+    
+    const [history, checkIns] = await Promise.all([
+      this.repository.getPulseHistory(venue.id, since),
+      venue.spree_onboarded ? this.repository.getCheckIns(venue.id, since) : Promise.resolve([])
+    ])
+    
+    // Mean pulse per (week, hour of week) first: runs every few minutes would
+    // otherwise clear the sample floor in one night and measure its jitter
+    const weeklyPulses = new Map<string, number[]>()
+    history.forEach(h => {
+      if (!h.created_at) return
+      const createdAt = new Date(h.created_at)
+      // Rows in one hour of week sit whole weeks apart, give or take that hour
+      const week = Math.round((now.getTime() - createdAt.getTime()) / WEEK_MS)
+      const key = `${week}:${hourOfWeek(getVenueLocalTime(venue, createdAt))}`
+      const values = weeklyPulses.get(key) || []
+      values.push(h.pulse_value)
+      weeklyPulses.set(key, values)
+    })
+    
+    const pulseByHour = new Map<number, number[]>()
+    weeklyPulses.forEach((values, key) => {
+      const hour = Number(key.split(':')[1])
+      const means = pulseByHour.get(hour) || []
+      means.push(describe(values).mean)
+      pulseByHour.set(hour, means)
+    })
+    const pulseStats = new Map<number, HourOfWeekStats>()
+    pulseByHour.forEach((means, hour) => pulseStats.set(hour, describe(means)))
+    
+    // Only weeks the venue could have had check-ins in; zero-filled weeks
+    // before onboarding would make any check-in look "high"
+    const weeks = venue.spree_onboarded ? this.partnerWeeks(venue, checkIns, now) : 0
+    
+    // New check-ins per (week, hour of week), zeros included
+    const checkInCounts = new Map<string, number>()
+    checkIns.forEach(checkIn => {
+      const createdAt = new Date(checkIn.created_at)
+      const week = Math.floor((now.getTime() - createdAt.getTime()) / WEEK_MS)
+      const key = `${week}:${hourOfWeek(getVenueLocalTime(venue, createdAt))}`
+      checkInCounts.set(key, (checkInCounts.get(key) || 0) + 1)
+    })
+    
+    const updatedAt = now.toISOString()
+    const records: VenueBaselineRecord[] = []
+    
+    for (let hour = 0; hour < 7 * 24; hour++) {
+      const pulse = pulseStats.get(hour)
+      const checkInsPerWeek = Array.from({ length: weeks }, (_, week) => checkInCounts.get(`${week}:${hour}`) || 0)
+      const checkin = checkInsPerWeek.length > 0 ? describe(checkInsPerWeek) : null
+      
+      if (!pulse && !checkin) continue
+      
+      records.push({
+        venue_id: venue.id,
+        hour_of_week: hour,
+        pulse_mean: pulse?.mean || 0,
+        pulse_std: pulse?.std || 0,
+        pulse_samples: pulse?.count || 0,
+        checkin_mean: checkin?.mean || 0,
+        checkin_std: checkin?.std || 0,
+        checkin_samples: checkin?.count || 0,
+        updated_at: updatedAt
+      })
+    }
+    
+    await this.repository.replaceVenueBaselines(venue.id, records, updatedAt)
+    return records
+  }
+  
+  /**
+   * Weeks back to the later of the venue's creation and its first check-in
+   */
+  private partnerWeeks(venue: VenueRecord, checkIns: Array<{ created_at: string }>, now: Date): number {
+    const starts: number[] = []
+    if (checkIns.length > 0) {
+      starts.push(checkIns.reduce((first, c) => Math.min(first, new Date(c.created_at).getTime()), Infinity))
+    }
+    if (venue.created_at) starts.push(new Date(venue.created_at).getTime())
+    if (starts.length === 0) return 0
+    
+    const weeks = Math.ceil((now.getTime() - Math.max(...starts)) / WEEK_MS)
+    return Math.max(0, Math.min(BASELINE_WEEKS, weeks))
+  }
+}
+
+function describe(values: number[]): HourOfWeekStats {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+  return { mean, std: Math.sqrt(variance), count: values.length }
+}
+
+function zScore(value: number, mean: number, std: number, minStd: number): number {
+  return (value - mean) / Math.max(minStd, std)
+}
+
+// Database tables needed:
+export const VENUE_BASELINES_SQL = `
+CREATE TABLE IF NOT EXISTS venue_hourly_baselines (
+  venue_id INTEGER REFERENCES venues(id) NOT NULL,
+  hour_of_week INTEGER NOT NULL CHECK (hour_of_week >= 0 AND hour_of_week < 168),
+  pulse_mean DECIMAL(4,2) NOT NULL DEFAULT 0,
+  pulse_std DECIMAL(4,2) NOT NULL DEFAULT 0,
+  pulse_samples INTEGER NOT NULL DEFAULT 0,
+  checkin_mean DECIMAL(6,2) NOT NULL DEFAULT 0,
+  checkin_std DECIMAL(6,2) NOT NULL DEFAULT 0,
+  checkin_samples INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (venue_id, hour_of_week)
+);
+
+-- Set on every rebuild, including ones that found nothing to learn
+ALTER TABLE venues
+ADD COLUMN IF NOT EXISTS baseline_learned_at TIMESTAMP;
+
+-- Used by replaceVenueBaselines: one transaction, so readers never see a half-written set
+CREATE OR REPLACE FUNCTION replace_venue_baselines(p_venue_id INTEGER, p_records JSONB, p_learned_at TIMESTAMP)
+RETURNS void AS $$
+  DELETE FROM venue_hourly_baselines WHERE venue_id = p_venue_id;
+  
+  INSERT INTO venue_hourly_baselines (
+    venue_id, hour_of_week, pulse_mean, pulse_std, pulse_samples,
+    checkin_mean, checkin_std, checkin_samples, updated_at
+  )
+  SELECT
+    p_venue_id, r.hour_of_week, r.pulse_mean, r.pulse_std, r.pulse_samples,
+    r.checkin_mean, r.checkin_std, r.checkin_samples, p_learned_at
+  FROM jsonb_to_recordset(p_records) AS r(
+    hour_of_week INTEGER,
+    pulse_mean DECIMAL(4,2),
+    pulse_std DECIMAL(4,2),
+    pulse_samples INTEGER,
+    checkin_mean DECIMAL(6,2),
+    checkin_std DECIMAL(6,2),
+    checkin_samples INTEGER
+  );
+  
+  UPDATE venues SET baseline_learned_at = p_learned_at WHERE id = p_venue_id;
+$$ LANGUAGE sql;
+`
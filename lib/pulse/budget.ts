@@ -0,0 +1,126 @@
+// lib/pulse/budget.ts
+
+import { PulseRepository, SupabasePulseRepository } from './repository'
+
+export interface ApiBudgetOptions {
+  provider: string
+  monthlyLimit: number
+  dailyLimit: number | null  // null = spread what's left of the month evenly
+}
+
+export const DEFAULT_SERPAPI_BUDGET: ApiBudgetOptions = {
+  provider: 'serpapi',
+  monthlyLimit: Number(process.env.SERPAPI_MONTHLY_BUDGET) || 5000,
+  dailyLimit: Number(process.env.SERPAPI_DAILY_BUDGET) || null
+}
+
+export const DEFAULT_BESTTIME_BUDGET: ApiBudgetOptions = {
+  provider: 'besttime',
+  monthlyLimit: Number(process.env.BESTTIME_MONTHLY_BUDGET) || 5000,
+  dailyLimit: Number(process.env.BESTTIME_DAILY_BUDGET) || null
+}
+
+export interface ApiBudgetStatus {
+  usedToday: number
+  usedThisMonth: number
+  dailyLimit: number         // Today's allowance
+  monthlyLimit: number
+  remainingToday: number
+  remainingShare: number     // 0-1 of today's allowance still unspent
+}
+
+/**
+ * Tracks paid API calls per UTC day and month against a budget
+ */
+export class ApiBudget {
+  private repository: PulseRepository
+  private options: ApiBudgetOptions
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    options: Partial<ApiBudgetOptions> = {}
+  ) {
+    this.repository = repository
+    this.options = { ...DEFAULT_SERPAPI_BUDGET, ...options }
+  }
+  
+  async getStatus(now: Date = new Date()): Promise<ApiBudgetStatus> {
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+    
+    const [usedToday, usedThisMonth] = await Promise.all([
+      this.repository.countApiCalls(this.options.provider, dayStart),
+      this.repository.countApiCalls(this.options.provider, monthStart)
+    ])
+    
+    // What the month had left this morning, shared over the remaining days
+    const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate()
+    const daysLeft = daysInMonth - now.getUTCDate() + 1
+    const leftAtDayStart = Math.max(0, this.options.monthlyLimit - (usedThisMonth - usedToday))
+    
+    const dailyLimit = Math.min(
+      this.options.dailyLimit ?? Infinity,
+      Math.ceil(leftAtDayStart / daysLeft),
+      leftAtDayStart
+    )
+    const remainingToday = Math.max(0, dailyLimit - usedToday)
+    
+    return {
+      usedToday,
+      usedThisMonth,
+      dailyLimit,
+      monthlyLimit: this.options.monthlyLimit,
+      remainingToday,
+      remainingShare: dailyLimit > 0 ? remainingToday / dailyLimit : 0
+    }
+  }
+  
+  /**
+   * Record a call if the budget allows it; false means don't call
+   */
+  async tryAcquire(
+    call: { venueId?: number, googlePlaceId?: string } = {},
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const status = await this.getStatus(now)
+    if (status.remainingToday <= 0) return false
+    
+    // Concurrent callers can overshoot by a few calls; fine for a soft budget
+    await this.repository.recordApiCall({
+      provider: this.options.provider,
+      venue_id: call.venueId ?? null,
+      google_place_id: call.googlePlaceId ?? null,
+      called_at: now.toISOString()
+    })
+    return true
+  }
+}
+
+// Database tables needed:
+export const API_BUDGET_SQL = `
+CREATE TABLE IF NOT EXISTS busyness_api_calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  venue_id INTEGER REFERENCES venues(id),
+  google_place_id TEXT,
+  called_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS venue_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id INTEGER REFERENCES venues(id) NOT NULL,
+  user_id UUID REFERENCES users(id),
+  viewed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_calls_provider_time ON busyness_api_calls(provider, called_at DESC);
+CREATE INDEX IF NOT EXISTS idx_venue_views_venue_time ON venue_views(venue_id, viewed_at DESC);
+
+CREATE OR REPLACE FUNCTION count_venue_views(p_venue_ids INTEGER[], p_since TIMESTAMP)
+RETURNS TABLE (venue_id INTEGER, views INTEGER) AS $$
+  SELECT venue_id, COUNT(*)::INTEGER
+  FROM venue_views
+  WHERE venue_id = ANY(p_venue_ids) AND viewed_at >= p_since
+  GROUP BY venue_id;
+$$ LANGUAGE sql STABLE;
+`
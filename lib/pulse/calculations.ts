@@ -1,70 +1,25 @@
 // lib/pulse/calculations.ts
 
-import { VenueMetrics, PulseData } from './types'
+import { VenueMetrics } from './types'
+import {
+  DEFAULT_SCORING_PROFILE,
+  ScoringProfile,
+  scoreFromSteps
+} from './profiles'
 
 export class PulseCalculator {
   
-  /**
-   * Calculate pulse from venue metrics (Spree venues)
-   */
-  calculateFromMetrics(metrics: VenueMetrics): Pick<PulseData, 'value'> {
-    let pulse = 5.0 // Base
-    
-    // 1. Activity Score (0-6 points based on check-ins)
-    pulse = this.calculateActivityScore(metrics.activeCheckIns)
-    
-    // 2. Momentum Boost (0-1 point based on trend)
-    const momentumBoost = this.calculateMomentumBoost(metrics.checkInTrend)
-    pulse += momentumBoost
-    
-    // 3. Vibe Boost (0-1 point based on sentiment)
-    const vibeBoost = this.calculateVibeBoost(
-      metrics.recentSentiment,
-      metrics.vibePhotosCount
-    )
-    pulse += vibeBoost
-    
-    // 4. Wait Time Indicator (0-2 points)
-    const waitBoost = this.calculateWaitTimeBoost(metrics.reportedWaitTime)
-    pulse += waitBoost
-    
-    // 5. Apply time modifiers
-    pulse = this.applyTimeModifiers(pulse, metrics.hourOfDay, metrics.dayOfWeek)
-    
-    // 6. Special event boost
-    if (metrics.isSpecialEvent) {
-      pulse *= 1.2
-    }
-    
-    // Ensure bounds
-    const finalPulse = Math.min(10, Math.max(0, pulse))
-    
-    return {
-      value: Math.round(finalPulse * 10) / 10
-    }
-  }
-  
   /**
    * Calculate activity score from check-ins
    */
-  private calculateActivityScore(activeCheckIns: number): number {
-    if (activeCheckIns >= 100) return 9.0
-    if (activeCheckIns >= 75) return 8.5
-    if (activeCheckIns >= 50) return 8.0
-    if (activeCheckIns >= 30) return 7.0
-    if (activeCheckIns >= 20) return 6.5
-    if (activeCheckIns >= 15) return 6.0
-    if (activeCheckIns >= 10) return 5.5
-    if (activeCheckIns >= 5) return 5.0
-    if (activeCheckIns >= 2) return 4.5
-    if (activeCheckIns > 0) return 4.0
-    return 3.0
+  calculateActivityScore(activeCheckIns: number, profile: ScoringProfile): number {
+    return scoreFromSteps(profile.activityThresholds, activeCheckIns)
   }
   
   /**
    * Calculate momentum boost from trend
    */
-  private calculateMomentumBoost(trend: VenueMetrics['checkInTrend']): number {
+  calculateMomentumBoost(trend: VenueMetrics['checkInTrend']): number {
     switch (trend) {
       case 'surging': return 1.0
       case 'increasing': return 0.5
@@ -75,71 +30,29 @@ export class PulseCalculator {
   }
   
   /**
-   * Calculate vibe boost from sentiment and photos
-   */
-  private calculateVibeBoost(sentiment: number, photoCount: number): number {
-    let boost = 0
-    
-    // Sentiment boost (max 0.5)
-    if (sentiment > 0.7) boost += 0.5
-    else if (sentiment > 0.3) boost += 0.3
-    else if (sentiment > 0) boost += 0.1
-    
-    // Photo activity boost (max 0.5)
-    if (photoCount >= 10) boost += 0.5
-    else if (photoCount >= 5) boost += 0.3
-    else if (photoCount >= 2) boost += 0.2
-    else if (photoCount > 0) boost += 0.1
-    
-    return Math.min(1.0, boost)
-  }
-  
-  /**
-   * Calculate wait time boost
+   * Apply time-based modifiers
+   * 
+   * `hour` is venue local time, `dayOfWeek` is the nightlife day
+   * (after-midnight hours belong to the previous night).
    */
-  private calculateWaitTimeBoost(waitTime: number | null): number {
-    if (!waitTime) return 0
-    
-    if (waitTime >= 45) return 2.0
-    if (waitTime >= 30) return 1.5
-    if (waitTime >= 20) return 1.0
-    if (waitTime >= 10) return 0.7
-    if (waitTime >= 5) return 0.5
-    return 0
+  applyTimeModifiers(
+    basePulse: number,
+    hour: number,
+    dayOfWeek: number,
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+  ): number {
+    return basePulse * this.getTimeModifier(hour, dayOfWeek, profile)
   }
   
   /**
-   * Apply time-based modifiers
+   * Get the profile's time modifier for an hour (first matching rule)
    */
-  applyTimeModifiers(basePulse: number, hour: number, dayOfWeek: number): number {
-    let modifier = 1.0
-    
-    // Weekend nights (Thu-Sat 10pm-2am)
-    if ((dayOfWeek >= 4 || dayOfWeek === 0) && (hour >= 22 || hour <= 2)) {
-      modifier = 1.15
-    }
-    // Regular evenings (8pm-12am)
-    else if (hour >= 20 || hour <= 0) {
-      modifier = 1.1
-    }
-    // Happy hour (5-7pm weekdays)
-    else if (dayOfWeek >= 1 && dayOfWeek <= 5 && hour >= 17 && hour <= 19) {
-      modifier = 1.05
-    }
-    // Late night weekdays (less activity expected)
-    else if (dayOfWeek >= 1 && dayOfWeek <= 3 && (hour >= 23 || hour <= 1)) {
-      modifier = 0.9
-    }
-    // Daytime (significant penalty)
-    else if (hour >= 6 && hour < 17) {
-      modifier = 0.7
-    }
-    // Very early morning
-    else if (hour >= 3 && hour < 6) {
-      modifier = 0.5
-    }
+  getTimeModifier(hour: number, dayOfWeek: number, profile: ScoringProfile): number {
+    const rule = profile.timeModifiers.find(r =>
+      r.hours.includes(hour) && (!r.days || r.days.includes(dayOfWeek))
+    )
     
-    return basePulse * modifier
+    return rule ? rule.modifier : 1.0
   }
   
   /**
@@ -1,13 +1,51 @@
 // lib/pulse/community.ts
 
-import { supabase } from '@/lib/supabase'
 import { 
   QuickVibeReport, 
   AnonymousPing, 
-  CommunityConsensus 
+  ClientLocation,
+  CommunityConsensus,
+  PulseUpdateTrigger
 } from '@/lib/pulse/types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { PulseUpdateQueue } from './queue'
+import { ReporterReputationService, trustWeight } from './reputation'
+import { CommunityReportScreener, submissionKey } from './screening'
+import { LocationCheck, locationWeight, verifyLocation } from './geofence'
+
+export interface CommunityOptions {
+  halfLifeMinutes: number    // A report this old counts half
+}
+
+export const DEFAULT_COMMUNITY_OPTIONS: CommunityOptions = {
+  halfLifeMinutes: 20
+}
+
+function assertHalfLife(minutes: number) {
+  if (!(minutes > 0 && Number.isFinite(minutes))) {
+    throw new Error('Half-life must be a positive number of minutes')
+  }
+}
 
 export class CommunityDataService {
+  private repository: PulseRepository
+  private updateQueue: PulseUpdateQueue
+  private reputation: ReporterReputationService
+  private screener: CommunityReportScreener
+  private options: CommunityOptions
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    updateQueue: PulseUpdateQueue = new PulseUpdateQueue(repository),
+    options: Partial<CommunityOptions> = {}
+  ) {
+    this.repository = repository
+    this.updateQueue = updateQueue
+    this.reputation = new ReporterReputationService(repository)
+    this.screener = new CommunityReportScreener(repository)
+    this.options = { ...DEFAULT_COMMUNITY_OPTIONS, ...options }
+    assertHalfLife(this.options.halfLifeMinutes)
+  }
   
   /**
    * Submit a vibe report from a user
@@ -16,33 +54,35 @@ export class CommunityDataService {
     // Check rate limiting (1 per venue per hour)
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000)
     
-    const { data: existing } = await supabase
-      .from('community_vibe_reports')
-      .select('id')
-      .eq('venue_id', report.venue_id)
-      .eq('user_id', report.user_id)
-      .gte('created_at', oneHourAgo.toISOString())
-      .single()
+    const existing = await this.repository.hasRecentVibeReport(
+      report.venue_id,
+      report.user_id,
+      oneHourAgo
+    )
     
     if (existing) {
       throw new Error('You already reported this venue recently')
     }
     
-    // Submit report
-    const { error } = await supabase
-      .from('community_vibe_reports')
-      .insert({
-        ...report,
-        created_at: new Date().toISOString()
-      })
+    const { location, ...fields } = report
+    const check = await this.checkLocation(report.venue_id, location)
     
-    if (error) throw error
+    // Submit report
+    await this.repository.insertVibeReport({
+      ...fields,
+      created_at: new Date().toISOString(),
+      location_status: check.status,
+      distance_meters: check.distanceMeters,
+      location_accuracy: check.accuracy
+    })
     
     // Award points
     await this.awardPoints(report.user_id, 5, 'vibe_report')
     
+    await this.screenReports(report.venue_id)
+    
     // Trigger pulse update
-    await this.queuePulseUpdate(report.venue_id)
+    await this.queuePulseUpdate(report.venue_id, 'vibe_report')
   }
   
   /**
@@ -52,50 +92,72 @@ export class CommunityDataService {
     // Rate limit: 1 per hour per device
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000)
     
-    const { data: existing } = await supabase
-      .from('anonymous_pings')
-      .select('id')
-      .eq('venue_id', ping.venue_id)
-      .eq('device_id', ping.device_id)
-      .gte('created_at', oneHourAgo.toISOString())
-      .single()
+    const existing = await this.repository.hasRecentPing(
+      ping.venue_id,
+      ping.device_id,
+      oneHourAgo
+    )
     
     if (existing) return // Silently ignore
     
-    await supabase
-      .from('anonymous_pings')
-      .insert({
-        ...ping,
-        created_at: new Date().toISOString()
-      })
+    const { location, ...fields } = ping
+    const check = await this.checkLocation(ping.venue_id, location)
+    
+    await this.repository.insertPing({
+      ...fields,
+      created_at: new Date().toISOString(),
+      location_status: check.status,
+      distance_meters: check.distanceMeters,
+      location_accuracy: check.accuracy
+    })
+    
+    await this.screenReports(ping.venue_id)
+    
+    await this.queuePulseUpdate(ping.venue_id, 'anonymous_ping')
   }
   
   /**
    * Get community consensus for a venue
+   *
+   * `halfLifeOverride` replaces the configured half-life for this call.
    */
-  async getConsensus(venueId: number, minutesBack: number = 60): Promise<CommunityConsensus> {
-    const since = new Date(Date.now() - minutesBack * 60 * 1000)
+  async getConsensus(
+    venueId: number,
+    minutesBack: number = 60,
+    halfLifeOverride?: number
+  ): Promise<CommunityConsensus> {
+    if (halfLifeOverride !== undefined) assertHalfLife(halfLifeOverride)
+    const halfLifeMinutes = halfLifeOverride ?? this.options.halfLifeMinutes
+    
+    const now = Date.now()
+    const since = new Date(now - minutesBack * 60 * 1000)
     
-    // Get vibe reports
-    const { data: vibeReports } = await supabase
-      .from('community_vibe_reports')
-      .select('vibe_level, wait_time_minutes, crowd_estimate')
-      .eq('venue_id', venueId)
-      .gte('created_at', since.toISOString())
+    // Exponential decay: newer reports count more
+    const weightOf = (createdAt: string) => {
+      const ageMinutes = Math.max(0, (now - new Date(createdAt).getTime()) / 60000)
+      return Math.pow(0.5, ageMinutes / halfLifeMinutes)
+    }
     
-    // Get anonymous pings
-    const { data: pings } = await supabase
-      .from('anonymous_pings')
-      .select('device_id')
-      .eq('venue_id', venueId)
-      .gte('created_at', since.toISOString())
+    const [allVibeReports, allPings, socialSignals, excluded] = await Promise.all([
+      this.repository.getVibeReports(venueId, since),
+      this.repository.getPings(venueId, since),
+      this.repository.getSocialSignals(venueId, since),
+      this.screener.getExcludedKeys(venueId, since)
+    ])
     
-    // Get social signals
-    const { data: socialSignals } = await supabase
-      .from('social_signals')
-      .select('signal_type')
-      .eq('venue_id', venueId)
-      .gte('created_at', since.toISOString())
+    // Quarantined reports don't count until a reviewer approves them
+    const vibeReports = allVibeReports.filter(r =>
+      !r.id || !excluded.has(submissionKey('vibe_report', r.id))
+    )
+    const pings = allPings.filter(p =>
+      !p.id || !excluded.has(submissionKey('anonymous_ping', p.id))
+    )
+    
+    // Proven reporters count more, low-trust ones less
+    const [userTrust, deviceTrust] = await Promise.all([
+      this.reputation.getTrust('user', vibeReports.map(r => r.user_id)),
+      this.reputation.getTrust('device', pings.map(p => p.device_id))
+    ])
     
     // Aggregate vibe data
     const vibeScores: Record<string, number> = {
@@ -105,111 +167,138 @@ export class CommunityDataService {
       packed: 0
     }
     
+    const weightedVibeScores: Record<string, number> = { ...vibeScores }
+    
     let totalWaitTime = 0
     let waitTimeReports = 0
+    let weightedWaitTime = 0
+    let waitTimeWeight = 0
+    let weightedCrowdEstimate = 0
+    let crowdEstimateWeight = 0
+    let crowdEstimateReports = 0
+    let vibeReportWeight = 0
     
-    vibeReports?.forEach(report => {
+    vibeReports.forEach(report => {
+      const weight = weightOf(report.created_at) *
+        trustWeight(userTrust.get(report.user_id)!) *
+        locationWeight(report.location_status)
+      vibeReportWeight += weight
+      
       if (report.vibe_level) {
         vibeScores[report.vibe_level]++
+        weightedVibeScores[report.vibe_level] += weight
       }
       if (report.wait_time_minutes) {
         totalWaitTime += report.wait_time_minutes
         waitTimeReports++
+        weightedWaitTime += report.wait_time_minutes * weight
+        waitTimeWeight += weight
+      }
+      if (report.crowd_estimate) {
+        weightedCrowdEstimate += parseInt(report.crowd_estimate, 10) * weight // '75%' -> 75
+        crowdEstimateWeight += weight
+        crowdEstimateReports++
       }
     })
     
-    // Find consensus vibe
+    // Find consensus vibe from weighted votes
     const totalVibeReports = Object.values(vibeScores).reduce((a, b) => a + b, 0)
+    const totalVibeWeight = Object.values(weightedVibeScores).reduce((a, b) => a + b, 0)
     let consensusVibe: string | null = null
     let maxVotes = 0
     
-    Object.entries(vibeScores).forEach(([vibe, count]) => {
-      if (count > maxVotes && count >= totalVibeReports * 0.3) { // Need 30% agreement
-        maxVotes = count
+    Object.entries(weightedVibeScores).forEach(([vibe, votes]) => {
+      if (votes > maxVotes && votes >= totalVibeWeight * 0.3) { // Need 30% agreement
+        maxVotes = votes
         consensusVibe = vibe
       }
     })
     
     // Count unique devices
-    const uniqueDevices = new Set(pings?.map(p => p.device_id) || []).size
+    const uniqueDevices = new Set(pings.map(p => p.device_id)).size
+    
+    const pingWeight = pings.reduce(
+      (sum, p) => sum +
+        weightOf(p.created_at) *
+        trustWeight(deviceTrust.get(p.device_id)!) *
+        locationWeight(p.location_status),
+      0
+    )
+    const socialWeight = socialSignals.reduce((sum, s) => sum + weightOf(s.created_at), 0)
     
     return {
       vibeReports: totalVibeReports,
       consensusVibe,
       vibeScores,
+      weightedVibeScores,
       averageWaitTime: waitTimeReports > 0 ? totalWaitTime / waitTimeReports : null,
-      anonymousPings: pings?.length || 0,
+      weightedAverageWaitTime: waitTimeWeight > 0 ? weightedWaitTime / waitTimeWeight : null,
+      averageCrowdEstimate: crowdEstimateWeight > 0 ? weightedCrowdEstimate / crowdEstimateWeight : null,
+      crowdEstimateReports,
+      anonymousPings: pings.length,
       uniqueDevices,
-      socialSignals: socialSignals?.length || 0,
-      dataPoints: totalVibeReports + (pings?.length || 0) + (socialSignals?.length || 0)
+      socialSignals: socialSignals.length,
+      dataPoints: totalVibeReports + pings.length + socialSignals.length,
+      effectiveDataPoints: vibeReportWeight + pingWeight + socialWeight,
+      weightedPings: pingWeight,
+      weightedSocialSignals: socialWeight,
+      quarantinedReports: allVibeReports.length - vibeReports.length + allPings.length - pings.length,
+      verifiedReports: [...vibeReports, ...pings].filter(r => r.location_status === 'verified').length
     }
   }
   
   /**
-   * Calculate how much community data should influence pulse
+   * Award points for community contribution
    */
-  calculateInfluence(consensus: CommunityConsensus): {
-    influence: number // 0-1 weight
-    adjustment: number // -2 to +2 pulse adjustment
-  } {
-    // Not enough data
-    if (consensus.dataPoints < 3) {
-      return { influence: 0, adjustment: 0 }
-    }
-    
-    // Calculate influence based on data quantity and recency
-    let influence = Math.min(0.4, consensus.dataPoints / 20) // Max 40% influence
-    
-    // If we have strong consensus, increase influence
-    if (consensus.consensusVibe && consensus.vibeReports >= 5) {
-      influence = Math.min(0.6, influence + 0.2)
+  private async awardPoints(userId: string, points: number, reason: string) {
+    await this.repository.insertUserPoints({
+      user_id: userId,
+      points,
+      source_type: 'community',
+      timestamp: new Date().toISOString()
+    })
+  }
+  
+  /**
+   * Verify the device was at the venue; far-away submissions are refused
+   */
+  private async checkLocation(venueId: number, location?: ClientLocation): Promise<LocationCheck> {
+    const venue = await this.repository.getVenue(venueId)
+    if (!venue) {
+      throw new Error(`Venue ${venueId} not found`)
     }
     
-    // Calculate adjustment based on vibe
-    let adjustment = 0
-    
-    if (consensus.consensusVibe === 'packed') adjustment = 2
-    else if (consensus.consensusVibe === 'busy') adjustment = 1
-    else if (consensus.consensusVibe === 'chill') adjustment = 0
-    else if (consensus.consensusVibe === 'dead') adjustment = -2
-    
-    // Wait time adjustment
-    if (consensus.averageWaitTime) {
-      if (consensus.averageWaitTime >= 30) adjustment += 1
-      else if (consensus.averageWaitTime >= 15) adjustment += 0.5
+    const check = verifyLocation(venue, location)
+    if (check.status === 'rejected') {
+      const km = Math.round(check.distanceMeters! / 100) / 10
+      throw new Error(`You need to be at ${venue.name} to report on it (you're about ${km} km away)`)
     }
     
-    // Activity signals
-    if (consensus.uniqueDevices >= 20) adjustment += 0.5
-    if (consensus.socialSignals >= 5) adjustment += 0.3
-    
-    // Cap adjustment
-    adjustment = Math.max(-2, Math.min(2, adjustment))
-    
-    return { influence, adjustment }
+    return check
   }
   
   /**
-   * Award points for community contribution
+   * Run spam/brigading checks over the venue's recent reports
    */
-  private async awardPoints(userId: string, points: number, reason: string) {
-    await supabase
-      .from('user_points')
-      .insert({
-        user_id: userId,
-        points,
-        source_type: 'community',
-        timestamp: new Date().toISOString()
-      })
+  private async screenReports(venueId: number) {
+    try {
+      await this.screener.screen(venueId)
+    } catch (error) {
+      // Screening runs again with the next submission
+      console.error(`Failed to screen community reports for venue ${venueId}:`, error)
+    }
   }
   
   /**
    * Queue venue for pulse update
    */
-  private async queuePulseUpdate(venueId: number) {
-    // You could implement a queue system here
-    // For now, we'll just log it
-    console.log(`Venue ${venueId} queued for pulse update`)
+  private async queuePulseUpdate(venueId: number, trigger: PulseUpdateTrigger) {
+    try {
+      await this.updateQueue.enqueue(venueId, trigger)
+    } catch (error) {
+      // The report is saved; the next batch run will pick it up
+      console.error(`Failed to queue pulse update for venue ${venueId}:`, error)
+    }
   }
 }
 
@@ -0,0 +1,297 @@
+// lib/pulse/dwell.ts
+
+import { CheckInRecord, DwellModelRecord, DwellModelScope, VenueRecord } from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+
+const MINUTE_MS = 60 * 1000
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS
+
+// Open check-ins older than this count as gone; the metrics read goes back this far
+export const DWELL_LOOKBACK_MS = 6 * 60 * MINUTE_MS
+
+export interface DwellOptions {
+  learnWeeks: number
+  minSamples: number         // Fewer completed check-ins: no model at that scope
+  priorSamples: number       // Pseudo-samples pulling a venue toward its type, a type toward global
+  maxDwellMinutes: number    // Longer stays are forgotten check-outs, not learned from
+  staleProbability: number   // Auto check-out below this chance of still being there
+  minCheckOutAgeMinutes: number
+  cacheTtlMs: number
+}
+
+export const DEFAULT_DWELL_OPTIONS: DwellOptions = {
+  learnWeeks: 8,
+  minSamples: 5,
+  priorSamples: 20,
+  maxDwellMinutes: 8 * 60,
+  staleProbability: 0.05,
+  minCheckOutAgeMinutes: 30,
+  cacheTtlMs: 10 * 60 * 1000
+}
+
+export interface DwellModel {
+  logMean: number            // Log-normal over minutes stayed
+  logStd: number
+  samples: number
+  scope: DwellModelScope | 'default'
+}
+
+// Until anything is learned: median stay of 90 minutes
+export const DEFAULT_DWELL_MODEL: DwellModel = {
+  logMean: Math.log(90),
+  logStd: 0.6,
+  samples: 0,
+  scope: 'default'
+}
+
+/**
+ * Log-normal fit of stay lengths in minutes
+ */
+export function fitDwellModel(minutes: number[]): { logMean: number, logStd: number, samples: number } {
+  const logs = minutes.filter(m => m > 0).map(m => Math.log(m))
+  if (logs.length === 0) {
+    return { logMean: DEFAULT_DWELL_MODEL.logMean, logStd: DEFAULT_DWELL_MODEL.logStd, samples: 0 }
+  }
+  
+  const mean = logs.reduce((a, b) => a + b, 0) / logs.length
+  const variance = logs.reduce((sum, v) => sum + (v - mean) ** 2, 0) / logs.length
+  return { logMean: mean, logStd: Math.max(0.2, Math.sqrt(variance)), samples: logs.length }
+}
+
+/**
+ * Chance someone who checked in `minutes` ago is still there
+ */
+export function dwellSurvival(model: Pick<DwellModel, 'logMean' | 'logStd'>, minutes: number): number {
+  if (minutes <= 0) return 1
+  return 1 - normalCdf((Math.log(minutes) - model.logMean) / model.logStd)
+}
+
+/**
+ * Expected headcount of open check-ins: each counts by its chance of still being there
+ */
+export function expectedActiveCheckIns(
+  checkIns: Pick<CheckInRecord, 'created_at' | 'checked_out_at'>[],
+  model: Pick<DwellModel, 'logMean' | 'logStd'>,
+  now: Date = new Date()
+): number {
+  const expected = checkIns
+    .filter(c => !c.checked_out_at)
+    .map(c => (now.getTime() - new Date(c.created_at).getTime()) / MINUTE_MS)
+    .filter(minutes => minutes * MINUTE_MS <= DWELL_LOOKBACK_MS)
+    .reduce((sum, minutes) => sum + dwellSurvival(model, minutes), 0)
+  
+  return Math.round(expected * 10) / 10
+}
+
+// Abramowitz & Stegun 7.1.26, good to ~1e-7
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * How long people stay, learned from check-ins that were checked out
+ */
+export class DwellTimeService {
+  private repository: PulseRepository
+  private options: DwellOptions
+  private cache: { models: Map<string, DwellModelRecord>, loadedAt: number } | null = null
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    options: Partial<DwellOptions> = {}
+  ) {
+    this.repository = repository
+    this.options = { ...DEFAULT_DWELL_OPTIONS, ...options }
+  }
+  
+  /**
+   * Venue model shrunk toward its venue type, and the type toward global
+   */
+  async getModel(venue: Pick<VenueRecord, 'id' | 'venue_type'>): Promise<DwellModel> {
+    const models = await this.getStoredModels()
+    const global = models.get('global:all')
+    const type = venue.venue_type ? models.get(`venue_type:${venue.venue_type}`) : undefined
+    const own = models.get(`venue:${venue.id}`)
+    
+    let model = global ? this.toModel(global) : DEFAULT_DWELL_MODEL
+    if (type) model = this.shrink(this.toModel(type), model)
+    if (own) model = this.shrink(this.toModel(own), model)
+    return model
+  }
+  
+  /**
+   * Probabilistic active count for a venue's recent check-ins
+   */
+  async estimateActive(
+    venue: Pick<VenueRecord, 'id' | 'venue_type'>,
+    checkIns: CheckInRecord[],
+    now: Date = new Date()
+  ): Promise<number> {
+    return expectedActiveCheckIns(checkIns, await this.getModel(venue), now)
+  }
+  
+  /**
+   * Refit every venue, venue type and the global model. Run once per night.
+   */
+  async learnAll(now: Date = new Date()): Promise<{
+    venues: number
+    venueTypes: number
+    samples: number
+  }> {
+    const venues = await this.repository.getActiveVenues()
+    const since = new Date(now.getTime() - this.options.learnWeeks * WEEK_MS)
+    const checkIns = await this.repository.getCompletedCheckInsForVenues(venues.map(v => v.id), since)
+    
+    const typeOf = new Map(venues.map(v => [v.id, v.venue_type ?? null]))
+    const byVenue = new Map<string, number[]>()
+    const byType = new Map<string, number[]>()
+    const all: number[] = []
+    
+    checkIns.forEach(checkIn => {
+      const minutes = (new Date(checkIn.checked_out_at!).getTime() - new Date(checkIn.created_at).getTime()) / MINUTE_MS
+      if (minutes < 1 || minutes > this.options.maxDwellMinutes) return
+      
+      all.push(minutes)
+      push(byVenue, String(checkIn.venue_id), minutes)
+      const type = typeOf.get(checkIn.venue_id)
+      if (type) push(byType, type, minutes)
+    })
+    
+    const updatedAt = now.toISOString()
+    const records: DwellModelRecord[] = []
+    const add = (scope: DwellModelScope, key: string, minutes: number[]) => {
+      if (minutes.length < this.options.minSamples) return
+      const fit = fitDwellModel(minutes)
+      records.push({
+        scope,
+        scope_key: key,
+        log_mean: Math.round(fit.logMean * 1000) / 1000,
+        log_std: Math.round(fit.logStd * 1000) / 1000,
+        samples: fit.samples,
+        updated_at: updatedAt
+      })
+    }
+    
+    add('global', 'all', all)
+    byType.forEach((minutes, type) => add('venue_type', type, minutes))
+    byVenue.forEach((minutes, venueId) => add('venue', venueId, minutes))
+    
+    await this.repository.upsertDwellModels(records)
+    this.cache = null
+    
+    return {
+      venues: records.filter(r => r.scope === 'venue').length,
+      venueTypes: records.filter(r => r.scope === 'venue_type').length,
+      samples: all.length
+    }
+  }
+  
+  /**
+   * Close open check-ins that are very likely over, at the model's median stay
+   *
+   * Marked auto_checked_out so they never feed back into learning. Pass
+   * `activeVenues` when the caller already has them to skip reading them again.
+   */
+  async checkOutStale(
+    now: Date = new Date(),
+    limit: number = 500,
+    activeVenues?: Pick<VenueRecord, 'id' | 'venue_type'>[]
+  ): Promise<number> {
+    const createdBefore = new Date(now.getTime() - this.options.minCheckOutAgeMinutes * MINUTE_MS)
+    const open = await this.repository.getOpenCheckIns(createdBefore, limit)
+    if (open.length === 0) return 0
+    
+    const venues = new Map((activeVenues ?? await this.repository.getActiveVenues()).map(v => [v.id, v]))
+    const stale: Array<{ id: number, checked_out_at: string }> = []
+    
+    for (const checkIn of open) {
+      const model = await this.getModel(venues.get(checkIn.venue_id) ?? { id: checkIn.venue_id, venue_type: undefined })
+      const createdAt = new Date(checkIn.created_at).getTime()
+      const minutes = (now.getTime() - createdAt) / MINUTE_MS
+      if (dwellSurvival(model, minutes) >= this.options.staleProbability) continue
+      
+      const medianStay = Math.exp(model.logMean) * MINUTE_MS
+      stale.push({
+        id: checkIn.id,
+        checked_out_at: new Date(Math.min(now.getTime(), createdAt + medianStay)).toISOString()
+      })
+    }
+    
+    if (stale.length > 0) {
+      await this.repository.autoCheckOut(stale)
+    }
+    return stale.length
+  }
+  
+  private async getStoredModels(): Promise<Map<string, DwellModelRecord>> {
+    if (this.cache && Date.now() - this.cache.loadedAt < this.options.cacheTtlMs) {
+      return this.cache.models
+    }
+    
+    const records = await this.repository.getDwellModels()
+    const models = new Map(records.map(r => [`${r.scope}:${r.scope_key}`, r]))
+    this.cache = { models, loadedAt: Date.now() }
+    return models
+  }
+  
+  private toModel(record: DwellModelRecord): DwellModel {
+    return {
+      logMean: record.log_mean,
+      logStd: record.log_std,
+      samples: record.samples,
+      scope: record.scope
+    }
+  }
+  
+  private shrink(child: DwellModel, parent: DwellModel): DwellModel {
+    const weight = child.samples / (child.samples + this.options.priorSamples)
+    return {
+      logMean: weight * child.logMean + (1 - weight) * parent.logMean,
+      logStd: weight * child.logStd + (1 - weight) * parent.logStd,
+      samples: child.samples,
+      scope: child.scope
+    }
+  }
+}
+
+function push(map: Map<string, number[]>, key: string, value: number) {
+  const list = map.get(key) ?? []
+  list.push(value)
+  map.set(key, list)
+}
+
+// Database tables needed:
+export const DWELL_TIME_SQL = `
+ALTER TABLE checkins
+ADD COLUMN IF NOT EXISTS auto_checked_out BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_checkins_open ON checkins(created_at) WHERE checked_out_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS venue_dwell_models (
+  scope TEXT NOT NULL CHECK (scope IN ('venue', 'venue_type', 'global')),
+  scope_key TEXT NOT NULL,                          -- Venue id, venue type, or 'all'
+  log_mean DECIMAL(6,3) NOT NULL,
+  log_std DECIMAL(6,3) NOT NULL,
+  samples INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (scope, scope_key)
+);
+
+-- Used by autoCheckOut: each row gets its own estimated leave time; the null guard skips users who checked out meanwhile
+CREATE OR REPLACE FUNCTION auto_check_out(p_check_ins JSONB)
+RETURNS void AS $$
+  UPDATE checkins c SET
+    checked_out_at = r.checked_out_at,
+    auto_checked_out = true
+  FROM jsonb_to_recordset(p_check_ins) AS r(
+    id BIGINT,
+    checked_out_at TIMESTAMP
+  )
+  WHERE c.id = r.id
+    AND c.checked_out_at IS NULL;
+$$ LANGUAGE sql;
+`
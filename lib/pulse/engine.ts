@@ -1,31 +1,87 @@
 // lib/pulse/engine.ts
 
-import { supabase } from '@/lib/supabase'
 import { 
+  BusynessReading,
+  PulseChangeEvent,
   PulseData, 
   VenueDataSource, 
+  VenueHours,
   VenueMetrics,
   VenueRecord 
 } from './types'
 import { PulseCalculator } from './calculations'
 import { CommunityDataService } from './community'
+import { BusynessProvider, createDefaultBusynessChain } from './services/busyness-provider'
 import { GoogleBusynessService } from './services/google-service'
+import { getVenueLocalTime } from './time'
+import { getScoringProfile } from './profiles'
+import { OccupancyEstimator } from './occupancy'
+import { PulseTrace } from './trace'
+import { VenueBaselineService } from './baseline'
+import { PulseRepository, PulseSnapshotRepository, SupabasePulseRepository } from './repository'
+import { BusynessRefreshScheduler } from './scheduler'
+import { PopularTimesService } from './popular-times'
+import { PulseSmoother } from './smoothing'
+import { OpeningHoursService } from './hours'
+import { PulseEventService } from './events'
+import { AlertReading, PulseAlertService } from './alerts'
+import { DWELL_LOOKBACK_MS, DwellTimeService } from './dwell'
+import {
+  PulseFusion,
+  PulseObservation,
+  busynessObservation,
+  checkInObservation,
+  communityObservation,
+  dominantDataSource,
+  occupancyObservation,
+  presenceObservation,
+  ratingsObservation,
+  typicalBusynessObservation,
+  waitTimeObservation
+} from './fusion'
 
 export class PulseEngine {
+  private repository: PulseRepository
   private calculator: PulseCalculator
   private communityService: CommunityDataService
-  private googleService: GoogleBusynessService
+  private busynessProvider: BusynessProvider
+  private popularTimes: PopularTimesService
+  private occupancyEstimator: OccupancyEstimator
+  private baselineService: VenueBaselineService
+  private fusion: PulseFusion
+  private smoother: PulseSmoother
+  private hoursService: OpeningHoursService
+  private dwell: DwellTimeService
   
-  constructor() {
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    busynessProvider: BusynessProvider = createDefaultBusynessChain(repository),
+    scheduler: BusynessRefreshScheduler = new BusynessRefreshScheduler(repository)
+  ) {
+    this.repository = repository
     this.calculator = new PulseCalculator()
-    this.communityService = new CommunityDataService()
-    this.googleService = new GoogleBusynessService()
+    this.occupancyEstimator = new OccupancyEstimator()
+    this.baselineService = new VenueBaselineService(repository)
+    this.communityService = new CommunityDataService(repository)
+    this.busynessProvider = busynessProvider
+    this.popularTimes = new PopularTimesService(repository, new GoogleBusynessService(repository), scheduler)
+    this.fusion = new PulseFusion()
+    this.smoother = new PulseSmoother(repository)
+    this.hoursService = new OpeningHoursService(repository)
+    this.dwell = new DwellTimeService(repository)
   }
   
   /**
    * Calculate pulse for a single venue
+   * 
+   * Falls back to a default estimate on errors unless `fallbackOnError` is false.
    */
-  async calculatePulse(venueId: number): Promise<PulseData> {
+  async calculatePulse(
+    venueId: number,
+    options: { fallbackOnError?: boolean } = {}
+  ): Promise<PulseData> {
+    const { fallbackOnError = true } = options
+    
     try {
       // Get venue info
       const venue = await this.getVenue(venueId)
@@ -33,133 +89,224 @@ export class PulseEngine {
         throw new Error(`Venue ${venueId} not found`)
       }
       
-      // Route to appropriate calculation method
-      if (venue.spree_onboarded) {
-        return await this.calculateSpreePulse(venue)
-      } else {
-        return await this.calculateNonPartnerPulse(venue)
+      // Closed venues read as closed, not as a made-up quiet night
+      const hours = await this.getHours(venue)
+      if (hours.status === 'closed') {
+        return this.getClosedPulse(hours)
       }
       
+      const pulse = await this.calculateFusedPulse(venue)
+      pulse.openStatus = hours.status
+      pulse.opensAt = hours.opensAt
+      pulse.closesAt = hours.closesAt
+      return pulse
+      
     } catch (error) {
       console.error(`Error calculating pulse for venue ${venueId}:`, error)
+      if (!fallbackOnError) throw error
       return this.getDefaultPulse()
     }
   }
   
   /**
-   * Calculate pulse for Spree partner venues
+   * Fuse every available source for a venue into one pulse
+   * 
+   * Partners add check-ins, wait times and ratings; everyone gets community
+   * reports and foot traffic. Each is an observation with its own variance.
    */
-  private async calculateSpreePulse(venue: VenueRecord): Promise<PulseData> {
-    // Get all our metrics
-    const metrics = await this.getVenueMetrics(venue.id)
+  private async calculateFusedPulse(venue: VenueRecord): Promise<PulseData> {
+    const now = new Date()
+    const profile = getScoringProfile(venue.venue_type)
+    const observations: PulseObservation[] = []
+    
+    const [metrics, busyness, communityData] = await Promise.all([
+      venue.spree_onboarded ? this.getVenueMetrics(venue) : Promise.resolve(undefined),
+      this.getBusyness(venue),
+      this.communityService.getConsensus(venue.id)
+    ])
+    
+    // Our own data (partners only)
+    if (metrics) {
+      observations.push(checkInObservation(metrics, profile, this.calculator, this.occupancyEstimator, venue.capacity))
+      const waitTime = waitTimeObservation(metrics, profile)
+      if (waitTime) observations.push(waitTime)
+      const ratings = ratingsObservation(metrics)
+      if (ratings) observations.push(ratings)
+    }
+    
+    // Community reports, pings and crowd estimates
+    const community = communityObservation(communityData)
+    if (community) observations.push(community)
+    const presence = presenceObservation(communityData, profile)
+    if (presence) observations.push(presence)
+    
+    // Crowd estimates only: check-ins already count against capacity through
+    // checkInObservation, and fusion assumes its observations are independent
+    const occupancy = this.occupancyEstimator.estimate({
+      capacity: venue.capacity,
+      crowdEstimate: communityData.averageCrowdEstimate,
+      crowdEstimateReports: communityData.crowdEstimateReports
+    })
+    if (occupancy) observations.push(occupancyObservation(occupancy, this.occupancyEstimator))
+    
+    // Live foot traffic, else Google's typical level for this hour
+    const live = busyness ? busynessObservation(busyness, this.calculator, now) : null
+    let typicalBusyness: number | null = null
+    if (live) {
+      observations.push(live)
+    } else {
+      typicalBusyness = await this.getTypicalBusyness(venue)
+      const typical = typicalBusyness !== null
+        ? typicalBusynessObservation(typicalBusyness, this.calculator)
+        : null
+      if (typical) observations.push(typical)
+    }
+    
+    // Prior: an average night at this hour, lifted for events
+    const localTime = getVenueLocalTime(venue, now)
+    const timeModifier = this.calculator.getTimeModifier(
+      localTime.hour,
+      localTime.nightlifeDayOfWeek,
+      profile
+    )
+    const eventMultiplier = metrics?.isSpecialEvent ? 1.2 : 1.0
+    
+    const trace = new PulseTrace()
+    const fused = this.fusion.fuse(5.0 * timeModifier * eventMultiplier, observations, trace)
+    const raw = trace.clamp()
+    
+    // Damp drops against the last stored value
+    const smoothed = await this.smoother.smooth(venue.id, raw, fused.confidence, now)
+    if (smoothed.previous !== null) {
+      trace.record(
+        'smoothing',
+        {
+          previous: smoothed.previous,
+          minutesSincePrevious: smoothed.minutesSincePrevious,
+          alpha: smoothed.alpha
+        },
+        smoothed.value
+      )
+    }
     
-    // Calculate pulse using our data
-    const calcResult = this.calculator.calculateFromMetrics(metrics)
     const pulse: PulseData = {
-      value: calcResult.value,
-      confidence: 0.95, // High confidence for our data
-      dataSource: VenueDataSource.SPREE,
-      lastUpdated: new Date(),
+      value: smoothed.value,
+      rawValue: raw,
+      smoothingState: smoothed.state,
+      confidence: fused.confidence,
+      dataSource: dominantDataSource(fused.sources),
+      sources: fused.sources,
+      lastUpdated: now,
       breakdown: {
-        checkIns: metrics.activeCheckIns,
-        waitTime: metrics.reportedWaitTime || undefined,
-        vibeScore: metrics.recentSentiment
-      }
+        checkIns: metrics?.activeCheckIns,
+        waitTime: metrics?.reportedWaitTime ?? undefined,
+        waitTimeAgeMinutes: metrics?.waitTimeAgeMinutes ?? undefined,
+        vibeScore: metrics?.recentSentiment,
+        googleBusy: live ? busyness!.currentBusyness : typicalBusyness ?? undefined,
+        communityReports: communityData.dataPoints,
+        occupancyPercent: occupancy?.percent
+      },
+      trace: trace.toArray(),
+      busynessProvider: live ? busyness!.provider : typicalBusyness ? 'popular_times' : undefined
     }
     
+    // Google's own usual level until we have enough history
+    if (live && !metrics) {
+      pulse.relativeLevel = busyness!.relativeLevel
+      pulse.deviation = Math.round(
+        (busyness!.currentBusyness - busyness!.usualBusyness) /
+        Math.max(10, busyness!.usualBusyness * 0.25) * 100
+      ) / 100
+    }
+    await this.applyBaseline(venue, pulse, metrics?.checkInsLastHour)
+    
     // Log calculation
     await this.logCalculation(venue.id, pulse, metrics)
+    if (busyness) {
+      await this.logGoogleComparison(venue.id, busyness, pulse)
+    }
     
     return pulse
   }
   
   /**
-   * Calculate pulse for non-partner venues
+   * Opening status; unknown (treated as open) if the lookup fails
    */
-  private async calculateNonPartnerPulse(venue: VenueRecord): Promise<PulseData> {
-    let basePulse = 5.0
-    let confidence = 0.5
-    let dataSource = VenueDataSource.ESTIMATED
-    let googleBusy = 0
-    
-    // Step 1: Try Google data
-    if (venue.google_place_id) {
-      try {
-        const googleData = await this.googleService.getBusyness(venue.google_place_id)
-        if (googleData && googleData.currentBusyness > 0) {
-          basePulse = this.calculator.convertGoogleToSpree(googleData.currentBusyness)
-          googleBusy = googleData.currentBusyness
-          confidence = 0.6
-          dataSource = VenueDataSource.GOOGLE
-        }
-      } catch (error) {
-        console.warn(`Google data fetch failed for ${venue.name}`)
-      }
+  private async getHours(venue: VenueRecord): Promise<VenueHours> {
+    try {
+      return await this.hoursService.getHours(venue)
+    } catch (error) {
+      console.warn(`Opening hours lookup failed for ${venue.name}`)
+      return { status: 'unknown', opensAt: null, closesAt: null, label: null }
     }
-    
-    // Step 2: Apply community data
-    const communityData = await this.communityService.getConsensus(venue.id)
-    
-    if (communityData.dataPoints >= 3) {
-      const { influence, adjustment } = this.communityService.calculateInfluence(communityData)
-      
-      if (influence > 0) {
-        // Blend community data with base
-        basePulse = basePulse * (1 - influence) + (basePulse + adjustment) * influence
-        confidence = Math.min(0.8, confidence + influence * 0.3)
-        
-        if (communityData.dataPoints >= 10) {
-          dataSource = VenueDataSource.COMMUNITY
-        }
-      }
+  }
+  
+  /**
+   * Busyness from the first provider in the chain that has it
+   */
+  private async getBusyness(venue: VenueRecord): Promise<BusynessReading | null> {
+    try {
+      return await this.busynessProvider.getBusyness(venue)
+    } catch (error) {
+      console.warn(`Busyness fetch failed for ${venue.name}`)
+      return null
     }
-    
-    // Step 3: Apply time modifiers
-    const now = new Date()
-    basePulse = this.calculator.applyTimeModifiers(basePulse, now.getHours(), now.getDay())
-    
-    // Cap values
-    const finalPulse = Math.min(10, Math.max(0, basePulse))
-    
-    return {
-      value: Math.round(finalPulse * 10) / 10,
-      confidence,
-      dataSource,
-      lastUpdated: new Date(),
-      breakdown: {
-        googleBusy,
-        communityReports: communityData.dataPoints
+  }
+  
+  /**
+   * Typical busyness for this hour from the stored popular-times histogram
+   */
+  private async getTypicalBusyness(venue: VenueRecord): Promise<number | null> {
+    try {
+      return await this.popularTimes.getTypicalBusyness(venue)
+    } catch (error) {
+      console.warn(`Popular times lookup failed for ${venue.name}`)
+      return null
+    }
+  }
+  
+  /**
+   * Attach relative level and deviation from the venue's baseline
+   */
+  private async applyBaseline(venue: VenueRecord, pulse: PulseData, checkInsLastHour?: number) {
+    try {
+      const comparison = await this.baselineService.compare(venue, pulse, { checkInsLastHour })
+      if (comparison) {
+        pulse.relativeLevel = comparison.relativeLevel
+        pulse.deviation = comparison.deviation
+        pulse.usualPulse = comparison.usualPulse ?? undefined
       }
+    } catch (error) {
+      console.warn(`Baseline comparison failed for ${venue.name}:`, error)
     }
   }
   
   /**
    * Get venue metrics for Spree venues
    */
-  private async getVenueMetrics(venueId: number): Promise<VenueMetrics> {
+  private async getVenueMetrics(venue: VenueRecord): Promise<VenueMetrics> {
+    const venueId = venue.id
     const now = new Date()
+    const localTime = getVenueLocalTime(venue, now)
     const thirtyMinAgo = new Date(now.getTime() - 30 * 60 * 1000)
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000)
     const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000)
     
-    // Get check-ins
-    const { data: checkIns } = await supabase
-      .from('checkins')
-      .select('id, created_at, checked_out_at')
-      .eq('venue_id', venueId)
-      .gte('created_at', twoHoursAgo.toISOString())
+    // Get check-ins, far enough back for anyone who might still be there
+    const checkIns = await this.repository.getCheckIns(venueId, new Date(now.getTime() - DWELL_LOOKBACK_MS))
     
-    // Calculate check-in metrics
-    const activeCheckIns = checkIns?.filter(c => !c.checked_out_at).length || 0
-    const checkInsLast30Min = checkIns?.filter(c => 
+    // Calculate check-in metrics; most users never check out, so weigh each
+    // open check-in by the chance they're still there
+    const activeCheckIns = await this.dwell.estimateActive(venue, checkIns, now)
+    const checkInsLast30Min = checkIns.filter(c => 
       new Date(c.created_at) >= thirtyMinAgo
-    ).length || 0
-    const checkInsLastHour = checkIns?.filter(c => 
+    ).length
+    const checkInsLastHour = checkIns.filter(c => 
       new Date(c.created_at) >= oneHourAgo
-    ).length || 0
-    const previousHour = checkIns?.filter(c => 
-      new Date(c.created_at) < oneHourAgo
-    ).length || 0
+    ).length
+    const previousHour = checkIns.filter(c => 
+      new Date(c.created_at) >= twoHoursAgo && new Date(c.created_at) < oneHourAgo
+    ).length
     
     // Determine trend
     let checkInTrend: VenueMetrics['checkInTrend'] = 'stable'
@@ -168,25 +315,14 @@ export class PulseEngine {
     else if (checkInsLastHour < previousHour * 0.8) checkInTrend = 'decreasing'
     
     // Get wait time
-    const { data: statusLog } = await supabase
-      .from('venue_status_logs')
-      .select('line_time_minutes')
-      .eq('venue_id', venueId)
-      .gte('created_at', oneHourAgo.toISOString())
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single()
+    const statusLog = await this.repository.getLatestStatusLog(venueId, oneHourAgo)
     
     // Get vibe data
-    const { data: ratings } = await supabase
-      .from('venue_ratings')
-      .select('vibe_check')
-      .eq('venue_id', venueId)
-      .gte('created_at', oneHourAgo.toISOString())
+    const ratings = await this.repository.getRatings(venueId, oneHourAgo)
     
     // Calculate sentiment
     let recentSentiment = 0
-    if (ratings && ratings.length > 0) {
+    if (ratings.length > 0) {
       const sentimentMap: Record<string, number> = {
         fire: 1,
         good: 0.5,
@@ -199,21 +335,12 @@ export class PulseEngine {
       ) / ratings.length
     }
     
-    // Get vibe photos count
-    const { count: vibePhotosCount } = await supabase
-      .from('vibe_photos')
-      .select('*', { count: 'exact', head: true })
-      .eq('venue_id', venueId)
-      .eq('status', 'approved')
-      .gte('created_at', oneHourAgo.toISOString())
-    
     // Check for events
-    const { data: events } = await supabase
-      .from('events')
-      .select('id')
-      .eq('venue_id', venueId)
-      .gte('starts_at', now.toISOString())
-      .lte('starts_at', new Date(now.getTime() + 4 * 60 * 60 * 1000).toISOString())
+    const events = await this.repository.getEventsStartingBetween(
+      venueId,
+      now,
+      new Date(now.getTime() + 4 * 60 * 60 * 1000)
+    )
     
     return {
       venueId,
@@ -221,13 +348,16 @@ export class PulseEngine {
       checkInsLast30Min,
       checkInsLastHour,
       checkInTrend,
-      reportedWaitTime: statusLog?.line_time_minutes || null,
-      recentRatings: ratings?.length || 0,
+      reportedWaitTime: statusLog?.line_time_minutes ?? null,
+      waitTimeAgeMinutes: statusLog ? minutesSince(statusLog.created_at, now) : null,
+      recentRatings: ratings.length,
       recentSentiment,
-      vibePhotosCount: vibePhotosCount || 0,
-      dayOfWeek: now.getDay(),
-      hourOfDay: now.getHours(),
-      isSpecialEvent: (events?.length || 0) > 0
+      ratingsAgeMinutes: ratings.length > 0
+        ? ratings.reduce((sum, r) => sum + minutesSince(r.created_at, now), 0) / ratings.length
+        : null,
+      dayOfWeek: localTime.nightlifeDayOfWeek,
+      hourOfDay: localTime.hour,
+      isSpecialEvent: events.length > 0
     }
   }
   
@@ -235,13 +365,7 @@ export class PulseEngine {
    * Get venue from database
    */
   private async getVenue(venueId: number): Promise<VenueRecord | null> {
-    const { data } = await supabase
-      .from('venues')
-      .select('*')
-      .eq('id', venueId)
-      .single()
-    
-    return data
+    return this.repository.getVenue(venueId)
   }
   
   /**
@@ -252,69 +376,174 @@ export class PulseEngine {
     pulse: PulseData, 
     metrics?: VenueMetrics
   ) {
-    await supabase
-      .from('pulse_calculations_log')
-      .insert({
+    await this.repository.insertCalculationLog({
+      venue_id: venueId,
+      calculated_pulse: pulse.value,
+      factors: {
+        data_source: pulse.dataSource,
+        confidence: pulse.confidence,
+        raw_pulse: pulse.rawValue,
+        ...pulse.breakdown,
+        ...metrics
+      },
+      trace: pulse.trace
+    })
+  }
+  
+  /**
+   * Log Google's reading next to ours for model training
+   */
+  private async logGoogleComparison(
+    venueId: number,
+    busyness: BusynessReading,
+    pulse: PulseData
+  ) {
+    try {
+      await this.repository.insertGoogleBusynessLog({
         venue_id: venueId,
-        calculated_pulse: pulse.value,
-        factors: {
-          data_source: pulse.dataSource,
-          confidence: pulse.confidence,
-          ...metrics
-        }
+        google_busyness: busyness.currentBusyness,
+        google_usual: busyness.usualBusyness,
+        google_trend: busyness.trend,
+        spree_pulse: pulse.value,
+        provider: busyness.provider,
+        timestamp: new Date().toISOString()
       })
+    } catch (error) {
+      console.warn(`Failed to log Google comparison for venue ${venueId}:`, error)
+    }
+  }
+  
+  /**
+   * Pulse for a venue outside its opening hours
+   */
+  private getClosedPulse(hours: VenueHours): PulseData {
+    const trace = new PulseTrace()
+    trace.record(
+      'closed',
+      { opensAt: hours.opensAt?.toISOString() ?? null, label: hours.label },
+      0
+    )
+    
+    return {
+      value: 0,
+      confidence: 0.9, // As good as the listed hours
+      dataSource: VenueDataSource.ESTIMATED,
+      sources: [],
+      lastUpdated: new Date(),
+      trace: trace.toArray(),
+      openStatus: 'closed',
+      opensAt: hours.opensAt,
+      closesAt: null
+    }
   }
   
   /**
    * Get default pulse when calculation fails
    */
   private getDefaultPulse(): PulseData {
+    const trace = new PulseTrace()
+    trace.record('default_estimate', { reason: 'calculation_failed' }, 5.0)
+    
     return {
       value: 5.0,
       confidence: 0.3,
       dataSource: VenueDataSource.ESTIMATED,
-      lastUpdated: new Date()
+      lastUpdated: new Date(),
+      trace: trace.toArray()
     }
   }
 }
 
+// Buffered bulk writes go out at least this often
+const BULK_FLUSH_SIZE = 200
+
+function minutesSince(timestamp: string, now: Date): number {
+  return Math.max(0, (now.getTime() - new Date(timestamp).getTime()) / 60000)
+}
+
+/**
+ * The default estimate a failed calculation falls back to, not a measurement
+ */
+export function isFallbackPulse(pulse: Pick<PulseData, 'trace'>): boolean {
+  return !!pulse.trace?.some(step => step.step === 'default_estimate')
+}
+
 /**
  * Batch update service
  */
 export class PulseBatchUpdateService {
+  private repository: PulseRepository
   private engine: PulseEngine
+  private scheduler: BusynessRefreshScheduler
+  private busynessProvider: BusynessProvider
+  private dwell: DwellTimeService
+  private events: PulseEventService | null
+  private alerts: PulseAlertService | null
   
-  constructor() {
-    this.engine = new PulseEngine()
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    events: PulseEventService | null = null,
+    alerts: PulseAlertService | null = null
+  ) {
+    this.repository = repository
+    this.events = events
+    this.alerts = alerts
+    this.scheduler = new BusynessRefreshScheduler(repository)
+    this.busynessProvider = createDefaultBusynessChain(repository, {}, this.scheduler)
+    this.engine = new PulseEngine(repository, this.busynessProvider, this.scheduler)
+    this.dwell = new DwellTimeService(repository)
   }
   
   /**
    * Update all active venues
+   * 
+   * `bulk` (default) loads every venue's inputs in a few grouped queries and
+   * writes in bulk; `bulk: false` reads and writes venue by venue.
    */
-  async updateAllVenues(): Promise<{
+  async updateAllVenues(options: { bulk?: boolean } = {}): Promise<{
     total: number
     updated: number
     failed: number
+    closed: number
+    events: number
+    alerts: number
+    autoCheckedOut: number
     hotVenues: Array<{id: number, name: string, pulse: number}>
   }> {
     console.log('🔄 Starting batch pulse update...')
     
     // Get all active venues
-    const { data: venues } = await supabase
-      .from('venues')
-      .select('id, name, spree_onboarded')
-      .eq('is_active', true)
-      .order('spree_onboarded', { ascending: false }) // Partners first
+    const activeVenues = await this.repository.getActiveVenues()
     
-    if (!venues || venues.length === 0) {
+    if (activeVenues.length === 0) {
       console.log('No venues to update')
-      return { total: 0, updated: 0, failed: 0, hotVenues: [] }
+      return { total: 0, updated: 0, failed: 0, closed: 0, events: 0, alerts: 0, autoCheckedOut: 0, hotVenues: [] }
     }
     
-    console.log(`Found ${venues.length} venues to update`)
+    // Same engine either way; only where its reads and writes go differs
+    const now = new Date()
+    const snapshot = options.bulk === false
+      ? null
+      : await PulseSnapshotRepository.load(this.repository, activeVenues, now)
+    const store: PulseRepository = snapshot ?? this.repository
+    const scheduler = snapshot ? new BusynessRefreshScheduler(snapshot) : this.scheduler
+    const engine = snapshot
+      ? new PulseEngine(snapshot, createDefaultBusynessChain(snapshot, {}, scheduler), scheduler)
+      : this.engine
+    
+    // Closed venues are marked once and skipped
+    const { open: openVenues, closed, changes } = await this.partitionByHours(activeVenues, store)
+    
+    // Highest refresh priority first, so the SerpAPI budget goes where it matters
+    const plan = await scheduler.plan(openVenues, now)
+    const rank = new Map(plan.map((p, index) => [p.venueId, index]))
+    const venues = [...openVenues].sort((a, b) => rank.get(a.id)! - rank.get(b.id)!)
+    
+    console.log(`Found ${venues.length} venues to update (${closed} closed)`)
     
     // Process venues in batches
     const results = []
+    const readings: AlertReading[] = []
     const batchSize = 10
     
     for (let i = 0; i < venues.length; i += batchSize) {
@@ -322,28 +551,14 @@ export class PulseBatchUpdateService {
       const batchResults = await Promise.all(
         batch.map(async (venue) => {
           try {
-            const pulse = await this.engine.calculatePulse(venue.id)
+            const pulse = await engine.calculatePulse(venue.id)
+            await this.storePulse(store, venue.id, pulse)
             
-            // Update database
-            await supabase
-              .from('venues')
-              .update({
-                pulse: pulse.value,
-                pulse_confidence: pulse.confidence,
-                pulse_data_source: pulse.dataSource,
-                pulse_updated_at: pulse.lastUpdated
-              })
-              .eq('id', venue.id)
-            
-            // Log to history
-            await supabase
-              .from('pulse_history')
-              .insert({
-                venue_id: venue.id,
-                pulse_value: pulse.value,
-                confidence: pulse.confidence,
-                data_sources: [pulse.dataSource]
-              })
+            // A fallback estimate says nothing about the venue: no events, no alerts
+            if (!isFallbackPulse(pulse)) {
+              if (this.events) changes.push(...this.events.detect(venue, pulse))
+              readings.push({ venue, pulse })
+            }
             
             return {
               success: true,
@@ -367,10 +582,28 @@ export class PulseBatchUpdateService {
       
       results.push(...batchResults)
       
+      if (snapshot && snapshot.pendingWrites >= BULK_FLUSH_SIZE) {
+        await snapshot.flush()
+      }
+      
       // Log progress
       console.log(`Progress: ${Math.min(i + batchSize, venues.length)}/${venues.length}`)
     }
     
+    if (snapshot) {
+      await snapshot.flush()
+    }
+    
+    // Close check-ins the dwell model says are long over, once every buffered pulse is written
+    const autoCheckedOut = await this.dwell.checkOutStale(new Date(), undefined, activeVenues).catch(error => {
+      console.error('Failed to check out stale check-ins:', error)
+      return 0
+    })
+    
+    // Only once the new values are stored
+    await this.publishChanges(changes)
+    const notified = await this.evaluateAlerts(readings)
+    
     // Calculate stats
     const updated = results.filter(r => r.success).length
     const failed = results.filter(r => !r.success).length
@@ -396,29 +629,146 @@ export class PulseBatchUpdateService {
     }
     
     return {
-      total: venues.length,
+      total: activeVenues.length,
       updated,
       failed,
+      closed,
+      events: changes.length,
+      alerts: notified,
+      autoCheckedOut,
       hotVenues
     }
   }
   
+  /**
+   * Write a pulse to the venue and to pulse_history
+   *
+   * Every measured pulse gets a history row, so the next run smooths against
+   * it. Fallback estimates don't: smoothing, baselines and trending would all
+   * read them as the venue's level.
+   */
+  private async storePulse(store: PulseRepository, venueId: number, pulse: PulseData) {
+    await store.updateVenuePulse(venueId, {
+      pulse: pulse.value,
+      pulse_raw: pulse.rawValue,
+      pulse_confidence: pulse.confidence,
+      pulse_data_source: pulse.dataSource,
+      pulse_updated_at: pulse.lastUpdated,
+      pulse_status: pulse.openStatus
+    })
+    if (isFallbackPulse(pulse)) return
+    
+    await store.insertPulseHistory({
+      venue_id: venueId,
+      pulse_value: pulse.value,
+      raw_pulse_value: pulse.rawValue ?? null,
+      smoothing_state: pulse.smoothingState ?? null,
+      confidence: pulse.confidence,
+      data_sources: pulse.sources?.length
+        ? pulse.sources.map(s => s.source)
+        : [pulse.dataSource]
+    })
+  }
+  
+  /**
+   * Split off closed venues, writing a closed pulse for any not already marked
+   */
+  private async partitionByHours(
+    venues: VenueRecord[],
+    store: PulseRepository
+  ): Promise<{ open: VenueRecord[], closed: number, changes: PulseChangeEvent[] }> {
+    const hoursService = new OpeningHoursService(store)
+    const open: VenueRecord[] = []
+    const changes: PulseChangeEvent[] = []
+    let closed = 0
+    const batchSize = 10
+    
+    for (let i = 0; i < venues.length; i += batchSize) {
+      const batch = venues.slice(i, i + batchSize)
+      await Promise.all(batch.map(async (venue) => {
+        let status: VenueHours['status'] = 'unknown'
+        try {
+          status = (await hoursService.getHours(venue)).status
+        } catch (error) {
+          console.warn(`Opening hours lookup failed for ${venue.name}`)
+        }
+        
+        if (status !== 'closed') {
+          open.push(venue)
+          return
+        }
+        
+        closed++
+        if (venue.pulse_status !== 'closed') {
+          await store.updateVenuePulse(venue.id, {
+            pulse: 0,
+            pulse_confidence: 0.9,
+            pulse_data_source: VenueDataSource.ESTIMATED,
+            pulse_updated_at: new Date(),
+            pulse_status: 'closed'
+          })
+          
+          if (this.events) {
+            changes.push(...this.events.detect(venue, {
+              value: 0,
+              confidence: 0.9,
+              dataSource: VenueDataSource.ESTIMATED,
+              openStatus: 'closed'
+            }))
+          }
+        }
+      }))
+    }
+    
+    return { open, closed, changes }
+  }
+  
+  /**
+   * Publish change events; a failing subscriber never fails the update
+   */
+  private async publishChanges(changes: PulseChangeEvent[]) {
+    if (!this.events || changes.length === 0) return
+    
+    try {
+      const result = await this.events.publish(changes)
+      if (result.failed > 0) {
+        console.warn(`${result.failed} pulse event deliveries failed; they will be retried`)
+      }
+    } catch (error) {
+      console.error('Failed to publish pulse change events:', error)
+    }
+  }
+  
+  /**
+   * Queue alert notifications for fresh pulses; returns how many were created
+   */
+  private async evaluateAlerts(readings: AlertReading[]): Promise<number> {
+    if (!this.alerts || readings.length === 0) return 0
+    
+    try {
+      return (await this.alerts.evaluate(readings)).length
+    } catch (error) {
+      console.error('Failed to evaluate pulse alerts:', error)
+      return 0
+    }
+  }
+  
   /**
    * Update single venue (for real-time triggers)
    */
-  async updateVenue(venueId: number): Promise<PulseData> {
-    const pulse = await this.engine.calculatePulse(venueId)
-    
-    // Update database
-    await supabase
-      .from('venues')
-      .update({
-        pulse: pulse.value,
-        pulse_confidence: pulse.confidence,
-        pulse_data_source: pulse.dataSource,
-        pulse_updated_at: pulse.lastUpdated
-      })
-      .eq('id', venueId)
+  async updateVenue(
+    venueId: number,
+    options: { fallbackOnError?: boolean } = {}
+  ): Promise<PulseData> {
+    // Read before the write, to compare against
+    const previous = this.events || this.alerts ? await this.repository.getVenue(venueId) : null
+    const pulse = await this.engine.calculatePulse(venueId, options)
+    await this.storePulse(this.repository, venueId, pulse)
+    
+    if (previous && !isFallbackPulse(pulse)) {
+      if (this.events) await this.publishChanges(this.events.detect(previous, pulse))
+      await this.evaluateAlerts([{ venue: previous, pulse }])
+    }
     
     return pulse
   }
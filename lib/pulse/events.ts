@@ -0,0 +1,393 @@
+// lib/pulse/events.ts
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import {
+  PulseChangeEvent,
+  PulseChangeEventType,
+  PulseData,
+  PulseEventDeliveryRecord,
+  PulseWebhookRecord,
+  VenueRecord
+} from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+
+export interface PulseEventOptions {
+  thresholds: number[]       // Crossing any of these fires threshold_crossed
+  minChange: number          // Points moved between writes to fire 'moved'
+  maxAttempts: number        // Then the delivery is dead
+  baseBackoffMs: number
+  maxBackoffMs: number
+  timeoutMs: number          // Per webhook request
+}
+
+export const DEFAULT_EVENT_OPTIONS: PulseEventOptions = {
+  thresholds: [3, 7],        // Dying down / hot
+  minChange: 2,
+  maxAttempts: 6,
+  baseBackoffMs: 30 * 1000,
+  maxBackoffMs: 60 * 60 * 1000,
+  timeoutMs: 5 * 1000
+}
+
+// Signed timestamps older than this are rejected by verifyPulseSignature
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+// Webhook requests in flight at once
+const DELIVERY_BATCH_SIZE = 10
+
+export type PulseEventHandler = (event: PulseChangeEvent) => void | Promise<void>
+
+export interface PulseEventFilter {
+  eventTypes?: PulseChangeEventType[]  // Omit for every type
+  venueIds?: number[]                  // Omit for every venue
+}
+
+/**
+ * Changes between a venue's stored pulse and a freshly calculated one
+ *
+ * Pure; the venue record must be read before the new pulse is written.
+ */
+export function detectPulseChanges(
+  previous: Pick<VenueRecord, 'id' | 'name' | 'pulse' | 'pulse_data_source'>,
+  current: Pick<PulseData, 'value' | 'confidence' | 'dataSource' | 'openStatus'>,
+  options: Pick<PulseEventOptions, 'thresholds' | 'minChange'> = DEFAULT_EVENT_OPTIONS,
+  now: Date = new Date()
+): PulseChangeEvent[] {
+  if (typeof previous.pulse !== 'number') return []
+  
+  const before = previous.pulse
+  const after = current.value
+  const change = Math.round((after - before) * 10) / 10
+  const direction = change > 0 ? 'up' : change < 0 ? 'down' : 'none'
+  
+  const base = {
+    venueId: previous.id,
+    venueName: previous.name,
+    previous: { value: before, dataSource: previous.pulse_data_source ?? null },
+    current: {
+      value: after,
+      confidence: current.confidence,
+      dataSource: current.dataSource,
+      status: current.openStatus ?? null
+    },
+    change,
+    direction,
+    occurredAt: now.toISOString()
+  } as const
+  
+  const events: PulseChangeEvent[] = []
+  
+  for (const threshold of options.thresholds) {
+    const crossedUp = before < threshold && after >= threshold
+    const crossedDown = before >= threshold && after < threshold
+    if (crossedUp || crossedDown) {
+      events.push({ id: randomUUID(), type: 'threshold_crossed', threshold, ...base })
+    }
+  }
+  
+  if (Math.abs(change) >= options.minChange) {
+    events.push({ id: randomUUID(), type: 'moved', ...base })
+  }
+  
+  if (previous.pulse_data_source && previous.pulse_data_source !== current.dataSource) {
+    events.push({ id: randomUUID(), type: 'source_changed', ...base })
+  }
+  
+  return events
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, as sent in X-Pulse-Signature
+ */
+export function signPulsePayload(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * For receivers: check X-Pulse-Signature against the raw body and X-Pulse-Timestamp
+ */
+export function verifyPulseSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+  now: Date = new Date()
+): boolean {
+  const age = Math.abs(now.getTime() / 1000 - Number(timestamp))
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) return false
+  
+  const expected = Buffer.from(signPulsePayload(secret, timestamp, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+function matches(filter: PulseEventFilter, event: PulseChangeEvent): boolean {
+  return (!filter.eventTypes?.length || filter.eventTypes.includes(event.type)) &&
+    (!filter.venueIds?.length || filter.venueIds.includes(event.venueId))
+}
+
+/**
+ * Pulse change events out to in-process handlers and signed webhooks
+ */
+export class PulseEventService {
+  private repository: PulseRepository
+  private options: PulseEventOptions
+  private handlers: Array<{ handler: PulseEventHandler, filter: PulseEventFilter }> = []
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    options: Partial<PulseEventOptions> = {}
+  ) {
+    this.repository = repository
+    this.options = { ...DEFAULT_EVENT_OPTIONS, ...options }
+  }
+  
+  /**
+   * detectPulseChanges with this service's thresholds
+   */
+  detect(
+    previous: Pick<VenueRecord, 'id' | 'name' | 'pulse' | 'pulse_data_source'>,
+    current: Pick<PulseData, 'value' | 'confidence' | 'dataSource' | 'openStatus'>,
+    now: Date = new Date()
+  ): PulseChangeEvent[] {
+    return detectPulseChanges(previous, current, this.options, now)
+  }
+  
+  /**
+   * Call `handler` in this process for matching events; returns an unsubscribe
+   */
+  subscribe(handler: PulseEventHandler, filter: PulseEventFilter = {}): () => void {
+    const entry = { handler, filter }
+    this.handlers.push(entry)
+    return () => {
+      this.handlers = this.handlers.filter(h => h !== entry)
+    }
+  }
+  
+  /**
+   * Register a webhook; keep the returned secret to verify signatures
+   */
+  async registerWebhook(url: string, filter: PulseEventFilter = {}): Promise<PulseWebhookRecord> {
+    return this.repository.insertWebhook({
+      url,
+      secret: randomBytes(32).toString('hex'),
+      event_types: filter.eventTypes ?? [],
+      venue_ids: filter.venueIds ?? [],
+      active: true,
+      created_at: new Date().toISOString()
+    })
+  }
+  
+  async disableWebhook(webhookId: string): Promise<void> {
+    await this.repository.updateWebhook(webhookId, { active: false })
+  }
+  
+  /**
+   * Hand events to handlers, then log and attempt a delivery per matching webhook
+   */
+  async publish(events: PulseChangeEvent[]): Promise<{
+    handled: number
+    delivered: number
+    failed: number
+  }> {
+    if (events.length === 0) return { handled: 0, delivered: 0, failed: 0 }
+    
+    let handled = 0
+    for (const event of events) {
+      for (const { handler, filter } of this.handlers) {
+        if (!matches(filter, event)) continue
+        try {
+          await handler(event)
+          handled++
+        } catch (error) {
+          console.error(`Pulse event handler failed for ${event.type} at venue ${event.venueId}:`, error)
+        }
+      }
+    }
+    
+    const webhooks = await this.repository.getActiveWebhooks()
+    const now = new Date()
+    const pairs = events.flatMap(event => webhooks
+      .filter(webhook => matches({ eventTypes: webhook.event_types, venueIds: webhook.venue_ids }, event))
+      .map(webhook => ({ event, webhook }))
+    )
+    if (pairs.length === 0) return { handled, delivered: 0, failed: 0 }
+    
+    // The first attempt owns the delivery for as long as attempting them all can take;
+    // a crash leaves it to retryDue
+    const leaseUntil = new Date(now.getTime() + this.leaseMs(pairs.length))
+    const deliveries = await this.repository.insertEventDeliveries(pairs.map(({ event, webhook }) => ({
+      webhook_id: webhook.id,
+      event_id: event.id,
+      event_type: event.type,
+      venue_id: event.venueId,
+      payload: event,
+      status: 'pending' as const,
+      attempts: 0,
+      next_attempt_at: leaseUntil.toISOString(),
+      created_at: now.toISOString()
+    })))
+    
+    const byId = new Map(webhooks.map(w => [w.id, w]))
+    const { delivered, failed } = await this.deliverAll(
+      deliveries.map(delivery => ({ delivery, webhook: byId.get(delivery.webhook_id)! }))
+    )
+    return { handled, delivered, failed }
+  }
+  
+  /**
+   * Retry deliveries whose backoff has passed (cron)
+   *
+   * Claimed deliveries are leased for long enough to attempt them all, so an
+   * overlapping run skips them; a crashed run's are picked up once it expires.
+   */
+  async retryDue(limit: number = 50): Promise<{
+    attempted: number
+    delivered: number
+    failed: number
+  }> {
+    const now = new Date()
+    const due = await this.repository.claimDueEventDeliveries(now, limit, new Date(now.getTime() + this.leaseMs(limit)))
+    const pending: Array<{ delivery: PulseEventDeliveryRecord, webhook: PulseWebhookRecord }> = []
+    
+    for (const delivery of due) {
+      const webhook = await this.repository.getWebhook(delivery.webhook_id)
+      if (!webhook?.active) {
+        await this.repository.updateEventDelivery(delivery.id, {
+          status: 'dead',
+          last_error: 'Webhook disabled'
+        })
+        continue
+      }
+      pending.push({ delivery, webhook })
+    }
+    
+    const { delivered, failed } = await this.deliverAll(pending)
+    return { attempted: pending.length, delivered, failed }
+  }
+  
+  /**
+   * A webhook's delivery log
+   */
+  async getDeliveries(webhookId: string, limit: number = 50): Promise<PulseEventDeliveryRecord[]> {
+    return this.repository.getEventDeliveries(webhookId, limit)
+  }
+  
+  private async deliverAll(
+    pending: Array<{ delivery: PulseEventDeliveryRecord, webhook: PulseWebhookRecord }>
+  ): Promise<{ delivered: number, failed: number }> {
+    let delivered = 0
+    
+    for (let i = 0; i < pending.length; i += DELIVERY_BATCH_SIZE) {
+      const results = await Promise.all(
+        pending.slice(i, i + DELIVERY_BATCH_SIZE).map(({ delivery, webhook }) => this.deliver(delivery, webhook))
+      )
+      delivered += results.filter(Boolean).length
+    }
+    
+    return { delivered, failed: pending.length - delivered }
+  }
+  
+  /**
+   * POST one signed delivery; schedules a retry or marks it dead on failure
+   */
+  private async deliver(delivery: PulseEventDeliveryRecord, webhook: PulseWebhookRecord): Promise<boolean> {
+    const body = JSON.stringify(delivery.payload)
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+    const attempts = delivery.attempts + 1
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs)
+    
+    let responseStatus: number | null = null
+    let error: string
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Pulse-Event': delivery.event_type,
+          'X-Pulse-Delivery': delivery.id,
+          'X-Pulse-Timestamp': timestamp,
+          'X-Pulse-Signature': signPulsePayload(webhook.secret, timestamp, body)
+        },
+        body,
+        signal: controller.signal
+      })
+      responseStatus = response.status
+      
+      if (response.ok) {
+        await this.repository.updateEventDelivery(delivery.id, {
+          status: 'delivered',
+          attempts,
+          response_status: responseStatus,
+          last_error: null,
+          delivered_at: new Date().toISOString()
+        })
+        return true
+      }
+      error = `HTTP ${response.status}`
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught)
+    } finally {
+      clearTimeout(timeout)
+    }
+    
+    const dead = attempts >= this.options.maxAttempts
+    await this.repository.updateEventDelivery(delivery.id, {
+      status: dead ? 'dead' : 'pending',
+      attempts,
+      response_status: responseStatus,
+      last_error: error,
+      ...(dead ? {} : { next_attempt_at: new Date(Date.now() + this.getBackoff(attempts)).toISOString() })
+    })
+    return false
+  }
+  
+  /**
+   * Long enough to attempt `count` deliveries in batches, each batch up to a timeout
+   */
+  private leaseMs(count: number): number {
+    return this.options.baseBackoffMs + Math.ceil(count / DELIVERY_BATCH_SIZE) * this.options.timeoutMs
+  }
+  
+  /**
+   * Exponential backoff with jitter
+   */
+  private getBackoff(attempts: number): number {
+    const exponential = this.options.baseBackoffMs * Math.pow(2, attempts - 1)
+    const jitter = Math.random() * this.options.baseBackoffMs
+    return Math.min(this.options.maxBackoffMs, exponential + jitter)
+  }
+}
+
+// Database tables needed:
+export const PULSE_EVENTS_SQL = `
+CREATE TABLE IF NOT EXISTS pulse_webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',         -- Empty = every type
+  venue_ids INTEGER[] NOT NULL DEFAULT '{}',        -- Empty = every venue
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS pulse_event_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID REFERENCES pulse_webhooks(id) NOT NULL,
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  venue_id INTEGER REFERENCES venues(id) NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  delivered_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_due ON pulse_event_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_webhook ON pulse_event_deliveries(webhook_id, created_at DESC);
+`
@@ -0,0 +1,230 @@
+// lib/pulse/forecast.ts
+
+import {
+  EventRecord,
+  PulseForecastPoint,
+  PulseHistoryRecord,
+  VenueRecord,
+  WeeklyHistogram
+} from './types'
+import { PulseCalculator } from './calculations'
+import { PopularTimesService } from './popular-times'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { ScoringProfile, getScoringProfile } from './profiles'
+import { VenueLocalTime, getVenueLocalTime, hourOfWeek, startOfVenueHour } from './time'
+import { HourOfWeekStats, summarizeByHourOfWeek } from './baseline'
+import { OpeningHoursService, resolveVenueHours } from './hours'
+
+const HOUR_MS = 60 * 60 * 1000
+const HISTORY_WEEKS = 8
+const MAX_FORECAST_HOURS = 24
+const ANOMALY_DECAY_HOURS = 2    // How long "busier than usual right now" persists
+const EVENT_WINDOW = { beforeHours: 1, afterHours: 3 }
+const EVENT_MULTIPLIER = 1.2
+const BAND_Z = 1.28              // ~80% band
+
+interface Expectation {
+  value: number
+  sigma: number
+}
+
+export class PulseForecastService {
+  private repository: PulseRepository
+  private calculator: PulseCalculator
+  private popularTimes: PopularTimesService
+  private hoursService: OpeningHoursService
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    popularTimes: PopularTimesService = new PopularTimesService(repository)
+  ) {
+    this.repository = repository
+    this.calculator = new PulseCalculator()
+    this.popularTimes = popularTimes
+    this.hoursService = new OpeningHoursService(repository)
+  }
+  
+  /**
+   * Hourly pulse forecast for the next `hours` hours
+   */
+  async forecast(venueId: number, hours: number = 6): Promise<PulseForecastPoint[]> {
+    const venue = await this.repository.getVenue(venueId)
+    if (!venue) {
+      throw new Error(`Venue ${venueId} not found`)
+    }
+    
+    const horizon = Math.max(1, Math.min(MAX_FORECAST_HOURS, Math.round(hours)))
+    const now = new Date()
+    const profile = getScoringProfile(venue.venue_type)
+    
+    const [history, popularTimes, events, hoursExceptions] = await Promise.all([
+      this.repository.getPulseHistory(
+        venueId,
+        new Date(now.getTime() - HISTORY_WEEKS * 7 * 24 * HOUR_MS)
+      ),
+      this.getPopularTimes(venue),
+      this.repository.getEventsStartingBetween(
+        venueId,
+        new Date(now.getTime() - EVENT_WINDOW.afterHours * HOUR_MS),
+        new Date(now.getTime() + (horizon + EVENT_WINDOW.beforeHours) * HOUR_MS)
+      ),
+      venue.opening_hours
+        ? this.hoursService.getExceptions(venue, now, new Date(now.getTime() + (horizon + 1) * HOUR_MS))
+        : Promise.resolve([])
+    ])
+    
+    const stats = summarizeByHourOfWeek(
+      venue,
+      history
+        .filter(h => !!h.created_at)
+        .map(h => ({ time: h.created_at!, value: h.pulse_value }))
+    )
+    
+    // How far the venue sits from its usual level right now
+    const expectedNow = this.expectAt(getVenueLocalTime(venue, now), stats, popularTimes, profile)
+    const currentPulse = this.getCurrentPulse(venue, history, now)
+    const anomaly = currentPulse !== null ? currentPulse - expectedNow.value : 0
+    
+    const firstHour = startOfVenueHour(venue, now)
+    
+    const points: PulseForecastPoint[] = []
+    for (let h = 1; h <= horizon; h++) {
+      const time = new Date(firstHour.getTime() + h * HOUR_MS)
+      const localTime = getVenueLocalTime(venue, time)
+      
+      // Nothing to forecast while the doors are shut
+      const openStatus = resolveVenueHours(venue, hoursExceptions, time).status
+      if (openStatus === 'closed') {
+        points.push({
+          time,
+          hour: localTime.hour,
+          value: 0,
+          low: 0,
+          high: 0,
+          confidence: 0.9,
+          isSpecialEvent: false,
+          openStatus
+        })
+        continue
+      }
+      
+      const expected = this.expectAt(localTime, stats, popularTimes, profile)
+      
+      let value = expected.value + anomaly * Math.exp(-h / ANOMALY_DECAY_HOURS)
+      
+      const isSpecialEvent = this.hasEventAt(events, time)
+      if (isSpecialEvent) {
+        value *= EVENT_MULTIPLIER
+      }
+      
+      // Uncertainty grows with the horizon
+      const sigma = Math.sqrt(expected.sigma ** 2 + (0.25 * h) ** 2)
+      
+      points.push({
+        time,
+        hour: localTime.hour,
+        value: roundPulse(value),
+        low: roundPulse(value - BAND_Z * sigma),
+        high: roundPulse(value + BAND_Z * sigma),
+        confidence: Math.round(Math.min(0.95, Math.max(0.1, 1 - sigma / 5)) * 100) / 100,
+        isSpecialEvent,
+        openStatus
+      })
+    }
+    
+    return points
+  }
+  
+  /**
+   * Expected pulse for a local hour from history, Google and time modifiers
+   */
+  private expectAt(
+    localTime: VenueLocalTime,
+    stats: Map<number, HourOfWeekStats>,
+    popularTimes: WeeklyHistogram | undefined,
+    profile: ScoringProfile
+  ): Expectation {
+    const components: Array<{ value: number, sigma: number, weight: number }> = []
+    
+    // Venue's own history for this hour of the week
+    const hourStats = stats.get(hourOfWeek(localTime))
+    if (hourStats && hourStats.count > 0) {
+      components.push({
+        value: hourStats.mean,
+        sigma: Math.max(0.5, hourStats.std),
+        weight: Math.min(0.6, hourStats.count * 0.15)
+      })
+    }
+    
+    // Google's typical week
+    const googleBusy = popularTimes?.[localTime.dayOfWeek]?.[localTime.hour]
+    if (typeof googleBusy === 'number') {
+      components.push({
+        value: this.calculator.convertGoogleToSpree(googleBusy),
+        sigma: 1.5,
+        weight: 0.3
+      })
+    }
+    
+    // Neutral venue shaped by the profile's time modifiers
+    const templateWeight = Math.max(0.1, 1 - components.reduce((sum, c) => sum + c.weight, 0))
+    components.push({
+      value: this.calculator.applyTimeModifiers(
+        5.0,
+        localTime.hour,
+        localTime.nightlifeDayOfWeek,
+        profile
+      ),
+      sigma: 2.0,
+      weight: templateWeight
+    })
+    
+    const totalWeight = components.reduce((sum, c) => sum + c.weight, 0)
+    const value = components.reduce((sum, c) => sum + c.value * c.weight, 0) / totalWeight
+    const variance = components.reduce((sum, c) => sum + c.sigma ** 2 * c.weight, 0) / totalWeight
+    
+    return { value, sigma: Math.sqrt(variance) }
+  }
+  
+  /**
+   * Most recent pulse, if it is fresh enough to anchor the forecast
+   */
+  private getCurrentPulse(
+    venue: VenueRecord,
+    history: PulseHistoryRecord[],
+    now: Date
+  ): number | null {
+    const latest = history[history.length - 1]
+    if (latest?.created_at && now.getTime() - new Date(latest.created_at).getTime() < HOUR_MS) {
+      return latest.pulse_value
+    }
+    
+    if (venue.pulse_updated_at && now.getTime() - new Date(venue.pulse_updated_at).getTime() < HOUR_MS) {
+      return venue.pulse
+    }
+    
+    return null
+  }
+  
+  private async getPopularTimes(venue: VenueRecord): Promise<WeeklyHistogram | undefined> {
+    try {
+      const record = await this.popularTimes.getHistogram(venue)
+      return record?.histogram
+    } catch (error) {
+      console.warn(`Popular times lookup failed for ${venue.name}`)
+      return undefined
+    }
+  }
+  
+  private hasEventAt(events: EventRecord[], time: Date): boolean {
+    return events.some(event => {
+      const startsAt = new Date(event.starts_at).getTime()
+      return time.getTime() >= startsAt - EVENT_WINDOW.beforeHours * HOUR_MS &&
+        time.getTime() < startsAt + EVENT_WINDOW.afterHours * HOUR_MS
+    })
+  }
+}
+
+function roundPulse(value: number): number {
+  return Math.round(Math.min(10, Math.max(0, value)) * 10) / 10
+}
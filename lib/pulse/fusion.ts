@@ -0,0 +1,306 @@
+// lib/pulse/fusion.ts
+
+import {
+  BusynessReading,
+  CommunityConsensus,
+  GoogleBusynessData,
+  PulseSource,
+  PulseSourceContribution,
+  VenueDataSource,
+  VenueMetrics
+} from './types'
+import { PulseCalculator } from './calculations'
+import { OccupancyEstimate, OccupancyEstimator } from './occupancy'
+import { ScoringProfile, scoreFromSteps } from './profiles'
+import { PulseTrace } from './trace'
+import { readingAgeMs } from './services/busyness-provider'
+
+// A single noisy reading of the pulse from one source
+export interface PulseObservation {
+  source: PulseSource
+  value: number              // 0-10
+  variance: number           // Pulse points squared, when fresh
+  ageMinutes: number
+}
+
+export interface FusionOptions {
+  priorVariance: number      // How unsure we are with no data at all
+  driftPerMinute: number     // Variance an observation gains per minute of age
+  maxAgeMinutes: number      // Older observations are dropped
+}
+
+export const DEFAULT_FUSION_OPTIONS: FusionOptions = {
+  priorVariance: 4.0,
+  driftPerMinute: 0.04,      // 30 minutes old adds 1.2
+  maxAgeMinutes: 180
+}
+
+export interface FusedPulse {
+  value: number
+  variance: number
+  confidence: number         // Share of the prior's variance explained away
+  sources: PulseSourceContribution[]
+}
+
+// Pulse at the middle of each vibe's band (see vibeFromPulse)
+const VIBE_PULSE: Record<string, number> = {
+  dead: 1.5,
+  chill: 3.75,
+  busy: 6.25,
+  packed: 8.75
+}
+
+// Pulse nudge from a provider's current-vs-usual trend
+const TREND_ADJUSTMENT: Record<GoogleBusynessData['trend'], number> = {
+  increasing: 0.3,
+  stable: 0,
+  decreasing: -0.3
+}
+
+const SOURCE_DATA_SOURCE: Record<PulseSource, VenueDataSource> = {
+  checkins: VenueDataSource.SPREE,
+  wait_time: VenueDataSource.SPREE,
+  ratings: VenueDataSource.SPREE,
+  community: VenueDataSource.COMMUNITY,
+  presence: VenueDataSource.COMMUNITY,
+  occupancy: VenueDataSource.COMMUNITY,
+  google: VenueDataSource.GOOGLE,
+  popular_times: VenueDataSource.GOOGLE
+}
+
+/**
+ * Inverse-variance fusion of independent pulse observations
+ */
+export class PulseFusion {
+  private options: FusionOptions
+  
+  constructor(options: Partial<FusionOptions> = {}) {
+    this.options = { ...DEFAULT_FUSION_OPTIONS, ...options }
+  }
+  
+  /**
+   * Fold observations into the prior one at a time (a Kalman update per source)
+   *
+   * The result doesn't depend on the order; the trace shows each source's pull.
+   */
+  fuse(prior: number, observations: PulseObservation[], trace?: PulseTrace): FusedPulse {
+    let value = prior
+    let variance = this.options.priorVariance
+    trace?.record('prior', { value: round(prior), variance: variance }, prior)
+    
+    const aged = observations
+      .filter(o => o.ageMinutes <= this.options.maxAgeMinutes && Number.isFinite(o.value))
+      .map(o => ({ ...o, variance: this.agedVariance(o) }))
+    
+    for (const observation of aged) {
+      const gain = variance / (variance + observation.variance)
+      value = value + gain * (observation.value - value)
+      variance = variance * (1 - gain)
+      trace?.record(
+        'fusion',
+        {
+          source: observation.source,
+          observed: round(observation.value),
+          variance: round(observation.variance),
+          gain: round(gain)
+        },
+        value
+      )
+    }
+    
+    // Final weight of each source is its precision over the total
+    const precision = 1 / variance
+    const sources = aged
+      .map(o => ({
+        source: o.source,
+        value: round(o.value),
+        variance: round(o.variance),
+        weight: round((1 / o.variance) / precision),
+        ageMinutes: Math.round(o.ageMinutes)
+      }))
+      .sort((a, b) => b.weight - a.weight)
+    
+    return {
+      value,
+      variance,
+      confidence: Math.round(Math.min(0.99, Math.max(0.1, 1 - variance / this.options.priorVariance)) * 100) / 100,
+      sources
+    }
+  }
+  
+  private agedVariance(observation: PulseObservation): number {
+    return Math.max(0.05, observation.variance) + Math.max(0, observation.ageMinutes) * this.options.driftPerMinute
+  }
+}
+
+/**
+ * Legacy single-source label: whichever source carried the most weight
+ */
+export function dominantDataSource(sources: PulseSourceContribution[]): VenueDataSource {
+  return sources.length > 0 ? SOURCE_DATA_SOURCE[sources[0].source] : VenueDataSource.ESTIMATED
+}
+
+/**
+ * Active check-ins as estimated headcount against capacity
+ *
+ * Capacity makes "packed" mean the same at a small bar and a big club.
+ * Without one, the venue type's activity curve is the fallback.
+ */
+export function checkInObservation(
+  metrics: VenueMetrics,
+  profile: ScoringProfile,
+  calculator: PulseCalculator,
+  estimator: OccupancyEstimator,
+  capacity?: number | null
+): PulseObservation {
+  const momentum = calculator.calculateMomentumBoost(metrics.checkInTrend)
+  const variance = 0.5 + 4 / (metrics.activeCheckIns + 1) // A handful of check-ins says little
+  
+  const occupancy = estimator.estimate({ capacity, activeCheckIns: metrics.activeCheckIns })
+  if (occupancy) {
+    return {
+      source: 'checkins',
+      value: estimator.toPulse(occupancy.percent) + momentum,
+      variance,
+      ageMinutes: 0
+    }
+  }
+  
+  const activity = calculator.calculateActivityScore(metrics.activeCheckIns, profile)
+  const modifier = calculator.getTimeModifier(metrics.hourOfDay, metrics.dayOfWeek, profile)
+  
+  return {
+    source: 'checkins',
+    value: (activity + momentum) * modifier,
+    variance,
+    ageMinutes: 0
+  }
+}
+
+/**
+ * Door wait time from the venue's status log
+ */
+export function waitTimeObservation(metrics: VenueMetrics, profile: ScoringProfile): PulseObservation | null {
+  if (!metrics.reportedWaitTime) return null
+  
+  // The curve's 0-2 boost spread over 4.5-9
+  return {
+    source: 'wait_time',
+    value: 4.5 + scoreFromSteps(profile.waitTimeCurve, metrics.reportedWaitTime) * 2.25,
+    variance: 1.5,
+    ageMinutes: metrics.waitTimeAgeMinutes ?? 0
+  }
+}
+
+/**
+ * Recent vibe-check ratings; they say more about mood than crowd, so they're weak
+ */
+export function ratingsObservation(metrics: VenueMetrics): PulseObservation | null {
+  if (metrics.recentRatings === 0) return null
+  
+  return {
+    source: 'ratings',
+    value: 5 + metrics.recentSentiment * 2.5,
+    variance: 1.5 + 6 / metrics.recentRatings,
+    ageMinutes: metrics.ratingsAgeMinutes ?? 30
+  }
+}
+
+/**
+ * Time- and trust-weighted community vibe votes
+ *
+ * Decay is already in the weights, so the observation counts as fresh.
+ * Weights move the mean, but the variance never credits a report with more
+ * than one report's worth of evidence, so one trusted reporter can't
+ * outweigh the other sources.
+ */
+export function communityObservation(consensus: CommunityConsensus): PulseObservation | null {
+  const votes = Object.entries(consensus.weightedVibeScores)
+    .filter(([vibe, weight]) => weight > 0 && vibe in VIBE_PULSE)
+  const totalWeight = votes.reduce((sum, [, weight]) => sum + weight, 0)
+  if (totalWeight < 0.25) return null
+  
+  let value = votes.reduce((sum, [vibe, weight]) => sum + VIBE_PULSE[vibe] * weight, 0) / totalWeight
+  const spread = votes.reduce((sum, [vibe, weight]) => sum + weight * (VIBE_PULSE[vibe] - value) ** 2, 0) / totalWeight
+  
+  // Long lines mean a fuller room than the vibe alone suggests
+  if (consensus.weightedAverageWaitTime) {
+    if (consensus.weightedAverageWaitTime >= 30) value += 1
+    else if (consensus.weightedAverageWaitTime >= 15) value += 0.5
+  }
+  
+  return {
+    source: 'community',
+    value,
+    variance: (spread + 2) / Math.min(totalWeight, consensus.vibeReports),
+    ageMinutes: 0
+  }
+}
+
+/**
+ * Anonymous "I'm here" pings and social posts: people on site, not how it feels
+ *
+ * Weighted pings go through the venue type's activity curve like check-ins,
+ * and social posts nudge it up. Nobody knows what share of a crowd pings, so
+ * the variance stays wide.
+ */
+export function presenceObservation(consensus: CommunityConsensus, profile: ScoringProfile): PulseObservation | null {
+  const evidence = consensus.weightedPings + consensus.weightedSocialSignals
+  if (evidence < 1) return null
+  
+  return {
+    source: 'presence',
+    value: scoreFromSteps(profile.activityThresholds, consensus.weightedPings) +
+      Math.min(0.5, consensus.weightedSocialSignals * 0.1),
+    variance: 2.5 + 6 / evidence,
+    ageMinutes: 0
+  }
+}
+
+/**
+ * Community crowd estimates, already relative to the room
+ */
+export function occupancyObservation(estimate: OccupancyEstimate, estimator: OccupancyEstimator): PulseObservation {
+  return {
+    source: 'occupancy',
+    value: estimator.toPulse(estimate.percent),
+    variance: 2 / Math.max(0.1, estimate.confidence),
+    ageMinutes: 0
+  }
+}
+
+/**
+ * Live foot traffic from a busyness provider
+ */
+export function busynessObservation(
+  reading: BusynessReading,
+  calculator: PulseCalculator,
+  now: Date = new Date()
+): PulseObservation | null {
+  if (reading.currentBusyness <= 0) return null
+  
+  return {
+    source: 'google',
+    value: calculator.convertGoogleToSpree(reading.currentBusyness) + TREND_ADJUSTMENT[reading.trend],
+    variance: 1.2 / Math.max(0.1, reading.confidence),
+    ageMinutes: readingAgeMs(reading, now) / 60000
+  }
+}
+
+/**
+ * Google's typical level for this hour; a prior more than a measurement
+ */
+export function typicalBusynessObservation(typicalBusyness: number, calculator: PulseCalculator): PulseObservation | null {
+  if (typicalBusyness <= 0) return null
+  
+  return {
+    source: 'popular_times',
+    value: calculator.convertGoogleToSpree(typicalBusyness),
+    variance: 3.0,
+    ageMinutes: 0
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
@@ -0,0 +1,78 @@
+// lib/pulse/geofence.ts
+
+import { ClientLocation, LocationVerification, VenueRecord } from './types'
+
+const EARTH_RADIUS_M = 6371000
+const VERIFIED_RADIUS_M = 150        // Inside or right outside the venue
+const MAX_VERIFY_ACCURACY_M = 100    // Fixes vaguer than this can't verify
+const REJECT_RADIUS_M = 1000         // Even allowing for accuracy, this far is not "here"
+
+// Relative vote weight in consensus; on site is a full vote, unverified counts less
+export const LOCATION_WEIGHTS: Record<Exclude<LocationVerification, 'rejected'>, number> = {
+  verified: 1,
+  unverified: 0.5
+}
+
+export interface LocationCheck {
+  status: LocationVerification
+  distanceMeters: number | null
+  accuracy: number | null
+}
+
+/**
+ * Great-circle distance in meters
+ */
+export function distanceMeters(
+  a: { lat: number, lng: number },
+  b: { lat: number, lng: number }
+): number {
+  const toRad = (deg: number) => deg * Math.PI / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/**
+ * Label a submission by how far the device was from the venue
+ */
+export function verifyLocation(
+  venue: Pick<VenueRecord, 'lat' | 'lng'>,
+  location?: ClientLocation
+): LocationCheck {
+  if (!location || typeof venue.lat !== 'number' || typeof venue.lng !== 'number') {
+    return { status: 'unverified', distanceMeters: null, accuracy: location?.accuracy ?? null }
+  }
+  
+  const distance = Math.round(distanceMeters(location, { lat: venue.lat, lng: venue.lng }))
+  const accuracy = typeof location.accuracy === 'number' ? Math.max(0, location.accuracy) : null
+  
+  // Closest the device could have been, given its own error estimate
+  if (distance - (accuracy ?? 0) > REJECT_RADIUS_M) {
+    return { status: 'rejected', distanceMeters: distance, accuracy }
+  }
+  
+  if (distance <= VERIFIED_RADIUS_M && accuracy !== null && accuracy <= MAX_VERIFY_ACCURACY_M) {
+    return { status: 'verified', distanceMeters: distance, accuracy }
+  }
+  
+  return { status: 'unverified', distanceMeters: distance, accuracy }
+}
+
+export function locationWeight(status?: LocationVerification): number {
+  return status === 'verified' ? LOCATION_WEIGHTS.verified : LOCATION_WEIGHTS.unverified
+}
+
+// Location columns on community tables
+export const GEOFENCE_SQL = `
+ALTER TABLE community_vibe_reports
+ADD COLUMN IF NOT EXISTS location_status TEXT DEFAULT 'unverified' CHECK (location_status IN ('verified', 'unverified')),
+ADD COLUMN IF NOT EXISTS distance_meters INTEGER,
+ADD COLUMN IF NOT EXISTS location_accuracy DECIMAL(8,1);
+
+ALTER TABLE anonymous_pings
+ADD COLUMN IF NOT EXISTS location_status TEXT DEFAULT 'unverified' CHECK (location_status IN ('verified', 'unverified')),
+ADD COLUMN IF NOT EXISTS distance_meters INTEGER,
+ADD COLUMN IF NOT EXISTS location_accuracy DECIMAL(8,1);
+`
@@ -0,0 +1,196 @@
+// lib/pulse/hours.ts
+
+import { OpeningPeriod, VenueHours, VenueHoursExceptionRecord, VenueRecord } from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { fromVenueLocalTime, getVenueLocalTime } from './time'
+
+const DAY_MINUTES = 24 * 60
+const MINUTE_MS = 60 * 1000
+const OPENING_SOON_MINUTES = 60   // Shown as opening soon within the hour
+const LAST_CALL_MINUTES = 30      // Shown as last call in the final half hour
+
+// Wall-clock minutes from local midnight today; negative = yesterday
+interface OpenInterval {
+  start: number
+  end: number
+  label: string | null
+}
+
+/**
+ * Move a YYYY-MM-DD date by whole days
+ */
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10)
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours % 24) * 60 + (minutes || 0)
+}
+
+/**
+ * Sorted intervals with touching or overlapping ones joined
+ *
+ * A period to 24:00 followed by one from 00:00 is one stretch of opening.
+ */
+function mergeIntervals(intervals: OpenInterval[]): OpenInterval[] {
+  const merged: OpenInterval[] = []
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1]
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end)
+      last.label = last.label ?? interval.label
+    } else {
+      merged.push({ ...interval })
+    }
+  }
+  return merged
+}
+
+/**
+ * Open/closed status from weekly periods and any exceptions for the surrounding dates
+ *
+ * Pure, so callers that already hold the exceptions can skip the repository.
+ */
+export function resolveVenueHours(
+  venue: Pick<VenueRecord, 'timezone' | 'lng' | 'opening_hours'>,
+  exceptions: VenueHoursExceptionRecord[],
+  now: Date = new Date()
+): VenueHours {
+  if (!venue.opening_hours || venue.opening_hours.length === 0) {
+    return { status: 'unknown', opensAt: null, closesAt: null, label: null }
+  }
+  
+  const local = getVenueLocalTime(venue, now)
+  const nowMinutes = local.hour * 60 + local.minute
+  
+  // Yesterday's late periods can still be running; tomorrow's may open soon
+  const periodIntervals: OpenInterval[] = []
+  for (const offset of [-1, 0, 1]) {
+    const date = shiftDate(local.date, offset)
+    const dayOfWeek = (local.dayOfWeek + offset + 7) % 7
+    const dayExceptions = exceptions.filter(e => e.date === date)
+    
+    let periods: Array<Pick<OpeningPeriod, 'open' | 'close'>>
+    let label: string | null = null
+    if (dayExceptions.length > 0) {
+      label = dayExceptions.find(e => e.label)?.label ?? null
+      periods = dayExceptions.some(e => e.closed)
+        ? []
+        : dayExceptions.filter(e => e.open && e.close).map(e => ({ open: e.open!, close: e.close! }))
+    } else {
+      periods = venue.opening_hours.filter(p => p.day === dayOfWeek)
+    }
+    
+    periods.forEach(period => {
+      const start = offset * DAY_MINUTES + toMinutes(period.open)
+      let end = offset * DAY_MINUTES + toMinutes(period.close)
+      if (end <= start) end += DAY_MINUTES
+      periodIntervals.push({ start, end, label })
+    })
+  }
+  
+  const intervals = mergeIntervals(periodIntervals)
+  
+  // Minutes are wall-clock; real times go through the zone, so DST nights come out right
+  const at = (minutes: number) => fromVenueLocalTime(venue, local.date, minutes)
+  const minutesUntil = (time: Date) => (time.getTime() - now.getTime()) / MINUTE_MS
+  
+  const current = intervals.find(i => i.start <= nowMinutes && nowMinutes < i.end)
+  if (current) {
+    const closesAt = at(current.end)
+    return {
+      status: minutesUntil(closesAt) <= LAST_CALL_MINUTES ? 'last_call' : 'open',
+      opensAt: null,
+      closesAt,
+      label: current.label
+    }
+  }
+  
+  const next = intervals.find(i => i.start > nowMinutes)
+  const opensAt = next ? at(next.start) : null
+  
+  return {
+    status: opensAt && minutesUntil(opensAt) <= OPENING_SOON_MINUTES ? 'opening_soon' : 'closed',
+    opensAt,
+    closesAt: null,
+    label: next?.label ?? null
+  }
+}
+
+/**
+ * Opening hours, including holiday hours and one-off exceptions
+ */
+export class OpeningHoursService {
+  private repository: PulseRepository
+  
+  constructor(repository: PulseRepository = new SupabasePulseRepository()) {
+    this.repository = repository
+  }
+  
+  /**
+   * Whether the venue is open right now
+   */
+  async getHours(venue: VenueRecord, now: Date = new Date()): Promise<VenueHours> {
+    if (!venue.opening_hours || venue.opening_hours.length === 0) {
+      return resolveVenueHours(venue, [], now)
+    }
+    
+    return resolveVenueHours(venue, await this.getExceptions(venue, now, now), now)
+  }
+  
+  /**
+   * Exceptions that can affect any time between `from` and `to`
+   */
+  async getExceptions(venue: VenueRecord, from: Date, to: Date): Promise<VenueHoursExceptionRecord[]> {
+    return this.repository.getHoursExceptions(
+      venue.id,
+      shiftDate(getVenueLocalTime(venue, from).date, -1),
+      shiftDate(getVenueLocalTime(venue, to).date, 1)
+    )
+  }
+  
+  /**
+   * Holiday or special hours for one local date; omit open/close to mark it closed
+   */
+  async addException(
+    venueId: number,
+    date: string,
+    hours: { open?: string, close?: string, label?: string } = {}
+  ): Promise<VenueHoursExceptionRecord> {
+    const closed = !hours.open || !hours.close
+    return this.repository.insertHoursException({
+      venue_id: venueId,
+      date,
+      closed,
+      open: closed ? null : hours.open,
+      close: closed ? null : hours.close,
+      label: hours.label ?? null
+    })
+  }
+  
+  async removeException(exceptionId: string): Promise<void> {
+    await this.repository.deleteHoursException(exceptionId)
+  }
+}
+
+// Database tables needed:
+export const OPENING_HOURS_SQL = `
+ALTER TABLE venues
+ADD COLUMN IF NOT EXISTS opening_hours JSONB,       -- [{ day, open: 'HH:MM', close: 'HH:MM' }]
+ADD COLUMN IF NOT EXISTS pulse_status TEXT;
+
+CREATE TABLE IF NOT EXISTS venue_hours_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id INTEGER REFERENCES venues(id) NOT NULL,
+  date DATE NOT NULL,                               -- Venue local
+  closed BOOLEAN NOT NULL DEFAULT false,
+  open TEXT,
+  close TEXT,
+  label TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hours_exceptions_venue_date ON venue_hours_exceptions(venue_id, date);
+`
@@ -3,22 +3,75 @@
 // Core exports
 export { PulseEngine, PulseBatchUpdateService } from './engine'
 export { PulseCalculator } from './calculations'
-export { CommunityDataService } from './community'
+export { CommunityDataService, DEFAULT_COMMUNITY_OPTIONS } from './community'
+export type { CommunityOptions } from './community'
+export { PulseForecastService } from './forecast'
+export { PopularTimesService } from './popular-times'
+export * from './baseline'
+export * from './time'
+export * from './profiles'
+export * from './occupancy'
+export * from './fusion'
+export * from './smoothing'
+export * from './hours'
+export { PulseTrace, PULSE_TRACE_SQL } from './trace'
+export * from './reputation'
+export * from './budget'
+export * from './scheduler'
+export { CommunityReportScreener, REPORT_SCREENING_SQL } from './screening'
+export * from './geofence'
+export * from './queue'
+export * from './events'
+export * from './alerts'
+export * from './map'
+export * from './trending'
+export * from './dwell'
 
 // Types
 export * from './types'
 
 // Services
 export { GoogleBusynessService } from './services/google-service'
+export * from './services/busyness-provider'
+export { BestTimeBusynessProvider } from './services/besttime-service'
+
+// Storage
+export * from './repository'
 
 // Main API for the app
 import { PulseEngine, PulseBatchUpdateService } from './engine'
 import { CommunityDataService } from './community'
+import { PulseForecastService } from './forecast'
+import { PopularTimesService } from './popular-times'
+import { ReporterReputationService } from './reputation'
+import { CommunityReportScreener } from './screening'
+import { SupabasePulseRepository } from './repository'
+import { PulseUpdateQueue, PulseUpdateWorker } from './queue'
+import { ApiBudget } from './budget'
+import { PulseEventFilter, PulseEventHandler, PulseEventService } from './events'
+import { AlertArea, AlertConditions, PulseAlertService } from './alerts'
+import { HeatmapResolution, NearbyFilters, PulseMapService } from './map'
+import { PulseTrendingService, TrendingFilters } from './trending'
+import { DwellTimeService } from './dwell'
+import { GeoBounds, PulseUpdateTrigger } from './types'
 
 // Singleton instances
-const pulseEngine = new PulseEngine()
-const batchService = new PulseBatchUpdateService()
-const communityService = new CommunityDataService()
+const repository = new SupabasePulseRepository()
+const pulseEngine = new PulseEngine(repository)
+const eventService = new PulseEventService(repository)
+const alertService = new PulseAlertService(repository)
+const batchService = new PulseBatchUpdateService(repository, eventService, alertService)
+const updateQueue = new PulseUpdateQueue(repository)
+const updateWorker = new PulseUpdateWorker(updateQueue, batchService)
+const communityService = new CommunityDataService(repository, updateQueue)
+const popularTimesService = new PopularTimesService(repository)
+const forecastService = new PulseForecastService(repository, popularTimesService)
+const reputationService = new ReporterReputationService(repository)
+const reportScreener = new CommunityReportScreener(repository)
+const serpApiBudget = new ApiBudget(repository)
+const mapService = new PulseMapService(repository)
+const trendingService = new PulseTrendingService(repository)
+const dwellService = new DwellTimeService(repository)
 
 /**
  * Main Pulse API
@@ -32,10 +85,67 @@ export const Pulse = {
   },
   
   /**
-   * Update all venues (batch job)
+   * Hourly forecast for the next few hours
+   */
+  async forecast(venueId: number, hours: number = 6) {
+    return forecastService.forecast(venueId, hours)
+  },
+  
+  /**
+   * Google's typical week for a venue, hour by hour in venue local time
+   */
+  async typicalWeek(venueId: number) {
+    const venue = await repository.getVenue(venueId)
+    if (!venue) {
+      throw new Error(`Venue ${venueId} not found`)
+    }
+    return popularTimesService.getTypicalWeek(venue)
+  },
+  
+  /**
+   * Venues within `radius` meters, ranked by pulse, confidence and distance
+   */
+  async nearby(lat: number, lng: number, radius: number, filters?: NearbyFilters) {
+    return mapService.nearby(lat, lng, radius, filters)
+  },
+  
+  /**
+   * Capacity-weighted pulse per grid cell (size in meters) or per neighborhood
+   */
+  async heatmap(bounds: GeoBounds, resolution: HeatmapResolution = 250) {
+    return mapService.heatmap(bounds, resolution)
+  },
+  
+  /**
+   * Venues rising fastest against their usual, by area and venue type
+   */
+  async trending(filters?: TrendingFilters) {
+    return trendingService.getTrending(filters)
+  },
+  
+  /**
+   * Record that a user looked at a venue (drives refresh priority)
    */
-  async updateAll() {
-    return batchService.updateAllVenues()
+  async recordView(venueId: number, userId?: string) {
+    return repository.recordVenueView({
+      venue_id: venueId,
+      user_id: userId ?? null,
+      viewed_at: new Date().toISOString()
+    })
+  },
+  
+  /**
+   * SerpAPI calls used vs. budget
+   */
+  async getApiBudget() {
+    return serpApiBudget.getStatus()
+  },
+  
+  /**
+   * Update all venues (batch job); pass `{ bulk: false }` for the venue-by-venue path
+   */
+  async updateAll(options: { bulk?: boolean } = {}) {
+    return batchService.updateAllVenues(options)
   },
   
   /**
@@ -45,6 +155,92 @@ export const Pulse = {
     return batchService.updateVenue(venueId)
   },
   
+  /**
+   * Queue a venue for a debounced update (check-ins, status logs, ...)
+   */
+  async enqueueUpdate(venueId: number, trigger: PulseUpdateTrigger) {
+    return updateQueue.enqueue(venueId, trigger)
+  },
+  
+  /**
+   * Process queued updates that are due (cron / edge function)
+   */
+  async processUpdateQueue(batchSize?: number) {
+    return updateWorker.processDue(batchSize)
+  },
+  
+  /**
+   * Queued updates that ran out of retries
+   */
+  async getFailedUpdates(limit?: number) {
+    return updateQueue.getDeadLetters(limit)
+  },
+  
+  /**
+   * Run `handler` in this process whenever a matching pulse change fires
+   */
+  onPulseChange(handler: PulseEventHandler, filter?: PulseEventFilter) {
+    return eventService.subscribe(handler, filter)
+  },
+  
+  /**
+   * Register a webhook for pulse change events; the result holds its signing secret
+   */
+  async registerWebhook(url: string, filter?: PulseEventFilter) {
+    return eventService.registerWebhook(url, filter)
+  },
+  
+  async disableWebhook(webhookId: string) {
+    return eventService.disableWebhook(webhookId)
+  },
+  
+  /**
+   * Retry webhook deliveries that are due (cron)
+   */
+  async retryWebhookDeliveries(limit?: number) {
+    return eventService.retryDue(limit)
+  },
+  
+  /**
+   * Delivery log for a webhook, newest first
+   */
+  async getWebhookDeliveries(webhookId: string, limit?: number) {
+    return eventService.getDeliveries(webhookId, limit)
+  },
+  
+  /**
+   * Notify a user when a venue meets the conditions (once per night)
+   */
+  async createVenueAlert(userId: string, venueId: number, conditions: AlertConditions) {
+    return alertService.createVenueAlert(userId, venueId, conditions)
+  },
+  
+  /**
+   * Notify a user when any venue in an area meets the conditions (once per night)
+   */
+  async createAreaAlert(userId: string, area: AlertArea, conditions: AlertConditions) {
+    return alertService.createAreaAlert(userId, area, conditions)
+  },
+  
+  async disableAlert(alertId: string) {
+    return alertService.disableAlert(alertId)
+  },
+  
+  async getUserAlerts(userId: string) {
+    return alertService.getUserAlerts(userId)
+  },
+  
+  /**
+   * Alert notifications for the push sender to deliver
+   */
+  async getPendingAlertNotifications(limit?: number) {
+    return alertService.getPendingNotifications(limit)
+  },
+  
+  async markAlertNotifications(notificationIds: string[], status: 'sent' | 'failed') {
+    return alertService.markNotifications(notificationIds, status)
+  },
+  
   /**
    * Submit community vibe report
    */
@@ -62,8 +258,36 @@ export const Pulse = {
   /**
    * Get community consensus
    */
-  async getCommunityConsensus(venueId: number, minutesBack?: number) {
-    return communityService.getConsensus(venueId, minutesBack)
+  async getCommunityConsensus(venueId: number, minutesBack?: number, halfLifeMinutes?: number) {
+    return communityService.getConsensus(venueId, minutesBack, halfLifeMinutes)
+  },
+  
+  /**
+   * Rescore reporter trust from the last night's reports (nightly cron)
+   */
+  async updateReputations() {
+    return reputationService.updateNightly()
+  },
+  
+  /**
+   * Relearn check-in dwell times from completed check-ins (nightly cron)
+   */
+  async updateDwellModels() {
+    return dwellService.learnAll()
+  },
+  
+  /**
+   * Community reports quarantined as likely spam or brigading
+   */
+  async getQuarantinedReports(limit?: number) {
+    return reportScreener.getReviewQueue(limit)
+  },
+  
+  /**
+   * Approve (count it again) or reject a quarantined report
+   */
+  async reviewQuarantinedReport(flagId: string, decision: 'approved' | 'rejected') {
+    return reportScreener.review(flagId, decision)
   }
 }
 
@@ -0,0 +1,221 @@
+// lib/pulse/map.ts
+
+import { GeoBounds, HeatmapCell, NearbyVenue, VenueRecord } from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { distanceMeters } from './geofence'
+import { matchesVenueType } from './profiles'
+
+const METERS_PER_DEGREE_LAT = 111320
+const MAX_NEARBY_RADIUS_M = 25000
+const MAX_HEATMAP_CELLS = 2500
+const UNKNOWN_CAPACITY_WEIGHT = 150  // Venues without a capacity count as mid-sized
+const MAX_PULSE_AGE_MS = 2 * 60 * 60 * 1000 // Older pulses are left off the map; closed venues stay
+
+export interface NearbyFilters {
+  venueTypes?: string[]
+  minPulse?: number
+  minConfidence?: number
+  openNow?: boolean          // Leave out venues marked closed
+  limit?: number
+}
+
+// Grid cell size in meters, or one cell per venue neighborhood
+export type HeatmapResolution = number | 'neighborhood'
+
+function hasLocation(venue: VenueRecord): venue is VenueRecord & { lat: number, lng: number } {
+  return typeof venue.lat === 'number' && typeof venue.lng === 'number'
+}
+
+function metersPerDegreeLng(lat: number): number {
+  return METERS_PER_DEGREE_LAT * Math.max(0.01, Math.cos(lat * Math.PI / 180))
+}
+
+function round(value: number, places: number = 2): number {
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Nearby venues and heat maps straight from the stored venue pulses
+ */
+export class PulseMapService {
+  private repository: PulseRepository
+  
+  constructor(repository: PulseRepository = new SupabasePulseRepository()) {
+    this.repository = repository
+  }
+  
+  /**
+   * Venues within `radiusMeters`, hottest first
+   *
+   * Confidence and distance scale the pulse: a sure 8 next door outranks a
+   * guessed 8 at the edge of the radius.
+   */
+  async nearby(
+    lat: number,
+    lng: number,
+    radiusMeters: number,
+    filters: NearbyFilters = {}
+  ): Promise<NearbyVenue[]> {
+    if (!(radiusMeters > 0 && radiusMeters <= MAX_NEARBY_RADIUS_M)) {
+      throw new Error(`Radius must be between 0 and ${MAX_NEARBY_RADIUS_M} meters`)
+    }
+    
+    const latSpan = radiusMeters / METERS_PER_DEGREE_LAT
+    const lngSpan = radiusMeters / metersPerDegreeLng(lat)
+    const venues = await this.repository.getActiveVenuesInBounds({
+      north: lat + latSpan,
+      south: lat - latSpan,
+      east: lng + lngSpan,
+      west: lng - lngSpan
+    }, new Date(Date.now() - MAX_PULSE_AGE_MS))
+    
+    const results: NearbyVenue[] = []
+    for (const venue of venues) {
+      if (!hasLocation(venue)) continue
+      if (filters.venueTypes?.length && !matchesVenueType(venue.venue_type, filters.venueTypes)) continue
+      if (filters.openNow && venue.pulse_status === 'closed') continue
+      
+      const pulse = venue.pulse ?? 0
+      const confidence = venue.pulse_confidence ?? 0
+      if (typeof filters.minPulse === 'number' && pulse < filters.minPulse) continue
+      if (typeof filters.minConfidence === 'number' && confidence < filters.minConfidence) continue
+      
+      const distance = distanceMeters({ lat, lng }, venue)
+      if (distance > radiusMeters) continue
+      
+      // 1 at the center down to 0.5 at the edge
+      const proximity = 1 - 0.5 * (distance / radiusMeters)
+      
+      results.push({
+        venueId: venue.id,
+        name: venue.name,
+        lat: venue.lat,
+        lng: venue.lng,
+        venueType: venue.venue_type ?? null,
+        distanceMeters: Math.round(distance),
+        pulse,
+        confidence,
+        status: venue.pulse_status ?? null,
+        score: round(pulse * (0.5 + 0.5 * confidence) * proximity)
+      })
+    }
+    
+    return results
+      .sort((a, b) => b.score - a.score || a.distanceMeters - b.distanceMeters)
+      .slice(0, filters.limit ?? 50)
+  }
+  
+  /**
+   * Capacity-weighted pulse per grid cell or neighborhood inside `bounds`
+   *
+   * Only cells with at least one venue are returned.
+   */
+  async heatmap(bounds: GeoBounds, resolution: HeatmapResolution): Promise<HeatmapCell[]> {
+    if (bounds.north <= bounds.south || bounds.east <= bounds.west) {
+      throw new Error('Bounds must have north > south and east > west')
+    }
+    
+    const grid = resolution === 'neighborhood' ? null : this.gridFor(bounds, resolution)
+    const venues = (await this.repository.getActiveVenuesInBounds(
+      bounds,
+      new Date(Date.now() - MAX_PULSE_AGE_MS)
+    )).filter(hasLocation)
+    
+    const groups = new Map<string, { bounds: GeoBounds | null, venues: Array<VenueRecord & { lat: number, lng: number }> }>()
+    for (const venue of venues) {
+      let key: string
+      let cellBounds: GeoBounds | null = null
+      
+      if (grid) {
+        const row = Math.min(grid.rows - 1, Math.floor((venue.lat - bounds.south) / grid.latStep))
+        const col = Math.min(grid.cols - 1, Math.floor((venue.lng - bounds.west) / grid.lngStep))
+        key = `${row}:${col}`
+        cellBounds = {
+          south: bounds.south + row * grid.latStep,
+          north: Math.min(bounds.north, bounds.south + (row + 1) * grid.latStep),
+          west: bounds.west + col * grid.lngStep,
+          east: Math.min(bounds.east, bounds.west + (col + 1) * grid.lngStep)
+        }
+      } else {
+        if (!venue.neighborhood) continue
+        key = venue.neighborhood
+      }
+      
+      const group = groups.get(key) ?? { bounds: cellBounds, venues: [] }
+      group.venues.push(venue)
+      groups.set(key, group)
+    }
+    
+    return [...groups.entries()]
+      .map(([key, group]) => this.aggregate(key, group.venues, group.bounds))
+      .sort((a, b) => b.pulse - a.pulse)
+  }
+  
+  private gridFor(bounds: GeoBounds, cellMeters: number) {
+    if (!(cellMeters > 0)) {
+      throw new Error('Heatmap resolution must be a positive cell size in meters')
+    }
+    
+    const latStep = cellMeters / METERS_PER_DEGREE_LAT
+    const lngStep = cellMeters / metersPerDegreeLng((bounds.north + bounds.south) / 2)
+    const rows = Math.max(1, Math.ceil((bounds.north - bounds.south) / latStep))
+    const cols = Math.max(1, Math.ceil((bounds.east - bounds.west) / lngStep))
+    
+    if (rows * cols > MAX_HEATMAP_CELLS) {
+      throw new Error(`Heatmap would have ${rows * cols} cells; use a coarser resolution (max ${MAX_HEATMAP_CELLS})`)
+    }
+    
+    return { latStep, lngStep, rows, cols }
+  }
+  
+  /**
+   * Closed venues are counted but kept out of the pulse, so closing time
+   * doesn't read as a dead neighborhood
+   */
+  private aggregate(
+    key: string,
+    venues: Array<VenueRecord & { lat: number, lng: number }>,
+    cellBounds: GeoBounds | null
+  ): HeatmapCell {
+    const open = venues.filter(v => v.pulse_status !== 'closed')
+    const weighted = (open.length > 0 ? open : venues).map(venue => ({
+      venue,
+      weight: venue.capacity && venue.capacity > 0 ? venue.capacity : UNKNOWN_CAPACITY_WEIGHT
+    }))
+    const totalWeight = weighted.reduce((sum, w) => sum + w.weight, 0)
+    const mean = (pick: (venue: VenueRecord) => number) =>
+      weighted.reduce((sum, w) => sum + pick(w.venue) * w.weight, 0) / totalWeight
+    
+    const hottest = open.reduce<VenueRecord | null>(
+      (best, venue) => !best || (venue.pulse ?? 0) > (best.pulse ?? 0) ? venue : best,
+      null
+    )
+    
+    return {
+      key,
+      bounds: cellBounds ?? {
+        north: Math.max(...venues.map(v => v.lat)),
+        south: Math.min(...venues.map(v => v.lat)),
+        east: Math.max(...venues.map(v => v.lng)),
+        west: Math.min(...venues.map(v => v.lng))
+      },
+      center: { lat: round(mean(v => v.lat!), 6), lng: round(mean(v => v.lng!), 6) },
+      venueCount: open.length,
+      closedCount: venues.length - open.length,
+      pulse: open.length > 0 ? round(mean(v => v.pulse ?? 0), 1) : 0,
+      maxPulse: hottest?.pulse ?? 0,
+      confidence: open.length > 0 ? round(mean(v => v.pulse_confidence ?? 0)) : 0,
+      totalCapacity: venues.reduce((sum, v) => sum + (v.capacity && v.capacity > 0 ? v.capacity : 0), 0),
+      hottestVenueId: hottest?.id ?? null
+    }
+  }
+}
+
+// Venue neighborhood and a location index for the map queries
+export const PULSE_MAP_SQL = `
+ALTER TABLE venues
+ADD COLUMN IF NOT EXISTS neighborhood TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_venues_active_location ON venues(lat, lng) WHERE is_active;
+`
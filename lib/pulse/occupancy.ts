@@ -0,0 +1,87 @@
+// lib/pulse/occupancy.ts
+
+// Share of a venue's crowd that checks in on Spree
+export const DEFAULT_APP_PENETRATION = 0.1
+
+export type OccupancySource = 'checkins' | 'community' | 'google'
+
+export interface OccupancyInputs {
+  capacity?: number | null
+  activeCheckIns?: number | null    // Spree partners only
+  crowdEstimate?: number | null     // Community average, 0-100
+  crowdEstimateReports?: number
+  googleBusyness?: number | null    // 0-100
+}
+
+export interface OccupancyEstimate {
+  percent: number                   // 0-100 of capacity
+  confidence: number                // 0-1
+  sources: OccupancySource[]
+}
+
+export class OccupancyEstimator {
+  private appPenetration: number
+  
+  constructor(appPenetration: number = DEFAULT_APP_PENETRATION) {
+    this.appPenetration = appPenetration
+  }
+  
+  /**
+   * Estimate occupancy as a percent of capacity
+   */
+  estimate(inputs: OccupancyInputs): OccupancyEstimate | null {
+    const readings: Array<{ source: OccupancySource, percent: number, weight: number }> = []
+    
+    // Check-ins scaled up to the whole crowd (needs a capacity)
+    if (inputs.capacity && inputs.capacity > 0 && typeof inputs.activeCheckIns === 'number') {
+      const headcount = inputs.activeCheckIns / this.appPenetration
+      readings.push({
+        source: 'checkins',
+        percent: (headcount / inputs.capacity) * 100,
+        weight: 0.5
+      })
+    }
+    
+    // Community crowd estimates are already relative to the room
+    if (typeof inputs.crowdEstimate === 'number' && (inputs.crowdEstimateReports || 0) > 0) {
+      readings.push({
+        source: 'community',
+        percent: inputs.crowdEstimate,
+        weight: Math.min(0.4, (inputs.crowdEstimateReports || 0) * 0.1)
+      })
+    }
+    
+    // Google's 100 is the place's busiest typical hour, close enough to full
+    if (typeof inputs.googleBusyness === 'number' && inputs.googleBusyness > 0) {
+      readings.push({
+        source: 'google',
+        percent: inputs.googleBusyness,
+        weight: 0.3
+      })
+    }
+    
+    if (readings.length === 0) return null
+    
+    const totalWeight = readings.reduce((sum, r) => sum + r.weight, 0)
+    const percent = readings.reduce((sum, r) => sum + r.percent * r.weight, 0) / totalWeight
+    
+    return {
+      percent: Math.round(Math.min(100, Math.max(0, percent))),
+      confidence: Math.min(1, totalWeight),
+      sources: readings.map(r => r.source)
+    }
+  }
+  
+  /**
+   * Convert occupancy percent to Spree's 0-10 scale
+   */
+  toPulse(percent: number): number {
+    if (percent >= 100) return 9.5
+    if (percent >= 90) return 9.0 + (percent - 90) / 20
+    if (percent >= 75) return 8.0 + (percent - 75) / 15
+    if (percent >= 50) return 6.5 + (percent - 50) / 25 * 1.5
+    if (percent >= 25) return 5.0 + (percent - 25) / 25 * 1.5
+    if (percent > 0) return 3.0 + percent / 12.5
+    return 3.0
+  }
+}
@@ -0,0 +1,113 @@
+// lib/pulse/popular-times.ts
+
+import { GooglePopularTimesRecord, TypicalWeek, VenueRecord, WeeklyHistogram } from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { PulseCalculator } from './calculations'
+import { GoogleBusynessService } from './services/google-service'
+import { BusynessRefreshScheduler } from './scheduler'
+import { getVenueLocalTime, resolveVenueTimezone } from './time'
+
+const REFRESH_AFTER_MS = 7 * 24 * 60 * 60 * 1000
+
+type StoredHistogram = GooglePopularTimesRecord & { histogram: WeeklyHistogram }
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+/**
+ * Google's typical week per place, stored and refreshed weekly
+ */
+export class PopularTimesService {
+  private repository: PulseRepository
+  private googleService: GoogleBusynessService
+  private scheduler: BusynessRefreshScheduler
+  private calculator: PulseCalculator
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    googleService: GoogleBusynessService = new GoogleBusynessService(repository),
+    scheduler: BusynessRefreshScheduler = new BusynessRefreshScheduler(repository)
+  ) {
+    this.repository = repository
+    this.googleService = googleService
+    this.scheduler = scheduler
+    this.calculator = new PulseCalculator()
+  }
+  
+  /**
+   * Stored histogram, asked for again once a week
+   *
+   * Places Google has no histogram for are remembered too (checked_at), so
+   * they aren't asked about on every call.
+   */
+  async getHistogram(venue: VenueRecord, now: Date = new Date()): Promise<StoredHistogram | null> {
+    if (!venue.google_place_id) return null
+    
+    const stored = await this.repository.getPopularTimes(venue.google_place_id)
+    const checkedAt = stored ? new Date(stored.checked_at ?? stored.fetched_at).getTime() : 0
+    if (stored && now.getTime() - checkedAt <= REFRESH_AFTER_MS) {
+      return withHistogram(stored)
+    }
+    
+    // A SerpAPI fetch stores the histogram as a side effect; the cache TTL
+    // and budget are the scheduler's, as for live busyness
+    const { ttlMs } = await this.scheduler.getPriority(venue, now)
+    const fresh = await this.googleService.getBusyness(
+      venue.google_place_id,
+      resolveVenueTimezone(venue),
+      { maxAgeMs: ttlMs, venueId: venue.id }
+    )
+    if (!fresh) return withHistogram(stored) // Couldn't ask; out of date beats nothing
+    
+    // No histogram in the answer: keep any older one, but note that we asked
+    const record: GooglePopularTimesRecord = {
+      google_place_id: venue.google_place_id,
+      histogram: fresh.popularTimes ?? stored?.histogram ?? null,
+      fetched_at: fresh.popularTimes ? now.toISOString() : stored?.fetched_at ?? now.toISOString(),
+      checked_at: now.toISOString()
+    }
+    await this.repository.upsertPopularTimes(record)
+    return withHistogram(record)
+  }
+  
+  /**
+   * Typical 0-100 busyness for the venue's current local hour
+   */
+  async getTypicalBusyness(venue: VenueRecord, now: Date = new Date()): Promise<number | null> {
+    const record = await this.getHistogram(venue, now)
+    if (!record) return null
+    
+    const localTime = getVenueLocalTime(venue, now)
+    const value = record.histogram[localTime.dayOfWeek]?.[localTime.hour]
+    return typeof value === 'number' ? value : null
+  }
+  
+  /**
+   * The venue's typical week as busyness and pulse curves
+   */
+  async getTypicalWeek(venue: VenueRecord): Promise<TypicalWeek | null> {
+    const record = await this.getHistogram(venue)
+    if (!record) return null
+    
+    return {
+      venueId: venue.id,
+      timezone: resolveVenueTimezone(venue),
+      fetchedAt: record.fetched_at,
+      days: WEEKDAYS.map((dayName, dayOfWeek) => ({
+        dayOfWeek,
+        dayName,
+        hours: Array.from({ length: 24 }, (_, hour) => {
+          const busyness = record.histogram[dayOfWeek]?.[hour] ?? 0
+          return {
+            hour,
+            busyness,
+            pulse: busyness > 0 ? this.calculator.convertGoogleToSpree(busyness) : 0
+          }
+        })
+      }))
+    }
+  }
+}
+
+function withHistogram(record: GooglePopularTimesRecord | null): StoredHistogram | null {
+  return record?.histogram ? record as StoredHistogram : null
+}
@@ -0,0 +1,269 @@
+// lib/pulse/profiles.ts
+
+export type VenueType = 'club' | 'bar' | 'lounge' | 'restaurant' | 'rooftop' | 'daytime'
+
+// Threshold table entry, checked top-down: first `min` reached wins
+export interface ScoreStep {
+  min: number
+  score: number
+}
+
+export interface TimeModifierRule {
+  label: string
+  days?: number[]            // Nightlife days (0 = Sunday), all days if omitted
+  hours: number[]            // Venue local hours
+  modifier: number
+}
+
+export interface ScoringProfile {
+  name: VenueType | 'default'
+  activityThresholds: ScoreStep[] // Active check-ins -> base pulse
+  waitTimeCurve: ScoreStep[]      // Wait minutes -> pulse boost
+  timeModifiers: TimeModifierRule[] // First match wins, 1.0 otherwise
+}
+
+const WEEKEND_NIGHTS = [4, 5, 6] // Thu-Sat
+const DEFAULT_WEEKEND_NIGHTS = [0, 4, 5, 6] // Thu-Sun, as the original check had it
+const WEEKDAYS = [1, 2, 3, 4, 5]
+const WEEKEND_DAYS = [0, 6]
+
+/**
+ * Inclusive hour range, wrapping past midnight (22 -> 2 = 22,23,0,1,2)
+ */
+function hours(start: number, end: number): number[] {
+  const result: number[] = []
+  for (let h = start; h !== (end + 1) % 24; h = (h + 1) % 24) {
+    result.push(h)
+  }
+  return result
+}
+
+// Matches the original hard-coded tables
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'default',
+  activityThresholds: [
+    { min: 100, score: 9.0 },
+    { min: 75, score: 8.5 },
+    { min: 50, score: 8.0 },
+    { min: 30, score: 7.0 },
+    { min: 20, score: 6.5 },
+    { min: 15, score: 6.0 },
+    { min: 10, score: 5.5 },
+    { min: 5, score: 5.0 },
+    { min: 2, score: 4.5 },
+    { min: 1, score: 4.0 },
+    { min: 0, score: 3.0 }
+  ],
+  waitTimeCurve: [
+    { min: 45, score: 2.0 },
+    { min: 30, score: 1.5 },
+    { min: 20, score: 1.0 },
+    { min: 10, score: 0.7 },
+    { min: 5, score: 0.5 }
+  ],
+  timeModifiers: [
+    { label: 'weekend_night', days: DEFAULT_WEEKEND_NIGHTS, hours: hours(22, 2), modifier: 1.15 },
+    { label: 'evening', hours: hours(20, 0), modifier: 1.1 },
+    { label: 'happy_hour', days: WEEKDAYS, hours: hours(17, 19), modifier: 1.05 },
+    { label: 'weekday_late_night', days: [1, 2, 3], hours: hours(23, 1), modifier: 0.9 },
+    { label: 'daytime', hours: hours(6, 16), modifier: 0.7 },
+    { label: 'early_morning', hours: hours(3, 5), modifier: 0.5 }
+  ]
+}
+
+const CLUB_PROFILE: ScoringProfile = {
+  name: 'club',
+  activityThresholds: [
+    { min: 250, score: 9.0 },
+    { min: 180, score: 8.5 },
+    { min: 120, score: 8.0 },
+    { min: 80, score: 7.0 },
+    { min: 50, score: 6.5 },
+    { min: 30, score: 6.0 },
+    { min: 20, score: 5.5 },
+    { min: 10, score: 5.0 },
+    { min: 4, score: 4.5 },
+    { min: 1, score: 4.0 },
+    { min: 0, score: 3.0 }
+  ],
+  waitTimeCurve: [
+    { min: 60, score: 2.0 },
+    { min: 45, score: 1.5 },
+    { min: 30, score: 1.0 },
+    { min: 15, score: 0.5 }
+  ],
+  timeModifiers: [
+    { label: 'peak', days: WEEKEND_NIGHTS, hours: hours(23, 3), modifier: 1.2 },
+    { label: 'weekend_warmup', days: WEEKEND_NIGHTS, hours: hours(21, 22), modifier: 1.0 },
+    { label: 'weeknight', hours: hours(22, 2), modifier: 1.0 },
+    { label: 'early_evening', hours: hours(18, 21), modifier: 0.8 },
+    { label: 'daytime', hours: hours(6, 17), modifier: 0.5 },
+    { label: 'after_hours', hours: hours(3, 5), modifier: 0.6 }
+  ]
+}
+
+const BAR_PROFILE: ScoringProfile = {
+  ...DEFAULT_SCORING_PROFILE,
+  name: 'bar'
+}
+
+const LOUNGE_PROFILE: ScoringProfile = {
+  name: 'lounge',
+  activityThresholds: [
+    { min: 40, score: 9.0 },
+    { min: 30, score: 8.5 },
+    { min: 22, score: 8.0 },
+    { min: 15, score: 7.0 },
+    { min: 10, score: 6.5 },
+    { min: 7, score: 6.0 },
+    { min: 5, score: 5.5 },
+    { min: 3, score: 5.0 },
+    { min: 2, score: 4.5 },
+    { min: 1, score: 4.0 },
+    { min: 0, score: 3.0 }
+  ],
+  waitTimeCurve: [
+    { min: 30, score: 2.0 },
+    { min: 20, score: 1.5 },
+    { min: 10, score: 1.0 },
+    { min: 5, score: 0.5 }
+  ],
+  timeModifiers: [
+    { label: 'weekend_night', days: WEEKEND_NIGHTS, hours: hours(21, 1), modifier: 1.15 },
+    { label: 'evening', hours: hours(19, 0), modifier: 1.1 },
+    { label: 'happy_hour', days: WEEKDAYS, hours: hours(17, 18), modifier: 1.0 },
+    { label: 'late_night', hours: hours(1, 2), modifier: 0.9 },
+    { label: 'daytime', hours: hours(6, 16), modifier: 0.6 },
+    { label: 'early_morning', hours: hours(3, 5), modifier: 0.5 }
+  ]
+}
+
+const RESTAURANT_PROFILE: ScoringProfile = {
+  name: 'restaurant',
+  activityThresholds: [
+    { min: 80, score: 9.0 },
+    { min: 60, score: 8.5 },
+    { min: 40, score: 8.0 },
+    { min: 25, score: 7.0 },
+    { min: 15, score: 6.5 },
+    { min: 10, score: 6.0 },
+    { min: 6, score: 5.5 },
+    { min: 3, score: 5.0 },
+    { min: 2, score: 4.5 },
+    { min: 1, score: 4.0 },
+    { min: 0, score: 3.0 }
+  ],
+  waitTimeCurve: [
+    { min: 60, score: 2.0 },
+    { min: 40, score: 1.5 },
+    { min: 25, score: 1.0 },
+    { min: 15, score: 0.5 }
+  ],
+  timeModifiers: [
+    { label: 'weekend_brunch', days: WEEKEND_DAYS, hours: hours(10, 14), modifier: 1.1 },
+    { label: 'dinner', hours: hours(18, 21), modifier: 1.1 },
+    { label: 'lunch', days: WEEKDAYS, hours: hours(11, 14), modifier: 1.0 },
+    { label: 'afternoon', hours: hours(15, 17), modifier: 0.85 },
+    { label: 'late_night', hours: hours(22, 1), modifier: 0.8 },
+    { label: 'closed_hours', hours: hours(2, 9), modifier: 0.5 }
+  ]
+}
+
+const ROOFTOP_PROFILE: ScoringProfile = {
+  name: 'rooftop',
+  activityThresholds: DEFAULT_SCORING_PROFILE.activityThresholds,
+  waitTimeCurve: DEFAULT_SCORING_PROFILE.waitTimeCurve,
+  timeModifiers: [
+    { label: 'weekend_afternoon', days: WEEKEND_DAYS, hours: hours(13, 16), modifier: 1.05 },
+    { label: 'sunset', hours: hours(17, 21), modifier: 1.1 },
+    { label: 'weekend_night', days: WEEKEND_NIGHTS, hours: hours(22, 1), modifier: 1.1 },
+    { label: 'night', hours: hours(22, 0), modifier: 1.0 },
+    { label: 'daytime', hours: hours(6, 16), modifier: 0.8 },
+    { label: 'late_night', hours: hours(1, 5), modifier: 0.5 }
+  ]
+}
+
+const DAYTIME_PROFILE: ScoringProfile = {
+  name: 'daytime',
+  activityThresholds: RESTAURANT_PROFILE.activityThresholds,
+  waitTimeCurve: [
+    { min: 45, score: 2.0 },
+    { min: 30, score: 1.5 },
+    { min: 15, score: 1.0 },
+    { min: 5, score: 0.5 }
+  ],
+  timeModifiers: [
+    { label: 'weekend_peak', days: WEEKEND_DAYS, hours: hours(10, 15), modifier: 1.15 },
+    { label: 'peak', hours: hours(9, 15), modifier: 1.1 },
+    { label: 'afternoon', hours: hours(16, 19), modifier: 1.0 },
+    { label: 'morning', hours: hours(6, 8), modifier: 0.8 },
+    { label: 'evening', hours: hours(20, 23), modifier: 0.7 },
+    { label: 'overnight', hours: hours(0, 5), modifier: 0.5 }
+  ]
+}
+
+export const SCORING_PROFILES: Record<VenueType, ScoringProfile> = {
+  club: CLUB_PROFILE,
+  bar: BAR_PROFILE,
+  lounge: LOUNGE_PROFILE,
+  restaurant: RESTAURANT_PROFILE,
+  rooftop: ROOFTOP_PROFILE,
+  daytime: DAYTIME_PROFILE
+}
+
+// Free-form venue_type values we see in the venues table
+const VENUE_TYPE_ALIASES: Record<string, VenueType> = {
+  nightclub: 'club',
+  dance_club: 'club',
+  pub: 'bar',
+  dive_bar: 'bar',
+  sports_bar: 'bar',
+  cocktail_bar: 'lounge',
+  cocktail_lounge: 'lounge',
+  speakeasy: 'lounge',
+  wine_bar: 'lounge',
+  rooftop_bar: 'rooftop',
+  brunch: 'daytime',
+  cafe: 'daytime',
+  coffee_shop: 'daytime',
+  beer_garden: 'daytime',
+  daytime_venue: 'daytime'
+}
+
+/**
+ * Normalize VenueRecord.venue_type to a known venue type
+ */
+export function normalizeVenueType(venueType?: string | null): VenueType | null {
+  if (!venueType) return null
+  
+  const key = venueType.trim().toLowerCase().replace(/[\s-]+/g, '_')
+  // Own keys only: free-form input like "constructor" must not hit the prototype
+  if (Object.prototype.hasOwnProperty.call(SCORING_PROFILES, key)) return key as VenueType
+  return Object.prototype.hasOwnProperty.call(VENUE_TYPE_ALIASES, key) ? VENUE_TYPE_ALIASES[key] : null
+}
+
+/**
+ * Whether a venue's type is one of the requested types, after normalizing both
+ * sides; types outside the known set compare as trimmed, lower-cased text
+ */
+export function matchesVenueType(venueType: string | null | undefined, wanted: string[]): boolean {
+  const key = (type?: string | null) => normalizeVenueType(type) ?? type?.trim().toLowerCase() ?? ''
+  const own = key(venueType)
+  return own !== '' && wanted.some(type => key(type) === own)
+}
+
+/**
+ * Get the scoring profile for a venue type (default when unknown)
+ */
+export function getScoringProfile(venueType?: string | null): ScoringProfile {
+  const type = normalizeVenueType(venueType)
+  return type ? SCORING_PROFILES[type] : DEFAULT_SCORING_PROFILE
+}
+
+/**
+ * Look up a threshold table (0 when nothing matches)
+ */
+export function scoreFromSteps(steps: ScoreStep[], value: number): number {
+  const step = steps.find(s => value >= s.min)
+  return step ? step.score : 0
+}
@@ -0,0 +1,331 @@
+// lib/pulse/queue.ts
+
+import {
+  PulseData,
+  PulseUpdateJobRecord,
+  PulseUpdateTrigger
+} from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+
+export interface PulseQueueOptions {
+  debounceMs: number         // Triggers within this window share one job
+  maxAttempts: number        // Then the job is dead-lettered
+  baseBackoffMs: number
+  maxBackoffMs: number
+  lockTimeoutMs: number      // Processing jobs older than this are retried
+}
+
+export const DEFAULT_QUEUE_OPTIONS: PulseQueueOptions = {
+  debounceMs: 30 * 1000,
+  maxAttempts: 5,
+  baseBackoffMs: 30 * 1000,
+  maxBackoffMs: 15 * 60 * 1000,
+  lockTimeoutMs: 5 * 60 * 1000
+}
+
+// Anything that can recalculate and store a venue's pulse
+export interface PulseVenueUpdater {
+  updateVenue(venueId: number, options?: { fallbackOnError?: boolean }): Promise<PulseData>
+}
+
+/**
+ * Persistent, debounced queue of venue pulse updates
+ */
+export class PulseUpdateQueue {
+  private repository: PulseRepository
+  private options: PulseQueueOptions
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    options: Partial<PulseQueueOptions> = {}
+  ) {
+    this.repository = repository
+    this.options = { ...DEFAULT_QUEUE_OPTIONS, ...options }
+  }
+  
+  /**
+   * Queue a venue for update, merging with any pending job
+   */
+  async enqueue(venueId: number, trigger: PulseUpdateTrigger): Promise<PulseUpdateJobRecord> {
+    const now = new Date()
+    const runAt = new Date(now.getTime() + this.options.debounceMs)
+    
+    const pending = await this.repository.findPendingJob(venueId)
+    if (pending) {
+      return this.mergeTriggers(pending, [trigger], runAt)
+    }
+    
+    try {
+      return await this.repository.insertJob({
+        venue_id: venueId,
+        status: 'pending',
+        triggers: [trigger],
+        attempts: 0,
+        run_at: runAt.toISOString(),
+        last_error: null,
+        locked_at: null,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+    } catch (error) {
+      // Lost a race with another enqueue (one pending job per venue)
+      const existing = await this.repository.findPendingJob(venueId)
+      if (!existing) throw error
+      return this.mergeTriggers(existing, [trigger], runAt)
+    }
+  }
+  
+  /**
+   * Claim due jobs for processing
+   */
+  async claimDue(limit: number = 20): Promise<PulseUpdateJobRecord[]> {
+    const now = new Date()
+    await this.releaseStale(now)
+    return this.repository.claimDueJobs(now, limit)
+  }
+  
+  /**
+   * Put jobs whose worker died back on the queue, one at a time
+   *
+   * A venue that got a new pending job meanwhile has the stale one folded in.
+   */
+  async releaseStale(now: Date = new Date()): Promise<number> {
+    const stale = await this.repository.getStaleJobs(new Date(now.getTime() - this.options.lockTimeoutMs))
+    let released = 0
+    
+    for (const job of stale) {
+      try {
+        await this.requeue(job, {
+          status: 'pending',
+          locked_at: null,
+          updated_at: now.toISOString()
+        })
+        released++
+      } catch (error) {
+        console.error(`Failed to release stale pulse update job ${job.id}:`, error)
+      }
+    }
+    
+    return released
+  }
+  
+  /**
+   * Mark a job as done
+   */
+  async complete(job: PulseUpdateJobRecord): Promise<void> {
+    await this.repository.updateJob(job.id, {
+      status: 'done',
+      locked_at: null,
+      updated_at: new Date().toISOString()
+    })
+  }
+  
+  /**
+   * Schedule a retry with backoff, or dead-letter the job
+   */
+  async fail(job: PulseUpdateJobRecord, error: unknown): Promise<void> {
+    const attempts = job.attempts + 1
+    const now = Date.now()
+    const message = error instanceof Error ? error.message : String(error)
+    
+    if (attempts >= this.options.maxAttempts) {
+      await this.repository.updateJob(job.id, {
+        status: 'dead',
+        attempts,
+        last_error: message,
+        locked_at: null,
+        updated_at: new Date(now).toISOString()
+      })
+      return
+    }
+    
+    await this.requeue(job, {
+      status: 'pending',
+      attempts,
+      last_error: message,
+      locked_at: null,
+      run_at: new Date(now + this.getBackoff(attempts)).toISOString(),
+      updated_at: new Date(now).toISOString()
+    })
+  }
+  
+  /**
+   * Jobs that ran out of attempts
+   */
+  async getDeadLetters(limit: number = 50): Promise<PulseUpdateJobRecord[]> {
+    return this.repository.getDeadJobs(limit)
+  }
+  
+  /**
+   * Put a dead-lettered job back on the queue
+   */
+  async retryDeadLetter(job: PulseUpdateJobRecord): Promise<void> {
+    const now = new Date().toISOString()
+    
+    await this.requeue(job, {
+      status: 'pending',
+      attempts: 0,
+      run_at: now,
+      updated_at: now
+    })
+  }
+  
+  /**
+   * Move a job back to pending, or fold it into the venue's pending job
+   *
+   * Only one pending job per venue is allowed, so a trigger that arrived while
+   * this one was out of the queue already holds the slot.
+   */
+  private async requeue(job: PulseUpdateJobRecord, patch: Partial<PulseUpdateJobRecord>): Promise<void> {
+    if (await this.foldIntoPending(job, patch)) return
+    
+    try {
+      await this.repository.updateJob(job.id, patch)
+    } catch (error) {
+      // Lost a race with an enqueue
+      if (!(await this.foldIntoPending(job, patch))) throw error
+    }
+  }
+  
+  private async foldIntoPending(job: PulseUpdateJobRecord, patch: Partial<PulseUpdateJobRecord>): Promise<boolean> {
+    const pending = await this.repository.findPendingJob(job.venue_id)
+    if (!pending || pending.id === job.id) return false
+    
+    await this.mergeTriggers(pending, job.triggers, new Date(patch.run_at ?? Date.now()))
+    await this.repository.updateJob(job.id, {
+      status: 'done',
+      attempts: patch.attempts ?? job.attempts,
+      last_error: patch.last_error ?? job.last_error ?? null,
+      locked_at: null,
+      updated_at: new Date().toISOString()
+    })
+    return true
+  }
+  
+  /**
+   * Exponential backoff with jitter
+   */
+  private getBackoff(attempts: number): number {
+    const exponential = this.options.baseBackoffMs * Math.pow(2, attempts - 1)
+    const jitter = Math.random() * this.options.baseBackoffMs
+    return Math.min(this.options.maxBackoffMs, exponential + jitter)
+  }
+  
+  private async mergeTriggers(
+    job: PulseUpdateJobRecord,
+    triggers: PulseUpdateTrigger[],
+    runAt: Date
+  ): Promise<PulseUpdateJobRecord> {
+    const merged: PulseUpdateJobRecord = {
+      ...job,
+      triggers: [...new Set([...job.triggers, ...triggers])],
+      // Never push an already-debounced job further out
+      run_at: new Date(Math.min(new Date(job.run_at).getTime(), runAt.getTime())).toISOString(),
+      updated_at: new Date().toISOString()
+    }
+    
+    await this.repository.updateJob(job.id, {
+      triggers: merged.triggers,
+      run_at: merged.run_at,
+      updated_at: merged.updated_at
+    })
+    
+    return merged
+  }
+}
+
+/**
+ * Drains the update queue through PulseBatchUpdateService.updateVenue
+ */
+export class PulseUpdateWorker {
+  private queue: PulseUpdateQueue
+  private updater: PulseVenueUpdater
+  private timer: ReturnType<typeof setInterval> | null = null
+  private running = false
+  
+  constructor(queue: PulseUpdateQueue, updater: PulseVenueUpdater) {
+    this.queue = queue
+    this.updater = updater
+  }
+  
+  /**
+   * Process every job that is due right now
+   */
+  async processDue(batchSize: number = 20): Promise<{
+    processed: number
+    succeeded: number
+    failed: number
+  }> {
+    const jobs = await this.queue.claimDue(batchSize)
+    let succeeded = 0
+    
+    await Promise.all(jobs.map(async (job) => {
+      try {
+        await this.updater.updateVenue(job.venue_id, { fallbackOnError: false })
+        await this.queue.complete(job)
+        succeeded++
+      } catch (error) {
+        console.error(`Pulse update job ${job.id} for venue ${job.venue_id} failed:`, error)
+        try {
+          await this.queue.fail(job, error)
+        } catch (failError) {
+          // Still processing; released again once its lock times out
+          console.error(`Could not reschedule pulse update job ${job.id}:`, failError)
+        }
+      }
+    }))
+    
+    return {
+      processed: jobs.length,
+      succeeded,
+      failed: jobs.length - succeeded
+    }
+  }
+  
+  /**
+   * Poll the queue on an interval
+   */
+  start(intervalMs: number = 10 * 1000) {
+    if (this.timer) return
+    
+    this.timer = setInterval(async () => {
+      if (this.running) return // Previous tick still working
+      this.running = true
+      try {
+        await this.processDue()
+      } catch (error) {
+        console.error('Pulse update worker tick failed:', error)
+      } finally {
+        this.running = false
+      }
+    }, intervalMs)
+  }
+  
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+// Database tables needed:
+export const PULSE_QUEUE_SQL = `
+CREATE TABLE IF NOT EXISTS pulse_update_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id INTEGER REFERENCES venues(id) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'dead')),
+  triggers TEXT[] NOT NULL DEFAULT '{}',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  locked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One pending job per venue, so triggers merge instead of piling up
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pulse_jobs_one_pending
+  ON pulse_update_jobs(venue_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_pulse_jobs_due ON pulse_update_jobs(status, run_at);
+`
@@ -0,0 +1,8 @@
+// lib/pulse/repository/index.ts
+
+export * from './types'
+export { SupabasePulseRepository } from './supabase-repository'
+export { InMemoryPulseRepository } from './memory-repository'
+export type { InMemoryTables } from './memory-repository'
+export { PulseSnapshotRepository, DEFAULT_SNAPSHOT_WINDOWS, PULSE_BULK_SQL } from './snapshot-repository'
+export type { SnapshotWindows } from './snapshot-repository'
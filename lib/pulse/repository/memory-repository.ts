@@ -0,0 +1,732 @@
+// lib/pulse/repository/memory-repository.ts
+
+import {
+  AlertNotificationRecord,
+  AlertNotificationStatus,
+  AnonymousPingRecord,
+  BusynessApiCallRecord,
+  CheckInRecord,
+  DwellModelRecord,
+  EventRecord,
+  GeoBounds,
+  GoogleBusynessCacheRecord,
+  GoogleBusynessLogRecord,
+  GooglePopularTimesRecord,
+  PulseAlertRecord,
+  PulseCalculationLogRecord,
+  PulseEventDeliveryRecord,
+  PulseHistoryRecord,
+  PulseUpdateJobRecord,
+  PulseWebhookRecord,
+  ReportFlagRecord,
+  ReportFlagStatus,
+  ReporterFirstSeenRecord,
+  ReporterReputationRecord,
+  ReporterType,
+  VenueBaselineRecord,
+  VenueHoursExceptionRecord,
+  SocialSignalRecord,
+  UserPointsRecord,
+  UserRecord,
+  VenuePulseBulkUpdate,
+  VenuePulseUpdate,
+  VenueRatingRecord,
+  VenueRecord,
+  VenueStatusLogRecord,
+  VenueViewCount,
+  VenueViewRecord,
+  VibeReportRecord
+} from '../types'
+import { PulseRepository } from './types'
+
+export interface InMemoryTables {
+  venues: VenueRecord[]
+  venue_hours_exceptions: VenueHoursExceptionRecord[]
+  checkins: CheckInRecord[]
+  venue_status_logs: VenueStatusLogRecord[]
+  venue_ratings: VenueRatingRecord[]
+  events: EventRecord[]
+  community_vibe_reports: VibeReportRecord[]
+  anonymous_pings: AnonymousPingRecord[]
+  social_signals: SocialSignalRecord[]
+  users: UserRecord[]
+  user_points: UserPointsRecord[]
+  pulse_history: PulseHistoryRecord[]
+  pulse_calculations_log: PulseCalculationLogRecord[]
+  google_busyness_cache: GoogleBusynessCacheRecord[]
+  google_busyness_log: GoogleBusynessLogRecord[]
+  google_popular_times: GooglePopularTimesRecord[]
+  pulse_update_jobs: PulseUpdateJobRecord[]
+  pulse_webhooks: PulseWebhookRecord[]
+  pulse_event_deliveries: PulseEventDeliveryRecord[]
+  pulse_alerts: PulseAlertRecord[]
+  alert_notifications: AlertNotificationRecord[]
+  venue_hourly_baselines: VenueBaselineRecord[]
+  venue_dwell_models: DwellModelRecord[]
+  reporter_reputation: ReporterReputationRecord[]
+  community_report_flags: ReportFlagRecord[]
+  busyness_api_calls: BusynessApiCallRecord[]
+  venue_views: VenueViewRecord[]
+}
+
+/**
+ * Repository backed by plain arrays, for local dev and tests
+ */
+export class InMemoryPulseRepository implements PulseRepository {
+  readonly tables: InMemoryTables
+  private nextId = 1
+  
+  constructor(seed: Partial<InMemoryTables> = {}) {
+    this.tables = {
+      venues: [],
+      venue_hours_exceptions: [],
+      checkins: [],
+      venue_status_logs: [],
+      venue_ratings: [],
+      events: [],
+      community_vibe_reports: [],
+      anonymous_pings: [],
+      social_signals: [],
+      users: [],
+      user_points: [],
+      pulse_history: [],
+      pulse_calculations_log: [],
+      google_busyness_cache: [],
+      google_busyness_log: [],
+      google_popular_times: [],
+      pulse_update_jobs: [],
+      pulse_webhooks: [],
+      pulse_event_deliveries: [],
+      pulse_alerts: [],
+      alert_notifications: [],
+      venue_hourly_baselines: [],
+      venue_dwell_models: [],
+      reporter_reputation: [],
+      community_report_flags: [],
+      busyness_api_calls: [],
+      venue_views: [],
+      ...seed
+    }
+  }
+  
+  // Venues
+  
+  async getVenue(venueId: number): Promise<VenueRecord | null> {
+    return this.tables.venues.find(v => v.id === venueId) || null
+  }
+  
+  async getActiveVenues(): Promise<VenueRecord[]> {
+    return this.tables.venues
+      .filter(v => v.is_active !== false)
+      .sort((a, b) => Number(b.spree_onboarded) - Number(a.spree_onboarded))
+  }
+  
+  async getActiveVenuesInBounds(bounds: GeoBounds, pulseUpdatedSince: Date): Promise<VenueRecord[]> {
+    return this.tables.venues
+      .filter(v =>
+        v.is_active !== false &&
+        typeof v.lat === 'number' && typeof v.lng === 'number' &&
+        v.lat >= bounds.south && v.lat <= bounds.north &&
+        v.lng >= bounds.west && v.lng <= bounds.east &&
+        (v.pulse_status === 'closed' ||
+          (!!v.pulse_updated_at && new Date(v.pulse_updated_at).getTime() >= pulseUpdatedSince.getTime()))
+      )
+      .sort((a, b) => a.id - b.id)
+  }
+  
+  async updateVenuePulse(venueId: number, update: VenuePulseUpdate): Promise<void> {
+    const venue = this.tables.venues.find(v => v.id === venueId)
+    if (venue) {
+      Object.assign(venue, update)
+    }
+  }
+  
+  async updateVenuePulses(updates: VenuePulseBulkUpdate[]): Promise<void> {
+    updates.forEach(({ venue_id, ...update }) => {
+      const venue = this.tables.venues.find(v => v.id === venue_id)
+      if (venue) {
+        Object.assign(venue, update)
+      }
+    })
+  }
+  
+  // Opening hours
+  
+  async getHoursExceptions(venueId: number, fromDate: string, toDate: string): Promise<VenueHoursExceptionRecord[]> {
+    return this.tables.venue_hours_exceptions.filter(e =>
+      e.venue_id === venueId && e.date >= fromDate && e.date <= toDate
+    )
+  }
+  
+  async insertHoursException(entry: VenueHoursExceptionRecord): Promise<VenueHoursExceptionRecord> {
+    const record = { id: this.generateId(), created_at: new Date().toISOString(), ...entry }
+    this.tables.venue_hours_exceptions.push(record)
+    return record
+  }
+  
+  async deleteHoursException(exceptionId: string): Promise<void> {
+    this.tables.venue_hours_exceptions = this.tables.venue_hours_exceptions.filter(e => e.id !== exceptionId)
+  }
+  
+  async getHoursExceptionsForVenues(venueIds: number[], fromDate: string, toDate: string): Promise<VenueHoursExceptionRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.venue_hours_exceptions.filter(e =>
+      ids.has(e.venue_id) && e.date >= fromDate && e.date <= toDate
+    )
+  }
+  
+  // Activity
+  
+  async getCheckIns(venueId: number, since: Date): Promise<CheckInRecord[]> {
+    return this.tables.checkins.filter(c =>
+      c.venue_id === venueId && isAtOrAfter(c.created_at, since)
+    )
+  }
+  
+  async getLatestStatusLog(venueId: number, since: Date): Promise<VenueStatusLogRecord | null> {
+    const logs = this.tables.venue_status_logs
+      .filter(l => l.venue_id === venueId && isAtOrAfter(l.created_at, since))
+      .sort((a, b) => toTime(b.created_at) - toTime(a.created_at))
+    
+    return logs[0] || null
+  }
+  
+  async getRatings(venueId: number, since: Date): Promise<VenueRatingRecord[]> {
+    return this.tables.venue_ratings.filter(r =>
+      r.venue_id === venueId && isAtOrAfter(r.created_at, since)
+    )
+  }
+  
+  async getEventsStartingBetween(venueId: number, from: Date, to: Date): Promise<EventRecord[]> {
+    return this.tables.events.filter(e =>
+      e.venue_id === venueId &&
+      isAtOrAfter(e.starts_at, from) &&
+      toTime(e.starts_at) <= to.getTime()
+    )
+  }
+  
+  async getCheckInsForVenues(venueIds: number[], since: Date): Promise<CheckInRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.checkins.filter(c => ids.has(c.venue_id) && isAtOrAfter(c.created_at, since))
+  }
+  
+  async getStatusLogsForVenues(venueIds: number[], since: Date): Promise<VenueStatusLogRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.venue_status_logs.filter(l => ids.has(l.venue_id) && isAtOrAfter(l.created_at, since))
+  }
+  
+  async getRatingsForVenues(venueIds: number[], since: Date): Promise<VenueRatingRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.venue_ratings.filter(r => ids.has(r.venue_id) && isAtOrAfter(r.created_at, since))
+  }
+  
+  async getEventsForVenues(venueIds: number[], from: Date, to: Date): Promise<EventRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.events.filter(e =>
+      ids.has(e.venue_id) &&
+      isAtOrAfter(e.starts_at, from) &&
+      toTime(e.starts_at) <= to.getTime()
+    )
+  }
+  
+  async getCompletedCheckInsForVenues(venueIds: number[], since: Date): Promise<CheckInRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.checkins.filter(c =>
+      ids.has(c.venue_id) && !!c.checked_out_at && !c.auto_checked_out && isAtOrAfter(c.created_at, since)
+    )
+  }
+  
+  async getOpenCheckIns(createdBefore: Date, limit: number): Promise<CheckInRecord[]> {
+    return this.tables.checkins
+      .filter(c => !c.checked_out_at && toTime(c.created_at) < createdBefore.getTime())
+      .sort((a, b) => toTime(a.created_at) - toTime(b.created_at))
+      .slice(0, limit)
+  }
+  
+  async autoCheckOut(checkIns: Array<{ id: number, checked_out_at: string }>): Promise<void> {
+    checkIns.forEach(({ id, checked_out_at }) => {
+      const checkIn = this.tables.checkins.find(c => c.id === id)
+      if (checkIn && !checkIn.checked_out_at) {
+        checkIn.checked_out_at = checked_out_at
+        checkIn.auto_checked_out = true
+      }
+    })
+  }
+  
+  // Community
+  
+  async hasRecentVibeReport(venueId: number, userId: string, since: Date): Promise<boolean> {
+    return this.tables.community_vibe_reports.some(r =>
+      r.venue_id === venueId && r.user_id === userId && isAtOrAfter(r.created_at, since)
+    )
+  }
+  
+  async insertVibeReport(report: VibeReportRecord): Promise<void> {
+    this.tables.community_vibe_reports.push({ id: this.generateId(), ...report })
+  }
+  
+  async getVibeReports(venueId: number, since: Date): Promise<VibeReportRecord[]> {
+    return this.tables.community_vibe_reports.filter(r =>
+      r.venue_id === venueId && isAtOrAfter(r.created_at, since)
+    )
+  }
+  
+  async countVibeReports(venueId: number, since: Date): Promise<number> {
+    return (await this.getVibeReports(venueId, since)).length
+  }
+  
+  async hasRecentPing(venueId: number, deviceId: string, since: Date): Promise<boolean> {
+    return this.tables.anonymous_pings.some(p =>
+      p.venue_id === venueId && p.device_id === deviceId && isAtOrAfter(p.created_at, since)
+    )
+  }
+  
+  async insertPing(ping: AnonymousPingRecord): Promise<void> {
+    this.tables.anonymous_pings.push({ id: this.generateId(), ...ping })
+  }
+  
+  async getPings(venueId: number, since: Date): Promise<AnonymousPingRecord[]> {
+    return this.tables.anonymous_pings.filter(p =>
+      p.venue_id === venueId && isAtOrAfter(p.created_at, since)
+    )
+  }
+  
+  async countPings(venueId: number, since: Date): Promise<number> {
+    return (await this.getPings(venueId, since)).length
+  }
+  
+  async getSocialSignals(venueId: number, since: Date): Promise<SocialSignalRecord[]> {
+    return this.tables.social_signals.filter(s =>
+      s.venue_id === venueId && isAtOrAfter(s.created_at, since)
+    )
+  }
+  
+  async insertUserPoints(entry: UserPointsRecord): Promise<void> {
+    this.tables.user_points.push(entry)
+  }
+  
+  async getVibeReportsForVenues(venueIds: number[], since: Date): Promise<VibeReportRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.community_vibe_reports.filter(r => ids.has(r.venue_id) && isAtOrAfter(r.created_at, since))
+  }
+  
+  async getPingsForVenues(venueIds: number[], since: Date): Promise<AnonymousPingRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.anonymous_pings.filter(p => ids.has(p.venue_id) && isAtOrAfter(p.created_at, since))
+  }
+  
+  async getSocialSignalsForVenues(venueIds: number[], since: Date): Promise<SocialSignalRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.social_signals.filter(s => ids.has(s.venue_id) && isAtOrAfter(s.created_at, since))
+  }
+  
+  // Pulse logs
+  
+  async insertPulseHistory(entry: PulseHistoryRecord): Promise<void> {
+    this.tables.pulse_history.push({ created_at: new Date().toISOString(), ...entry })
+  }
+  
+  async getPulseHistory(venueId: number, since: Date): Promise<PulseHistoryRecord[]> {
+    return this.tables.pulse_history
+      .filter(h => h.venue_id === venueId && !!h.created_at && isAtOrAfter(h.created_at, since))
+      .sort((a, b) => toTime(a.created_at!) - toTime(b.created_at!))
+  }
+  
+  async insertCalculationLog(entry: PulseCalculationLogRecord): Promise<void> {
+    this.tables.pulse_calculations_log.push({ created_at: new Date().toISOString(), ...entry })
+  }
+  
+  async insertGoogleBusynessLog(entry: GoogleBusynessLogRecord): Promise<void> {
+    this.tables.google_busyness_log.push(entry)
+  }
+  
+  async getPulseHistoryForVenues(venueIds: number[], since: Date): Promise<PulseHistoryRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.pulse_history
+      .filter(h => ids.has(h.venue_id) && !!h.created_at && isAtOrAfter(h.created_at, since))
+      .sort((a, b) => toTime(a.created_at!) - toTime(b.created_at!))
+  }
+  
+  async insertPulseHistoryBatch(entries: PulseHistoryRecord[]): Promise<void> {
+    const createdAt = new Date().toISOString()
+    this.tables.pulse_history.push(...entries.map(entry => ({ created_at: createdAt, ...entry })))
+  }
+  
+  async insertCalculationLogs(entries: PulseCalculationLogRecord[]): Promise<void> {
+    const createdAt = new Date().toISOString()
+    this.tables.pulse_calculations_log.push(...entries.map(entry => ({ created_at: createdAt, ...entry })))
+  }
+  
+  // Google cache
+  
+  async getGoogleCache(placeId: string): Promise<GoogleBusynessCacheRecord | null> {
+    return this.tables.google_busyness_cache.find(c => c.google_place_id === placeId) || null
+  }
+  
+  async upsertGoogleCache(record: GoogleBusynessCacheRecord): Promise<void> {
+    const cache = this.tables.google_busyness_cache
+    const index = cache.findIndex(c => c.google_place_id === record.google_place_id)
+    if (index >= 0) {
+      cache[index] = record
+    } else {
+      cache.push(record)
+    }
+  }
+  
+  async getGoogleCacheForPlaces(placeIds: string[]): Promise<GoogleBusynessCacheRecord[]> {
+    const ids = new Set(placeIds)
+    return this.tables.google_busyness_cache.filter(c => ids.has(c.google_place_id))
+  }
+  
+  async getPopularTimes(placeId: string): Promise<GooglePopularTimesRecord | null> {
+    return this.tables.google_popular_times.find(p => p.google_place_id === placeId) || null
+  }
+  
+  async upsertPopularTimes(record: GooglePopularTimesRecord): Promise<void> {
+    const table = this.tables.google_popular_times
+    const index = table.findIndex(p => p.google_place_id === record.google_place_id)
+    if (index >= 0) {
+      table[index] = record
+    } else {
+      table.push(record)
+    }
+  }
+  
+  async getPopularTimesForPlaces(placeIds: string[]): Promise<GooglePopularTimesRecord[]> {
+    const ids = new Set(placeIds)
+    return this.tables.google_popular_times.filter(p => ids.has(p.google_place_id))
+  }
+  
+  // Update queue
+  
+  async findPendingJob(venueId: number): Promise<PulseUpdateJobRecord | null> {
+    return this.tables.pulse_update_jobs.find(j =>
+      j.venue_id === venueId && j.status === 'pending'
+    ) || null
+  }
+  
+  async insertJob(job: Omit<PulseUpdateJobRecord, 'id'>): Promise<PulseUpdateJobRecord> {
+    this.assertOnePending(job.venue_id, job.status)
+    const record = { id: this.generateId(), ...job }
+    this.tables.pulse_update_jobs.push(record)
+    return { ...record }
+  }
+  
+  async updateJob(jobId: string, patch: Partial<PulseUpdateJobRecord>): Promise<void> {
+    const job = this.tables.pulse_update_jobs.find(j => j.id === jobId)
+    if (job) {
+      if (job.status !== 'pending') this.assertOnePending(job.venue_id, patch.status)
+      Object.assign(job, patch)
+    }
+  }
+  
+  async claimDueJobs(now: Date, limit: number): Promise<PulseUpdateJobRecord[]> {
+    const due = this.tables.pulse_update_jobs
+      .filter(j => j.status === 'pending' && toTime(j.run_at) <= now.getTime())
+      .sort((a, b) => toTime(a.run_at) - toTime(b.run_at))
+      .slice(0, limit)
+    
+    due.forEach(job => {
+      job.status = 'processing'
+      job.locked_at = now.toISOString()
+      job.updated_at = now.toISOString()
+    })
+    
+    return due.map(job => ({ ...job }))
+  }
+  
+  async getStaleJobs(lockedBefore: Date): Promise<PulseUpdateJobRecord[]> {
+    return this.tables.pulse_update_jobs
+      .filter(j => j.status === 'processing' && !!j.locked_at && toTime(j.locked_at) < lockedBefore.getTime())
+      .sort((a, b) => toTime(a.locked_at!) - toTime(b.locked_at!))
+      .map(j => ({ ...j }))
+  }
+  
+  async getDeadJobs(limit: number): Promise<PulseUpdateJobRecord[]> {
+    return this.tables.pulse_update_jobs
+      .filter(j => j.status === 'dead')
+      .sort((a, b) => toTime(b.updated_at) - toTime(a.updated_at))
+      .slice(0, limit)
+  }
+  
+  // Pulse events
+  
+  async getActiveWebhooks(): Promise<PulseWebhookRecord[]> {
+    return this.tables.pulse_webhooks.filter(w => w.active)
+  }
+  
+  async getWebhook(webhookId: string): Promise<PulseWebhookRecord | null> {
+    return this.tables.pulse_webhooks.find(w => w.id === webhookId) || null
+  }
+  
+  async insertWebhook(webhook: Omit<PulseWebhookRecord, 'id'>): Promise<PulseWebhookRecord> {
+    const record = { id: this.generateId(), ...webhook }
+    this.tables.pulse_webhooks.push(record)
+    return { ...record }
+  }
+  
+  async updateWebhook(webhookId: string, patch: Partial<PulseWebhookRecord>): Promise<void> {
+    const webhook = this.tables.pulse_webhooks.find(w => w.id === webhookId)
+    if (webhook) {
+      Object.assign(webhook, patch)
+    }
+  }
+  
+  async insertEventDeliveries(deliveries: Omit<PulseEventDeliveryRecord, 'id'>[]): Promise<PulseEventDeliveryRecord[]> {
+    const records = deliveries.map(delivery => ({ id: this.generateId(), ...delivery }))
+    this.tables.pulse_event_deliveries.push(...records)
+    return records.map(record => ({ ...record }))
+  }
+  
+  async updateEventDelivery(deliveryId: string, patch: Partial<PulseEventDeliveryRecord>): Promise<void> {
+    const delivery = this.tables.pulse_event_deliveries.find(d => d.id === deliveryId)
+    if (delivery) {
+      Object.assign(delivery, patch)
+    }
+  }
+  
+  async claimDueEventDeliveries(now: Date, limit: number, leaseUntil: Date): Promise<PulseEventDeliveryRecord[]> {
+    const due = this.tables.pulse_event_deliveries
+      .filter(d => d.status === 'pending' && toTime(d.next_attempt_at) <= now.getTime())
+      .sort((a, b) => toTime(a.next_attempt_at) - toTime(b.next_attempt_at))
+      .slice(0, limit)
+    
+    const claimed = due.map(d => ({ ...d }))
+    due.forEach(d => {
+      d.next_attempt_at = leaseUntil.toISOString()
+    })
+    return claimed
+  }
+  
+  async getEventDeliveries(webhookId: string, limit: number): Promise<PulseEventDeliveryRecord[]> {
+    return this.tables.pulse_event_deliveries
+      .filter(d => d.webhook_id === webhookId)
+      .sort((a, b) => toTime(b.created_at) - toTime(a.created_at))
+      .slice(0, limit)
+      .map(d => ({ ...d }))
+  }
+  
+  // Alerts
+  
+  async insertAlert(alert: Omit<PulseAlertRecord, 'id'>): Promise<PulseAlertRecord> {
+    const record = { id: this.generateId(), ...alert }
+    this.tables.pulse_alerts.push(record)
+    return { ...record }
+  }
+  
+  async updateAlert(alertId: string, patch: Partial<PulseAlertRecord>): Promise<void> {
+    const alert = this.tables.pulse_alerts.find(a => a.id === alertId)
+    if (alert) {
+      Object.assign(alert, patch)
+    }
+  }
+  
+  async getUserAlerts(userId: string): Promise<PulseAlertRecord[]> {
+    return this.tables.pulse_alerts.filter(a => a.user_id === userId)
+  }
+  
+  async getActiveVenueAlerts(venueIds: number[]): Promise<PulseAlertRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.pulse_alerts.filter(a =>
+      a.active && typeof a.venue_id === 'number' && ids.has(a.venue_id)
+    )
+  }
+  
+  async getActiveAreaAlerts(): Promise<PulseAlertRecord[]> {
+    return this.tables.pulse_alerts.filter(a => a.active && typeof a.area_radius_m === 'number')
+  }
+  
+  async insertAlertNotifications(entries: Omit<AlertNotificationRecord, 'id'>[]): Promise<AlertNotificationRecord[]> {
+    const inserted: AlertNotificationRecord[] = []
+    for (const entry of entries) {
+      const exists = this.tables.alert_notifications.some(n =>
+        n.alert_id === entry.alert_id && n.nightlife_date === entry.nightlife_date
+      )
+      if (exists) continue
+      
+      const record = { id: this.generateId(), ...entry }
+      this.tables.alert_notifications.push(record)
+      inserted.push({ ...record })
+    }
+    return inserted
+  }
+  
+  async getPendingAlertNotifications(limit: number): Promise<AlertNotificationRecord[]> {
+    return this.tables.alert_notifications
+      .filter(n => n.status === 'pending')
+      .sort((a, b) => toTime(a.created_at) - toTime(b.created_at))
+      .slice(0, limit)
+      .map(n => ({ ...n }))
+  }
+  
+  async updateAlertNotifications(notificationIds: string[], status: AlertNotificationStatus, sentAt: string | null): Promise<void> {
+    const ids = new Set(notificationIds)
+    this.tables.alert_notifications
+      .filter(n => ids.has(n.id))
+      .forEach(n => {
+        n.status = status
+        n.sent_at = sentAt
+      })
+  }
+  
+  // Baselines
+  
+  async getVenueBaselines(venueId: number): Promise<VenueBaselineRecord[]> {
+    return this.tables.venue_hourly_baselines.filter(b => b.venue_id === venueId)
+  }
+  
+  async replaceVenueBaselines(venueId: number, records: VenueBaselineRecord[], learnedAt: string): Promise<void> {
+    this.tables.venue_hourly_baselines = this.tables.venue_hourly_baselines
+      .filter(b => b.venue_id !== venueId)
+      .concat(records)
+    
+    const venue = this.tables.venues.find(v => v.id === venueId)
+    if (venue) {
+      venue.baseline_learned_at = learnedAt
+    }
+  }
+  
+  async getVenueBaselinesForVenues(venueIds: number[], hoursOfWeek: number[]): Promise<VenueBaselineRecord[]> {
+    const ids = new Set(venueIds)
+    const hours = new Set(hoursOfWeek)
+    return this.tables.venue_hourly_baselines.filter(b =>
+      ids.has(b.venue_id) && hours.has(b.hour_of_week)
+    )
+  }
+  
+  // Dwell models
+  
+  async getDwellModels(): Promise<DwellModelRecord[]> {
+    return this.tables.venue_dwell_models
+  }
+  
+  async upsertDwellModels(records: DwellModelRecord[]): Promise<void> {
+    records.forEach(record => {
+      this.tables.venue_dwell_models = this.tables.venue_dwell_models
+        .filter(m => m.scope !== record.scope || m.scope_key !== record.scope_key)
+        .concat(record)
+    })
+  }
+  
+  // Reputation
+  
+  async getReputations(type: ReporterType, reporterIds: string[]): Promise<ReporterReputationRecord[]> {
+    return this.tables.reporter_reputation.filter(r =>
+      r.reporter_type === type && reporterIds.includes(r.reporter_id)
+    )
+  }
+  
+  async upsertReputations(records: ReporterReputationRecord[]): Promise<void> {
+    const table = this.tables.reporter_reputation
+    records.forEach(record => {
+      const index = table.findIndex(r =>
+        r.reporter_type === record.reporter_type && r.reporter_id === record.reporter_id
+      )
+      if (index >= 0) {
+        table[index] = record
+      } else {
+        table.push(record)
+      }
+    })
+  }
+  
+  async getReporterFirstSeen(type: ReporterType, reporterIds: string[]): Promise<ReporterFirstSeenRecord[]> {
+    if (type === 'user') {
+      return this.tables.users
+        .filter(u => reporterIds.includes(u.id))
+        .map(u => ({ reporter_id: u.id, first_seen_at: u.created_at }))
+    }
+    
+    const firstSeen = new Map<string, string>()
+    this.tables.anonymous_pings
+      .filter(p => reporterIds.includes(p.device_id))
+      .forEach(p => {
+        const seen = firstSeen.get(p.device_id)
+        if (!seen || new Date(p.created_at) < new Date(seen)) firstSeen.set(p.device_id, p.created_at)
+      })
+    return Array.from(firstSeen, ([reporter_id, first_seen_at]) => ({ reporter_id, first_seen_at }))
+  }
+  
+  // Report flags
+  
+  async getReportFlags(venueId: number, since: Date): Promise<ReportFlagRecord[]> {
+    return this.tables.community_report_flags.filter(f =>
+      f.venue_id === venueId && isAtOrAfter(f.created_at, since)
+    )
+  }
+  
+  async getReportFlagsForVenues(venueIds: number[], since: Date): Promise<ReportFlagRecord[]> {
+    const ids = new Set(venueIds)
+    return this.tables.community_report_flags.filter(f => ids.has(f.venue_id) && isAtOrAfter(f.created_at, since))
+  }
+  
+  async insertReportFlags(flags: Omit<ReportFlagRecord, 'id'>[]): Promise<void> {
+    flags.forEach(flag => {
+      this.tables.community_report_flags.push({ id: this.generateId(), ...flag })
+    })
+  }
+  
+  async getReportFlagsByStatus(status: ReportFlagStatus, limit: number): Promise<ReportFlagRecord[]> {
+    return this.tables.community_report_flags
+      .filter(f => f.status === status)
+      .sort((a, b) => toTime(b.created_at) - toTime(a.created_at))
+      .slice(0, limit)
+  }
+  
+  async updateReportFlag(flagId: string, patch: Partial<ReportFlagRecord>): Promise<void> {
+    const flag = this.tables.community_report_flags.find(f => f.id === flagId)
+    if (flag) {
+      Object.assign(flag, patch)
+    }
+  }
+  
+  // Usage
+  
+  async recordApiCall(entry: BusynessApiCallRecord): Promise<void> {
+    this.tables.busyness_api_calls.push(entry)
+  }
+  
+  async countApiCalls(provider: string, since: Date): Promise<number> {
+    return this.tables.busyness_api_calls.filter(c =>
+      c.provider === provider && isAtOrAfter(c.called_at, since)
+    ).length
+  }
+  
+  async recordVenueView(entry: VenueViewRecord): Promise<void> {
+    this.tables.venue_views.push(entry)
+  }
+  
+  async countVenueViews(venueId: number, since: Date): Promise<number> {
+    return this.tables.venue_views.filter(v =>
+      v.venue_id === venueId && isAtOrAfter(v.viewed_at, since)
+    ).length
+  }
+  
+  async countVenueViewsForVenues(venueIds: number[], since: Date): Promise<VenueViewCount[]> {
+    const counts = new Map<number, number>()
+    this.tables.venue_views
+      .filter(v => venueIds.includes(v.venue_id) && isAtOrAfter(v.viewed_at, since))
+      .forEach(v => counts.set(v.venue_id, (counts.get(v.venue_id) || 0) + 1))
+    return Array.from(counts, ([venue_id, views]) => ({ venue_id, views }))
+  }
+  
+  // Mirrors the idx_pulse_jobs_one_pending unique index
+  private assertOnePending(venueId: number, status?: PulseUpdateJobRecord['status']) {
+    if (status !== 'pending') return
+    if (this.tables.pulse_update_jobs.some(j => j.venue_id === venueId && j.status === 'pending')) {
+      throw new Error(`Venue ${venueId} already has a pending pulse update job`)
+    }
+  }
+  
+  private generateId(): string {
+    return `mem-${this.nextId++}`
+  }
+}
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime()
+}
+
+function isAtOrAfter(timestamp: string, since: Date): boolean {
+  return toTime(timestamp) >= since.getTime()
+}
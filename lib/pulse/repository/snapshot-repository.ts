@@ -0,0 +1,708 @@
+// lib/pulse/repository/snapshot-repository.ts
+
+import {
+  AlertNotificationRecord,
+  AlertNotificationStatus,
+  AnonymousPingRecord,
+  BusynessApiCallRecord,
+  CheckInRecord,
+  DwellModelRecord,
+  EventRecord,
+  GeoBounds,
+  GoogleBusynessCacheRecord,
+  GoogleBusynessLogRecord,
+  GooglePopularTimesRecord,
+  PulseAlertRecord,
+  PulseCalculationLogRecord,
+  PulseEventDeliveryRecord,
+  PulseHistoryRecord,
+  PulseUpdateJobRecord,
+  PulseWebhookRecord,
+  ReportFlagRecord,
+  ReportFlagStatus,
+  ReporterFirstSeenRecord,
+  ReporterReputationRecord,
+  ReporterType,
+  VenueBaselineRecord,
+  VenueHoursExceptionRecord,
+  SocialSignalRecord,
+  UserPointsRecord,
+  VenuePulseBulkUpdate,
+  VenuePulseUpdate,
+  VenueRatingRecord,
+  VenueRecord,
+  VenueStatusLogRecord,
+  VenueViewCount,
+  VenueViewRecord,
+  VibeReportRecord
+} from '../types'
+import { PulseRepository } from './types'
+import { getVenueLocalTime, hourOfWeek } from '../time'
+import { besttimeCacheKey } from '../services/besttime-service'
+import { BASELINE_LOOKBACK_MS, isBaselineDue } from '../baseline'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface SnapshotWindows {
+  lookbackMs: number         // Covers every "since" the engine asks for
+  eventsAheadMs: number
+  viewsWindowMs: number      // View counts can't be cut later, so only this exact window is served
+}
+
+// Engine reads go back at most 6h (check-ins for dwell) and look 4h ahead (events);
+// the scheduler counts views over the last 24h
+export const DEFAULT_SNAPSHOT_WINDOWS: SnapshotWindows = {
+  lookbackMs: 6 * HOUR_MS,
+  eventsAheadMs: 6 * HOUR_MS,
+  viewsWindowMs: 24 * HOUR_MS
+}
+
+function groupByVenue<T extends { venue_id: number }>(rows: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>()
+  rows.forEach(row => {
+    const group = groups.get(row.venue_id)
+    if (group) group.push(row)
+    else groups.set(row.venue_id, [row])
+  })
+  return groups
+}
+
+function since<T>(rows: T[] | undefined, time: (row: T) => string, from: Date): T[] {
+  return (rows || []).filter(row => new Date(time(row)).getTime() >= from.getTime())
+}
+
+/**
+ * Batch-run view of a repository: per-venue reads come from data loaded in a
+ * few set-based queries, and pulse writes are buffered until `flush()`
+ *
+ * The engine runs unchanged on top of it, so results match the per-venue path.
+ * Anything outside the loaded venues or windows falls through to the base.
+ */
+export class PulseSnapshotRepository implements PulseRepository {
+  private base: PulseRepository
+  private windowStart: Date
+  private eventsUntil: Date
+  private exceptionDates: { from: string, to: string }
+  private venues: Map<number, VenueRecord>
+  private relearnSince: Date
+  private relearnVenues = new Set<number>() // Baselines due: history and check-ins loaded back to relearnSince
+  
+  private checkIns = new Map<number, CheckInRecord[]>()
+  private statusLogs = new Map<number, VenueStatusLogRecord[]>()
+  private ratings = new Map<number, VenueRatingRecord[]>()
+  private events = new Map<number, EventRecord[]>()
+  private vibeReports = new Map<number, VibeReportRecord[]>()
+  private pings = new Map<number, AnonymousPingRecord[]>()
+  private socialSignals = new Map<number, SocialSignalRecord[]>()
+  private reportFlags = new Map<number, ReportFlagRecord[]>()
+  private pulseHistory = new Map<number, PulseHistoryRecord[]>()
+  private hoursExceptions = new Map<number, VenueHoursExceptionRecord[]>()
+  private reputations: Record<ReporterType, Map<string, ReporterReputationRecord | null>> = {
+    user: new Map(),
+    device: new Map()
+  }
+  private baselines = new Map<number, VenueBaselineRecord[]>()
+  private baselineHours = new Set<number>()
+  private googleCache = new Map<string, GoogleBusynessCacheRecord | null>()
+  private popularTimes = new Map<string, GooglePopularTimesRecord | null>()
+  private viewsSince: Date
+  private viewCounts = new Map<number, number>()
+  private dwellModels: DwellModelRecord[] | null = null
+  
+  private pendingVenueUpdates: VenuePulseBulkUpdate[] = []
+  private pendingHistory: PulseHistoryRecord[] = []
+  private pendingCalculationLogs: PulseCalculationLogRecord[] = []
+  
+  private constructor(base: PulseRepository, venues: VenueRecord[], now: Date, windows: SnapshotWindows) {
+    this.base = base
+    this.venues = new Map(venues.map(v => [v.id, v]))
+    this.windowStart = new Date(now.getTime() - windows.lookbackMs)
+    this.eventsUntil = new Date(now.getTime() + windows.eventsAheadMs)
+    this.viewsSince = new Date(now.getTime() - windows.viewsWindowMs)
+    this.relearnSince = new Date(now.getTime() - BASELINE_LOOKBACK_MS)
+    // UTC dates two days either side cover "yesterday to tomorrow" in any timezone
+    this.exceptionDates = {
+      from: new Date(now.getTime() - 2 * DAY_MS).toISOString().slice(0, 10),
+      to: new Date(now.getTime() + 2 * DAY_MS).toISOString().slice(0, 10)
+    }
+  }
+  
+  /**
+   * Load everything the engine reads for these venues
+   */
+  static async load(
+    base: PulseRepository,
+    venues: VenueRecord[],
+    now: Date = new Date(),
+    windows: Partial<SnapshotWindows> = {}
+  ): Promise<PulseSnapshotRepository> {
+    const snapshot = new PulseSnapshotRepository(base, venues, now, { ...DEFAULT_SNAPSHOT_WINDOWS, ...windows })
+    const ids = venues.map(v => v.id)
+    const from = snapshot.windowStart
+    
+    // This hour and the next, in case the run crosses the hour
+    venues.forEach(venue => [0, HOUR_MS].forEach(ahead => {
+      snapshot.baselineHours.add(hourOfWeek(getVenueLocalTime(venue, new Date(now.getTime() + ahead))))
+    }))
+    
+    // SerpAPI caches under the place id, BestTime under the venue
+    const placeIds = venues.map(v => v.google_place_id).filter((id): id is string => !!id)
+    const cacheKeys = [...placeIds, ...ids.map(besttimeCacheKey)]
+    
+    const [
+      checkIns, statusLogs, ratings, events,
+      vibeReports, pings, socialSignals, reportFlags, pulseHistory, hoursExceptions,
+      baselines, googleCache, popularTimes, viewCounts, dwellModels
+    ] = await Promise.all([
+      base.getCheckInsForVenues(ids, from),
+      base.getStatusLogsForVenues(ids, from),
+      base.getRatingsForVenues(ids, from),
+      base.getEventsForVenues(ids, from, snapshot.eventsUntil),
+      base.getVibeReportsForVenues(ids, from),
+      base.getPingsForVenues(ids, from),
+      base.getSocialSignalsForVenues(ids, from),
+      base.getReportFlagsForVenues(ids, from),
+      base.getPulseHistoryForVenues(ids, from),
+      base.getHoursExceptionsForVenues(ids, snapshot.exceptionDates.from, snapshot.exceptionDates.to),
+      base.getVenueBaselinesForVenues(ids, Array.from(snapshot.baselineHours)),
+      base.getGoogleCacheForPlaces(cacheKeys),
+      base.getPopularTimesForPlaces(placeIds),
+      base.countVenueViewsForVenues(ids, snapshot.viewsSince),
+      base.getDwellModels()
+    ])
+    
+    snapshot.checkIns = groupByVenue(checkIns)
+    snapshot.statusLogs = groupByVenue(statusLogs)
+    snapshot.ratings = groupByVenue(ratings)
+    snapshot.events = groupByVenue(events)
+    snapshot.vibeReports = groupByVenue(vibeReports)
+    snapshot.pings = groupByVenue(pings)
+    snapshot.socialSignals = groupByVenue(socialSignals)
+    snapshot.reportFlags = groupByVenue(reportFlags)
+    snapshot.pulseHistory = groupByVenue(pulseHistory)
+    snapshot.hoursExceptions = groupByVenue(hoursExceptions)
+    snapshot.baselines = groupByVenue(baselines)
+    snapshot.viewCounts = new Map(viewCounts.map(c => [c.venue_id, c.views]))
+    snapshot.dwellModels = dwellModels
+    
+    // Known misses are kept too, so they don't fall through to the base
+    cacheKeys.forEach(key => snapshot.googleCache.set(key, null))
+    googleCache.forEach(c => snapshot.googleCache.set(c.google_place_id, c))
+    placeIds.forEach(id => snapshot.popularTimes.set(id, null))
+    popularTimes.forEach(p => snapshot.popularTimes.set(p.google_place_id, p))
+    
+    // Baselines due a rebuild read weeks of history; load those venues' in one go
+    await snapshot.loadRelearnInputs(venues.filter(v => isBaselineDue(v, now)))
+    
+    // Trust for everyone who reported in the window
+    await Promise.all([
+      snapshot.loadReputations('user', vibeReports.map(r => r.user_id)),
+      snapshot.loadReputations('device', pings.map(p => p.device_id))
+    ])
+    
+    return snapshot
+  }
+  
+  /**
+   * Write buffered pulses, history and calculation logs in bulk
+   */
+  async flush(): Promise<{ venues: number, history: number }> {
+    const venueUpdates = this.pendingVenueUpdates
+    const history = this.pendingHistory
+    const calculationLogs = this.pendingCalculationLogs
+    this.pendingVenueUpdates = []
+    this.pendingHistory = []
+    this.pendingCalculationLogs = []
+    
+    await Promise.all([
+      this.base.updateVenuePulses(venueUpdates),
+      this.base.insertPulseHistoryBatch(history),
+      this.base.insertCalculationLogs(calculationLogs)
+    ])
+    
+    return { venues: venueUpdates.length, history: history.length }
+  }
+  
+  get pendingWrites(): number {
+    return this.pendingVenueUpdates.length + this.pendingHistory.length
+  }
+  
+  private async loadRelearnInputs(venues: VenueRecord[]) {
+    if (venues.length === 0) return
+    
+    const [history, checkIns] = await Promise.all([
+      this.base.getPulseHistoryForVenues(venues.map(v => v.id), this.relearnSince),
+      this.base.getCheckInsForVenues(venues.filter(v => v.spree_onboarded).map(v => v.id), this.relearnSince)
+    ])
+    
+    // Supersets of the short window, so they replace it
+    const historyByVenue = groupByVenue(history)
+    const checkInsByVenue = groupByVenue(checkIns)
+    venues.forEach(venue => {
+      this.relearnVenues.add(venue.id)
+      this.pulseHistory.set(venue.id, historyByVenue.get(venue.id) || [])
+      if (venue.spree_onboarded) this.checkIns.set(venue.id, checkInsByVenue.get(venue.id) || [])
+    })
+  }
+  
+  private async loadReputations(type: ReporterType, reporterIds: string[]) {
+    const ids = Array.from(new Set(reporterIds))
+    if (ids.length === 0) return
+    
+    const known = this.reputations[type]
+    ids.forEach(id => known.set(id, null))
+    const records = await this.base.getReputations(type, ids)
+    records.forEach(r => known.set(r.reporter_id, r))
+  }
+  
+  private covers(venueId: number, from: Date): boolean {
+    return this.venues.has(venueId) && from.getTime() >= this.windowStart.getTime()
+  }
+  
+  private coversRelearn(venueId: number, from: Date, partnersOnly: boolean = false): boolean {
+    if (!this.relearnVenues.has(venueId) || from.getTime() < this.relearnSince.getTime()) return false
+    return !partnersOnly || !!this.venues.get(venueId)?.spree_onboarded
+  }
+  
+  private coversViews(venueIds: number[], from: Date): boolean {
+    return from.getTime() === this.viewsSince.getTime() && venueIds.every(id => this.venues.has(id))
+  }
+  
+  // Venues
+  
+  async getVenue(venueId: number): Promise<VenueRecord | null> {
+    return this.venues.get(venueId) ?? this.base.getVenue(venueId)
+  }
+  
+  async getActiveVenues(): Promise<VenueRecord[]> {
+    return this.base.getActiveVenues()
+  }
+  
+  async getActiveVenuesInBounds(bounds: GeoBounds, pulseUpdatedSince: Date): Promise<VenueRecord[]> {
+    return this.base.getActiveVenuesInBounds(bounds, pulseUpdatedSince)
+  }
+  
+  async updateVenuePulse(venueId: number, update: VenuePulseUpdate): Promise<void> {
+    this.pendingVenueUpdates.push({ venue_id: venueId, ...update })
+  }
+  
+  async updateVenuePulses(updates: VenuePulseBulkUpdate[]): Promise<void> {
+    this.pendingVenueUpdates.push(...updates)
+  }
+  
+  // Opening hours
+  
+  async getHoursExceptions(venueId: number, fromDate: string, toDate: string): Promise<VenueHoursExceptionRecord[]> {
+    if (!this.venues.has(venueId) || fromDate < this.exceptionDates.from || toDate > this.exceptionDates.to) {
+      return this.base.getHoursExceptions(venueId, fromDate, toDate)
+    }
+    return (this.hoursExceptions.get(venueId) || []).filter(e => e.date >= fromDate && e.date <= toDate)
+  }
+  
+  async insertHoursException(entry: VenueHoursExceptionRecord): Promise<VenueHoursExceptionRecord> {
+    return this.base.insertHoursException(entry)
+  }
+  
+  async deleteHoursException(exceptionId: string): Promise<void> {
+    return this.base.deleteHoursException(exceptionId)
+  }
+  
+  async getHoursExceptionsForVenues(venueIds: number[], fromDate: string, toDate: string): Promise<VenueHoursExceptionRecord[]> {
+    return this.base.getHoursExceptionsForVenues(venueIds, fromDate, toDate)
+  }
+  
+  // Activity
+  
+  async getCheckIns(venueId: number, from: Date): Promise<CheckInRecord[]> {
+    if (!this.covers(venueId, from) && !this.coversRelearn(venueId, from, true)) return this.base.getCheckIns(venueId, from)
+    return since(this.checkIns.get(venueId), c => c.created_at, from)
+  }
+  
+  async getLatestStatusLog(venueId: number, from: Date): Promise<VenueStatusLogRecord | null> {
+    if (!this.covers(venueId, from)) return this.base.getLatestStatusLog(venueId, from)
+    return since(this.statusLogs.get(venueId), l => l.created_at, from)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0] || null
+  }
+  
+  async getRatings(venueId: number, from: Date): Promise<VenueRatingRecord[]> {
+    if (!this.covers(venueId, from)) return this.base.getRatings(venueId, from)
+    return since(this.ratings.get(venueId), r => r.created_at, from)
+  }
+  
+  async getEventsStartingBetween(venueId: number, from: Date, to: Date): Promise<EventRecord[]> {
+    if (!this.covers(venueId, from) || to.getTime() > this.eventsUntil.getTime()) {
+      return this.base.getEventsStartingBetween(venueId, from, to)
+    }
+    return since(this.events.get(venueId), e => e.starts_at, from)
+      .filter(e => new Date(e.starts_at).getTime() <= to.getTime())
+  }
+  
+  async getCheckInsForVenues(venueIds: number[], from: Date): Promise<CheckInRecord[]> {
+    return this.base.getCheckInsForVenues(venueIds, from)
+  }
+  
+  async getStatusLogsForVenues(venueIds: number[], from: Date): Promise<VenueStatusLogRecord[]> {
+    return this.base.getStatusLogsForVenues(venueIds, from)
+  }
+  
+  async getRatingsForVenues(venueIds: number[], from: Date): Promise<VenueRatingRecord[]> {
+    return this.base.getRatingsForVenues(venueIds, from)
+  }
+  
+  async getEventsForVenues(venueIds: number[], from: Date, to: Date): Promise<EventRecord[]> {
+    return this.base.getEventsForVenues(venueIds, from, to)
+  }
+  
+  async getCompletedCheckInsForVenues(venueIds: number[], from: Date): Promise<CheckInRecord[]> {
+    return this.base.getCompletedCheckInsForVenues(venueIds, from)
+  }
+  
+  async getOpenCheckIns(createdBefore: Date, limit: number): Promise<CheckInRecord[]> {
+    return this.base.getOpenCheckIns(createdBefore, limit)
+  }
+  
+  async autoCheckOut(checkIns: Array<{ id: number, checked_out_at: string }>): Promise<void> {
+    return this.base.autoCheckOut(checkIns)
+  }
+  
+  // Community
+  
+  async hasRecentVibeReport(venueId: number, userId: string, from: Date): Promise<boolean> {
+    return this.base.hasRecentVibeReport(venueId, userId, from)
+  }
+  
+  async insertVibeReport(report: VibeReportRecord): Promise<void> {
+    return this.base.insertVibeReport(report)
+  }
+  
+  async getVibeReports(venueId: number, from: Date): Promise<VibeReportRecord[]> {
+    if (!this.covers(venueId, from)) return this.base.getVibeReports(venueId, from)
+    return since(this.vibeReports.get(venueId), r => r.created_at, from)
+  }
+  
+  async countVibeReports(venueId: number, from: Date): Promise<number> {
+    return this.base.countVibeReports(venueId, from)
+  }
+  
+  async hasRecentPing(venueId: number, deviceId: string, from: Date): Promise<boolean> {
+    return this.base.hasRecentPing(venueId, deviceId, from)
+  }
+  
+  async insertPing(ping: AnonymousPingRecord): Promise<void> {
+    return this.base.insertPing(ping)
+  }
+  
+  async getPings(venueId: number, from: Date): Promise<AnonymousPingRecord[]> {
+    if (!this.covers(venueId, from)) return this.base.getPings(venueId, from)
+    return since(this.pings.get(venueId), p => p.created_at, from)
+  }
+  
+  async countPings(venueId: number, from: Date): Promise<number> {
+    return this.base.countPings(venueId, from)
+  }
+  
+  async getSocialSignals(venueId: number, from: Date): Promise<SocialSignalRecord[]> {
+    if (!this.covers(venueId, from)) return this.base.getSocialSignals(venueId, from)
+    return since(this.socialSignals.get(venueId), s => s.created_at, from)
+  }
+  
+  async insertUserPoints(entry: UserPointsRecord): Promise<void> {
+    return this.base.insertUserPoints(entry)
+  }
+  
+  async getVibeReportsForVenues(venueIds: number[], from: Date): Promise<VibeReportRecord[]> {
+    return this.base.getVibeReportsForVenues(venueIds, from)
+  }
+  
+  async getPingsForVenues(venueIds: number[], from: Date): Promise<AnonymousPingRecord[]> {
+    return this.base.getPingsForVenues(venueIds, from)
+  }
+  
+  async getSocialSignalsForVenues(venueIds: number[], from: Date): Promise<SocialSignalRecord[]> {
+    return this.base.getSocialSignalsForVenues(venueIds, from)
+  }
+  
+  // Pulse logs
+  
+  async insertPulseHistory(entry: PulseHistoryRecord): Promise<void> {
+    this.pendingHistory.push(entry)
+  }
+  
+  async getPulseHistory(venueId: number, from: Date): Promise<PulseHistoryRecord[]> {
+    if (!this.covers(venueId, from) && !this.coversRelearn(venueId, from)) {
+      return this.base.getPulseHistory(venueId, from)
+    }
+    return since(this.pulseHistory.get(venueId), h => h.created_at!, from)
+  }
+  
+  async insertCalculationLog(entry: PulseCalculationLogRecord): Promise<void> {
+    this.pendingCalculationLogs.push(entry)
+  }
+  
+  async insertGoogleBusynessLog(entry: GoogleBusynessLogRecord): Promise<void> {
+    return this.base.insertGoogleBusynessLog(entry)
+  }
+  
+  async getPulseHistoryForVenues(venueIds: number[], from: Date): Promise<PulseHistoryRecord[]> {
+    if (!venueIds.every(id => this.covers(id, from))) return this.base.getPulseHistoryForVenues(venueIds, from)
+    return venueIds
+      .flatMap(id => since(this.pulseHistory.get(id), h => h.created_at!, from))
+      .sort((a, b) => new Date(a.created_at!).getTime() - new Date(b.created_at!).getTime())
+  }
+  
+  async insertPulseHistoryBatch(entries: PulseHistoryRecord[]): Promise<void> {
+    this.pendingHistory.push(...entries)
+  }
+  
+  async insertCalculationLogs(entries: PulseCalculationLogRecord[]): Promise<void> {
+    this.pendingCalculationLogs.push(...entries)
+  }
+  
+  // Google cache
+  
+  async getGoogleCache(placeId: string): Promise<GoogleBusynessCacheRecord | null> {
+    if (!this.googleCache.has(placeId)) return this.base.getGoogleCache(placeId)
+    return this.googleCache.get(placeId)!
+  }
+  
+  async upsertGoogleCache(record: GoogleBusynessCacheRecord): Promise<void> {
+    await this.base.upsertGoogleCache(record)
+    this.googleCache.set(record.google_place_id, record)
+  }
+  
+  async getPopularTimes(placeId: string): Promise<GooglePopularTimesRecord | null> {
+    if (!this.popularTimes.has(placeId)) return this.base.getPopularTimes(placeId)
+    return this.popularTimes.get(placeId)!
+  }
+  
+  async upsertPopularTimes(record: GooglePopularTimesRecord): Promise<void> {
+    await this.base.upsertPopularTimes(record)
+    this.popularTimes.set(record.google_place_id, record)
+  }
+  
+  async getGoogleCacheForPlaces(placeIds: string[]): Promise<GoogleBusynessCacheRecord[]> {
+    return this.base.getGoogleCacheForPlaces(placeIds)
+  }
+  
+  async getPopularTimesForPlaces(placeIds: string[]): Promise<GooglePopularTimesRecord[]> {
+    return this.base.getPopularTimesForPlaces(placeIds)
+  }
+  
+  // Update queue
+  
+  async findPendingJob(venueId: number): Promise<PulseUpdateJobRecord | null> {
+    return this.base.findPendingJob(venueId)
+  }
+  
+  async insertJob(job: Omit<PulseUpdateJobRecord, 'id'>): Promise<PulseUpdateJobRecord> {
+    return this.base.insertJob(job)
+  }
+  
+  async updateJob(jobId: string, patch: Partial<PulseUpdateJobRecord>): Promise<void> {
+    return this.base.updateJob(jobId, patch)
+  }
+  
+  async claimDueJobs(now: Date, limit: number): Promise<PulseUpdateJobRecord[]> {
+    return this.base.claimDueJobs(now, limit)
+  }
+  
+  async getStaleJobs(lockedBefore: Date): Promise<PulseUpdateJobRecord[]> {
+    return this.base.getStaleJobs(lockedBefore)
+  }
+  
+  async getDeadJobs(limit: number): Promise<PulseUpdateJobRecord[]> {
+    return this.base.getDeadJobs(limit)
+  }
+  
+  // Pulse events
+  
+  async getActiveWebhooks(): Promise<PulseWebhookRecord[]> {
+    return this.base.getActiveWebhooks()
+  }
+  
+  async getWebhook(webhookId: string): Promise<PulseWebhookRecord | null> {
+    return this.base.getWebhook(webhookId)
+  }
+  
+  async insertWebhook(webhook: Omit<PulseWebhookRecord, 'id'>): Promise<PulseWebhookRecord> {
+    return this.base.insertWebhook(webhook)
+  }
+  
+  async updateWebhook(webhookId: string, patch: Partial<PulseWebhookRecord>): Promise<void> {
+    return this.base.updateWebhook(webhookId, patch)
+  }
+  
+  async insertEventDeliveries(deliveries: Omit<PulseEventDeliveryRecord, 'id'>[]): Promise<PulseEventDeliveryRecord[]> {
+    return this.base.insertEventDeliveries(deliveries)
+  }
+  
+  async updateEventDelivery(deliveryId: string, patch: Partial<PulseEventDeliveryRecord>): Promise<void> {
+    return this.base.updateEventDelivery(deliveryId, patch)
+  }
+  
+  async claimDueEventDeliveries(now: Date, limit: number, leaseUntil: Date): Promise<PulseEventDeliveryRecord[]> {
+    return this.base.claimDueEventDeliveries(now, limit, leaseUntil)
+  }
+  
+  async getEventDeliveries(webhookId: string, limit: number): Promise<PulseEventDeliveryRecord[]> {
+    return this.base.getEventDeliveries(webhookId, limit)
+  }
+  
+  // Alerts
+  
+  async insertAlert(alert: Omit<PulseAlertRecord, 'id'>): Promise<PulseAlertRecord> {
+    return this.base.insertAlert(alert)
+  }
+  
+  async updateAlert(alertId: string, patch: Partial<PulseAlertRecord>): Promise<void> {
+    return this.base.updateAlert(alertId, patch)
+  }
+  
+  async getUserAlerts(userId: string): Promise<PulseAlertRecord[]> {
+    return this.base.getUserAlerts(userId)
+  }
+  
+  async getActiveVenueAlerts(venueIds: number[]): Promise<PulseAlertRecord[]> {
+    return this.base.getActiveVenueAlerts(venueIds)
+  }
+  
+  async getActiveAreaAlerts(): Promise<PulseAlertRecord[]> {
+    return this.base.getActiveAreaAlerts()
+  }
+  
+  async insertAlertNotifications(entries: Omit<AlertNotificationRecord, 'id'>[]): Promise<AlertNotificationRecord[]> {
+    return this.base.insertAlertNotifications(entries)
+  }
+  
+  async getPendingAlertNotifications(limit: number): Promise<AlertNotificationRecord[]> {
+    return this.base.getPendingAlertNotifications(limit)
+  }
+  
+  async updateAlertNotifications(notificationIds: string[], status: AlertNotificationStatus, sentAt: string | null): Promise<void> {
+    return this.base.updateAlertNotifications(notificationIds, status, sentAt)
+  }
+  
+  // Baselines
+  
+  async getVenueBaselines(venueId: number): Promise<VenueBaselineRecord[]> {
+    return this.base.getVenueBaselines(venueId)
+  }
+  
+  async replaceVenueBaselines(venueId: number, records: VenueBaselineRecord[], learnedAt: string): Promise<void> {
+    await this.base.replaceVenueBaselines(venueId, records, learnedAt)
+    this.baselines.set(venueId, records.filter(r => this.baselineHours.has(r.hour_of_week)))
+  }
+  
+  async getVenueBaselinesForVenues(venueIds: number[], hoursOfWeek: number[]): Promise<VenueBaselineRecord[]> {
+    if (!venueIds.every(id => this.venues.has(id)) || !hoursOfWeek.every(h => this.baselineHours.has(h))) {
+      return this.base.getVenueBaselinesForVenues(venueIds, hoursOfWeek)
+    }
+    const hours = new Set(hoursOfWeek)
+    return venueIds.flatMap(id => (this.baselines.get(id) || []).filter(b => hours.has(b.hour_of_week)))
+  }
+  
+  // Dwell models
+  
+  async getDwellModels(): Promise<DwellModelRecord[]> {
+    return this.dwellModels ?? this.base.getDwellModels()
+  }
+  
+  async upsertDwellModels(records: DwellModelRecord[]): Promise<void> {
+    await this.base.upsertDwellModels(records)
+    this.dwellModels = null
+  }
+  
+  // Reputation
+  
+  async getReputations(type: ReporterType, reporterIds: string[]): Promise<ReporterReputationRecord[]> {
+    const known = this.reputations[type]
+    if (!reporterIds.every(id => known.has(id))) {
+      return this.base.getReputations(type, reporterIds)
+    }
+    return reporterIds
+      .map(id => known.get(id))
+      .filter((r): r is ReporterReputationRecord => !!r)
+  }
+  
+  async upsertReputations(records: ReporterReputationRecord[]): Promise<void> {
+    return this.base.upsertReputations(records)
+  }
+  
+  async getReporterFirstSeen(type: ReporterType, reporterIds: string[]): Promise<ReporterFirstSeenRecord[]> {
+    return this.base.getReporterFirstSeen(type, reporterIds)
+  }
+  
+  // Report flags
+  
+  async getReportFlags(venueId: number, from: Date): Promise<ReportFlagRecord[]> {
+    if (!this.covers(venueId, from)) return this.base.getReportFlags(venueId, from)
+    return since(this.reportFlags.get(venueId), f => f.created_at, from)
+  }
+  
+  async insertReportFlags(flags: Omit<ReportFlagRecord, 'id'>[]): Promise<void> {
+    return this.base.insertReportFlags(flags)
+  }
+  
+  async getReportFlagsByStatus(status: ReportFlagStatus, limit: number): Promise<ReportFlagRecord[]> {
+    return this.base.getReportFlagsByStatus(status, limit)
+  }
+  
+  async updateReportFlag(flagId: string, patch: Partial<ReportFlagRecord>): Promise<void> {
+    return this.base.updateReportFlag(flagId, patch)
+  }
+  
+  async getReportFlagsForVenues(venueIds: number[], from: Date): Promise<ReportFlagRecord[]> {
+    return this.base.getReportFlagsForVenues(venueIds, from)
+  }
+  
+  // Usage
+  
+  async recordApiCall(entry: BusynessApiCallRecord): Promise<void> {
+    return this.base.recordApiCall(entry)
+  }
+  
+  async countApiCalls(provider: string, from: Date): Promise<number> {
+    return this.base.countApiCalls(provider, from)
+  }
+  
+  async recordVenueView(entry: VenueViewRecord): Promise<void> {
+    return this.base.recordVenueView(entry)
+  }
+  
+  async countVenueViews(venueId: number, from: Date): Promise<number> {
+    if (!this.coversViews([venueId], from)) return this.base.countVenueViews(venueId, from)
+    return this.viewCounts.get(venueId) || 0
+  }
+  
+  async countVenueViewsForVenues(venueIds: number[], from: Date): Promise<VenueViewCount[]> {
+    if (!this.coversViews(venueIds, from)) return this.base.countVenueViewsForVenues(venueIds, from)
+    return venueIds
+      .filter(id => this.viewCounts.has(id))
+      .map(id => ({ venue_id: id, views: this.viewCounts.get(id)! }))
+  }
+}
+
+// Set-based venue pulse update used by updateVenuePulses
+export const PULSE_BULK_SQL = `
+CREATE OR REPLACE FUNCTION update_venue_pulses(updates JSONB)
+RETURNS void AS $$
+  UPDATE venues v SET
+    pulse = u.pulse,
+    pulse_raw = COALESCE(u.pulse_raw, v.pulse_raw),
+    pulse_confidence = u.pulse_confidence,
+    pulse_data_source = u.pulse_data_source,
+    pulse_updated_at = u.pulse_updated_at,
+    pulse_status = COALESCE(u.pulse_status, v.pulse_status)
+  FROM jsonb_to_recordset(updates) AS u(
+    venue_id INTEGER,
+    pulse DECIMAL(3,1),
+    pulse_raw DECIMAL(3,1),
+    pulse_confidence DECIMAL(3,2),
+    pulse_data_source TEXT,
+    pulse_updated_at TIMESTAMP,
+    pulse_status TEXT
+  )
+  WHERE v.id = u.venue_id;
+$$ LANGUAGE sql;
+`
@@ -0,0 +1,987 @@
+// lib/pulse/repository/supabase-repository.ts
+
+import { supabase } from '@/lib/supabase'
+import {
+  AlertNotificationRecord,
+  AlertNotificationStatus,
+  AnonymousPingRecord,
+  BusynessApiCallRecord,
+  CheckInRecord,
+  DwellModelRecord,
+  EventRecord,
+  GeoBounds,
+  GoogleBusynessCacheRecord,
+  GoogleBusynessLogRecord,
+  GooglePopularTimesRecord,
+  PulseAlertRecord,
+  PulseCalculationLogRecord,
+  PulseEventDeliveryRecord,
+  PulseHistoryRecord,
+  PulseUpdateJobRecord,
+  PulseWebhookRecord,
+  ReportFlagRecord,
+  ReportFlagStatus,
+  ReporterFirstSeenRecord,
+  ReporterReputationRecord,
+  ReporterType,
+  VenueBaselineRecord,
+  VenueHoursExceptionRecord,
+  SocialSignalRecord,
+  UserPointsRecord,
+  VenuePulseBulkUpdate,
+  VenuePulseUpdate,
+  VenueRatingRecord,
+  VenueRecord,
+  VenueStatusLogRecord,
+  VenueViewCount,
+  VenueViewRecord,
+  VibeReportRecord
+} from '../types'
+import { PulseRepository } from './types'
+
+// Keeps `.in()` filters well under URL length limits
+const IN_CHUNK_SIZE = 200
+
+// PostgREST caps each response (max-rows, 1000 by default)
+const PAGE_SIZE = 1000
+
+interface PagedQuery<T> {
+  range(from: number, to: number): PromiseLike<{ data: T[] | null, error: unknown }>
+}
+
+/**
+ * Every row of a query, fetched a page at a time
+ *
+ * The query needs a total order, or rows shift between pages.
+ */
+async function allPages<T>(query: () => PagedQuery<T>): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query().range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+/**
+ * Run a query per chunk of ids, every page of each, and concatenate the rows
+ *
+ * Same rule as allPages: each chunk's query needs a total order.
+ */
+async function inChunks<T, Id = number>(ids: Id[], query: (chunk: Id[]) => PagedQuery<T>): Promise<T[]> {
+  const rows: T[] = []
+  for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + IN_CHUNK_SIZE)
+    rows.push(...await allPages(() => query(chunk)))
+  }
+  return rows
+}
+
+export class SupabasePulseRepository implements PulseRepository {
+  
+  // Venues
+  
+  async getVenue(venueId: number): Promise<VenueRecord | null> {
+    const { data } = await supabase
+      .from('venues')
+      .select('*')
+      .eq('id', venueId)
+      .single()
+    
+    return data
+  }
+  
+  async getActiveVenues(): Promise<VenueRecord[]> {
+    return allPages<VenueRecord>(() => supabase
+      .from('venues')
+      .select('*')
+      .eq('is_active', true)
+      .order('spree_onboarded', { ascending: false }) // Partners first
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getActiveVenuesInBounds(bounds: GeoBounds, pulseUpdatedSince: Date): Promise<VenueRecord[]> {
+    // A city-wide box can hold more than one response's worth
+    return allPages<VenueRecord>(() => supabase
+      .from('venues')
+      .select('*')
+      .eq('is_active', true)
+      .gte('lat', bounds.south)
+      .lte('lat', bounds.north)
+      .gte('lng', bounds.west)
+      .lte('lng', bounds.east)
+      .or(`pulse_updated_at.gte.${pulseUpdatedSince.toISOString()},pulse_status.eq.closed`)
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async updateVenuePulse(venueId: number, update: VenuePulseUpdate): Promise<void> {
+    await supabase
+      .from('venues')
+      .update(update)
+      .eq('id', venueId)
+  }
+  
+  async updateVenuePulses(updates: VenuePulseBulkUpdate[]): Promise<void> {
+    if (updates.length === 0) return
+    
+    // One UPDATE ... FROM for the lot (see PULSE_BULK_SQL)
+    const { error } = await supabase.rpc('update_venue_pulses', { updates })
+    if (error) throw error
+  }
+  
+  // Opening hours
+  
+  async getHoursExceptions(venueId: number, fromDate: string, toDate: string): Promise<VenueHoursExceptionRecord[]> {
+    const { data } = await supabase
+      .from('venue_hours_exceptions')
+      .select('*')
+      .eq('venue_id', venueId)
+      .gte('date', fromDate)
+      .lte('date', toDate)
+    
+    return data || []
+  }
+  
+  async insertHoursException(entry: VenueHoursExceptionRecord): Promise<VenueHoursExceptionRecord> {
+    const { data, error } = await supabase
+      .from('venue_hours_exceptions')
+      .insert(entry)
+      .select()
+      .single()
+    
+    if (error) throw error
+    return data
+  }
+  
+  async deleteHoursException(exceptionId: string): Promise<void> {
+    await supabase
+      .from('venue_hours_exceptions')
+      .delete()
+      .eq('id', exceptionId)
+  }
+  
+  async getHoursExceptionsForVenues(venueIds: number[], fromDate: string, toDate: string): Promise<VenueHoursExceptionRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('venue_hours_exceptions')
+      .select('*')
+      .in('venue_id', ids)
+      .gte('date', fromDate)
+      .lte('date', toDate)
+      .order('id', { ascending: true })
+    )
+  }
+  
+  // Activity
+  
+  async getCheckIns(venueId: number, since: Date): Promise<CheckInRecord[]> {
+    // Baselines read eight weeks of these
+    return allPages<CheckInRecord>(() => supabase
+      .from('checkins')
+      .select('id, venue_id, created_at, checked_out_at')
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getLatestStatusLog(venueId: number, since: Date): Promise<VenueStatusLogRecord | null> {
+    const { data } = await supabase
+      .from('venue_status_logs')
+      .select('venue_id, line_time_minutes, created_at')
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single()
+    
+    return data
+  }
+  
+  async getRatings(venueId: number, since: Date): Promise<VenueRatingRecord[]> {
+    const { data } = await supabase
+      .from('venue_ratings')
+      .select('venue_id, vibe_check, created_at')
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+    
+    return data || []
+  }
+  
+  async getCheckInsForVenues(venueIds: number[], since: Date): Promise<CheckInRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('checkins')
+      .select('id, venue_id, created_at, checked_out_at')
+      .in('venue_id', ids)
+      .gte('created_at', since.toISOString())
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getStatusLogsForVenues(venueIds: number[], since: Date): Promise<VenueStatusLogRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('venue_status_logs')
+      .select('venue_id, line_time_minutes, created_at')
+      .in('venue_id', ids)
+      .gte('created_at', since.toISOString())
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getRatingsForVenues(venueIds: number[], since: Date): Promise<VenueRatingRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('venue_ratings')
+      .select('venue_id, vibe_check, created_at')
+      .in('venue_id', ids)
+      .gte('created_at', since.toISOString())
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getEventsForVenues(venueIds: number[], from: Date, to: Date): Promise<EventRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('events')
+      .select('id, venue_id, starts_at')
+      .in('venue_id', ids)
+      .gte('starts_at', from.toISOString())
+      .lte('starts_at', to.toISOString())
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getCompletedCheckInsForVenues(venueIds: number[], since: Date): Promise<CheckInRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('checkins')
+      .select('id, venue_id, created_at, checked_out_at')
+      .in('venue_id', ids)
+      .gte('created_at', since.toISOString())
+      .not('checked_out_at', 'is', null)
+      .eq('auto_checked_out', false)
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getOpenCheckIns(createdBefore: Date, limit: number): Promise<CheckInRecord[]> {
+    const { data } = await supabase
+      .from('checkins')
+      .select('id, venue_id, created_at, checked_out_at')
+      .is('checked_out_at', null)
+      .lt('created_at', createdBefore.toISOString())
+      .order('created_at', { ascending: true })
+      .limit(limit)
+    
+    return data || []
+  }
+  
+  async autoCheckOut(checkIns: Array<{ id: number, checked_out_at: string }>): Promise<void> {
+    if (checkIns.length === 0) return
+    
+    // One UPDATE ... FROM for the lot (see DWELL_TIME_SQL)
+    const { error } = await supabase.rpc('auto_check_out', { p_check_ins: checkIns })
+    if (error) throw error
+  }
+  
+  async getEventsStartingBetween(venueId: number, from: Date, to: Date): Promise<EventRecord[]> {
+    const { data } = await supabase
+      .from('events')
+      .select('id, venue_id, starts_at')
+      .eq('venue_id', venueId)
+      .gte('starts_at', from.toISOString())
+      .lte('starts_at', to.toISOString())
+    
+    return data || []
+  }
+  
+  // Community
+  
+  async hasRecentVibeReport(venueId: number, userId: string, since: Date): Promise<boolean> {
+    const { data } = await supabase
+      .from('community_vibe_reports')
+      .select('id')
+      .eq('venue_id', venueId)
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString())
+      .limit(1)
+    
+    return (data?.length || 0) > 0
+  }
+  
+  async insertVibeReport(report: VibeReportRecord): Promise<void> {
+    const { error } = await supabase
+      .from('community_vibe_reports')
+      .insert(report)
+    
+    if (error) throw error
+  }
+  
+  async getVibeReports(venueId: number, since: Date): Promise<VibeReportRecord[]> {
+    const { data } = await supabase
+      .from('community_vibe_reports')
+      .select('*')
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+    
+    return data || []
+  }
+  
+  async countVibeReports(venueId: number, since: Date): Promise<number> {
+    const { count } = await supabase
+      .from('community_vibe_reports')
+      .select('*', { count: 'exact', head: true })
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+    
+    return count || 0
+  }
+  
+  async hasRecentPing(venueId: number, deviceId: string, since: Date): Promise<boolean> {
+    const { data } = await supabase
+      .from('anonymous_pings')
+      .select('id')
+      .eq('venue_id', venueId)
+      .eq('device_id', deviceId)
+      .gte('created_at', since.toISOString())
+      .limit(1)
+    
+    return (data?.length || 0) > 0
+  }
+  
+  async insertPing(ping: AnonymousPingRecord): Promise<void> {
+    await supabase
+      .from('anonymous_pings')
+      .insert(ping)
+  }
+  
+  async getPings(venueId: number, since: Date): Promise<AnonymousPingRecord[]> {
+    const { data } = await supabase
+      .from('anonymous_pings')
+      .select('*')
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+    
+    return data || []
+  }
+  
+  async getVibeReportsForVenues(venueIds: number[], since: Date): Promise<VibeReportRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('community_vibe_reports')
+      .select('*')
+      .in('venue_id', ids)
+      .gte('created_at', since.toISOString())
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getPingsForVenues(venueIds: number[], since: Date): Promise<AnonymousPingRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('anonymous_pings')
+      .select('*')
+      .in('venue_id', ids)
+      .gte('created_at', since.toISOString())
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getSocialSignalsForVenues(venueIds: number[], since: Date): Promise<SocialSignalRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('social_signals')
+      .select('*')
+      .in('venue_id', ids)
+      .gte('created_at', since.toISOString())
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async countPings(venueId: number, since: Date): Promise<number> {
+    const { count } = await supabase
+      .from('anonymous_pings')
+      .select('*', { count: 'exact', head: true })
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+    
+    return count || 0
+  }
+  
+  async getSocialSignals(venueId: number, since: Date): Promise<SocialSignalRecord[]> {
+    const { data } = await supabase
+      .from('social_signals')
+      .select('*')
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+    
+    return data || []
+  }
+  
+  async insertUserPoints(entry: UserPointsRecord): Promise<void> {
+    await supabase
+      .from('user_points')
+      .insert(entry)
+  }
+  
+  // Pulse logs
+  
+  async insertPulseHistory(entry: PulseHistoryRecord): Promise<void> {
+    await supabase
+      .from('pulse_history')
+      .insert(entry)
+  }
+  
+  async getPulseHistory(venueId: number, since: Date): Promise<PulseHistoryRecord[]> {
+    // Baselines and forecasts read eight weeks of these
+    return allPages<PulseHistoryRecord>(() => supabase
+      .from('pulse_history')
+      .select('*')
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async insertCalculationLog(entry: PulseCalculationLogRecord): Promise<void> {
+    await supabase
+      .from('pulse_calculations_log')
+      .insert(entry)
+  }
+  
+  async insertGoogleBusynessLog(entry: GoogleBusynessLogRecord): Promise<void> {
+    await supabase
+      .from('google_busyness_log')
+      .insert(entry)
+  }
+  
+  async getPulseHistoryForVenues(venueIds: number[], since: Date): Promise<PulseHistoryRecord[]> {
+    const rows = await inChunks<PulseHistoryRecord>(venueIds, ids => supabase
+      .from('pulse_history')
+      .select('*')
+      .in('venue_id', ids)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+    )
+    
+    // Chunks are each ordered; the whole set needs it too
+    return rows.sort((a, b) => new Date(a.created_at!).getTime() - new Date(b.created_at!).getTime())
+  }
+  
+  async insertPulseHistoryBatch(entries: PulseHistoryRecord[]): Promise<void> {
+    if (entries.length === 0) return
+    
+    await supabase
+      .from('pulse_history')
+      .insert(entries)
+  }
+  
+  async insertCalculationLogs(entries: PulseCalculationLogRecord[]): Promise<void> {
+    if (entries.length === 0) return
+    
+    await supabase
+      .from('pulse_calculations_log')
+      .insert(entries)
+  }
+  
+  // Google cache
+  
+  async getGoogleCache(placeId: string): Promise<GoogleBusynessCacheRecord | null> {
+    const { data } = await supabase
+      .from('google_busyness_cache')
+      .select('google_place_id, busyness_data, fetched_at')
+      .eq('google_place_id', placeId)
+      .single()
+    
+    return data
+  }
+  
+  async upsertGoogleCache(record: GoogleBusynessCacheRecord): Promise<void> {
+    await supabase
+      .from('google_busyness_cache')
+      .upsert(record)
+  }
+  
+  async getGoogleCacheForPlaces(placeIds: string[]): Promise<GoogleBusynessCacheRecord[]> {
+    return inChunks<GoogleBusynessCacheRecord, string>(placeIds, ids => supabase
+      .from('google_busyness_cache')
+      .select('google_place_id, busyness_data, fetched_at')
+      .in('google_place_id', ids)
+      .order('google_place_id', { ascending: true })
+    )
+  }
+  
+  async getPopularTimes(placeId: string): Promise<GooglePopularTimesRecord | null> {
+    const { data } = await supabase
+      .from('google_popular_times')
+      .select('*')
+      .eq('google_place_id', placeId)
+      .single()
+    
+    return data
+  }
+  
+  async upsertPopularTimes(record: GooglePopularTimesRecord): Promise<void> {
+    await supabase
+      .from('google_popular_times')
+      .upsert(record)
+  }
+  
+  async getPopularTimesForPlaces(placeIds: string[]): Promise<GooglePopularTimesRecord[]> {
+    return inChunks<GooglePopularTimesRecord, string>(placeIds, ids => supabase
+      .from('google_popular_times')
+      .select('*')
+      .in('google_place_id', ids)
+      .order('google_place_id', { ascending: true })
+    )
+  }
+  
+  // Update queue
+  
+  async findPendingJob(venueId: number): Promise<PulseUpdateJobRecord | null> {
+    const { data } = await supabase
+      .from('pulse_update_jobs')
+      .select('*')
+      .eq('venue_id', venueId)
+      .eq('status', 'pending')
+      .limit(1)
+    
+    return data?.[0] || null
+  }
+  
+  async insertJob(job: Omit<PulseUpdateJobRecord, 'id'>): Promise<PulseUpdateJobRecord> {
+    const { data, error } = await supabase
+      .from('pulse_update_jobs')
+      .insert(job)
+      .select('*')
+      .single()
+    
+    if (error) throw error
+    return data
+  }
+  
+  async updateJob(jobId: string, patch: Partial<PulseUpdateJobRecord>): Promise<void> {
+    const { error } = await supabase
+      .from('pulse_update_jobs')
+      .update(patch)
+      .eq('id', jobId)
+    
+    if (error) throw error
+  }
+  
+  async claimDueJobs(now: Date, limit: number): Promise<PulseUpdateJobRecord[]> {
+    const { data: due } = await supabase
+      .from('pulse_update_jobs')
+      .select('id')
+      .eq('status', 'pending')
+      .lte('run_at', now.toISOString())
+      .order('run_at', { ascending: true })
+      .limit(limit)
+    
+    if (!due || due.length === 0) return []
+    
+    // Conditional update so two workers never claim the same job
+    const { data } = await supabase
+      .from('pulse_update_jobs')
+      .update({
+        status: 'processing',
+        locked_at: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+      .in('id', due.map((job: { id: string }) => job.id))
+      .eq('status', 'pending')
+      .select('*')
+    
+    return data || []
+  }
+  
+  async getStaleJobs(lockedBefore: Date): Promise<PulseUpdateJobRecord[]> {
+    const { data, error } = await supabase
+      .from('pulse_update_jobs')
+      .select('*')
+      .eq('status', 'processing')
+      .lt('locked_at', lockedBefore.toISOString())
+      .order('locked_at', { ascending: true })
+    
+    if (error) throw error
+    return data || []
+  }
+  
+  async getDeadJobs(limit: number): Promise<PulseUpdateJobRecord[]> {
+    const { data } = await supabase
+      .from('pulse_update_jobs')
+      .select('*')
+      .eq('status', 'dead')
+      .order('updated_at', { ascending: false })
+      .limit(limit)
+    
+    return data || []
+  }
+  
+  // Pulse events
+  
+  async getActiveWebhooks(): Promise<PulseWebhookRecord[]> {
+    const { data } = await supabase
+      .from('pulse_webhooks')
+      .select('*')
+      .eq('active', true)
+    
+    return data || []
+  }
+  
+  async getWebhook(webhookId: string): Promise<PulseWebhookRecord | null> {
+    const { data } = await supabase
+      .from('pulse_webhooks')
+      .select('*')
+      .eq('id', webhookId)
+      .limit(1)
+    
+    return data?.[0] || null
+  }
+  
+  async insertWebhook(webhook: Omit<PulseWebhookRecord, 'id'>): Promise<PulseWebhookRecord> {
+    const { data, error } = await supabase
+      .from('pulse_webhooks')
+      .insert(webhook)
+      .select('*')
+      .single()
+    
+    if (error) throw error
+    return data
+  }
+  
+  async updateWebhook(webhookId: string, patch: Partial<PulseWebhookRecord>): Promise<void> {
+    await supabase
+      .from('pulse_webhooks')
+      .update(patch)
+      .eq('id', webhookId)
+  }
+  
+  async insertEventDeliveries(deliveries: Omit<PulseEventDeliveryRecord, 'id'>[]): Promise<PulseEventDeliveryRecord[]> {
+    if (deliveries.length === 0) return []
+    
+    const { data, error } = await supabase
+      .from('pulse_event_deliveries')
+      .insert(deliveries)
+      .select('*')
+    
+    if (error) throw error
+    return data || []
+  }
+  
+  async updateEventDelivery(deliveryId: string, patch: Partial<PulseEventDeliveryRecord>): Promise<void> {
+    await supabase
+      .from('pulse_event_deliveries')
+      .update(patch)
+      .eq('id', deliveryId)
+  }
+  
+  async claimDueEventDeliveries(now: Date, limit: number, leaseUntil: Date): Promise<PulseEventDeliveryRecord[]> {
+    const { data: due } = await supabase
+      .from('pulse_event_deliveries')
+      .select('id')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit)
+    
+    if (!due || due.length === 0) return []
+    
+    // Conditional update so two runners never take the same delivery
+    const { data, error } = await supabase
+      .from('pulse_event_deliveries')
+      .update({ next_attempt_at: leaseUntil.toISOString() })
+      .in('id', due.map((delivery: { id: string }) => delivery.id))
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now.toISOString())
+      .select('*')
+    
+    if (error) throw error
+    return (data || []).sort((a: PulseEventDeliveryRecord, b: PulseEventDeliveryRecord) =>
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    )
+  }
+  
+  async getEventDeliveries(webhookId: string, limit: number): Promise<PulseEventDeliveryRecord[]> {
+    const { data } = await supabase
+      .from('pulse_event_deliveries')
+      .select('*')
+      .eq('webhook_id', webhookId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+    
+    return data || []
+  }
+  
+  // Alerts
+  
+  async insertAlert(alert: Omit<PulseAlertRecord, 'id'>): Promise<PulseAlertRecord> {
+    const { data, error } = await supabase
+      .from('pulse_alerts')
+      .insert(alert)
+      .select('*')
+      .single()
+    
+    if (error) throw error
+    return data
+  }
+  
+  async updateAlert(alertId: string, patch: Partial<PulseAlertRecord>): Promise<void> {
+    await supabase
+      .from('pulse_alerts')
+      .update(patch)
+      .eq('id', alertId)
+  }
+  
+  async getUserAlerts(userId: string): Promise<PulseAlertRecord[]> {
+    const { data } = await supabase
+      .from('pulse_alerts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+    
+    return data || []
+  }
+  
+  async getActiveVenueAlerts(venueIds: number[]): Promise<PulseAlertRecord[]> {
+    return inChunks<PulseAlertRecord>(venueIds, chunk => supabase
+      .from('pulse_alerts')
+      .select('*')
+      .eq('active', true)
+      .in('venue_id', chunk)
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async getActiveAreaAlerts(): Promise<PulseAlertRecord[]> {
+    return allPages<PulseAlertRecord>(() => supabase
+      .from('pulse_alerts')
+      .select('*')
+      .eq('active', true)
+      .not('area_radius_m', 'is', null)
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async insertAlertNotifications(entries: Omit<AlertNotificationRecord, 'id'>[]): Promise<AlertNotificationRecord[]> {
+    if (entries.length === 0) return []
+    
+    // The unique (alert_id, nightlife_date) index makes this fire-once across workers
+    const { data, error } = await supabase
+      .from('alert_notifications')
+      .upsert(entries, { onConflict: 'alert_id,nightlife_date', ignoreDuplicates: true })
+      .select('*')
+    
+    if (error) throw error
+    return data || []
+  }
+  
+  async getPendingAlertNotifications(limit: number): Promise<AlertNotificationRecord[]> {
+    const { data } = await supabase
+      .from('alert_notifications')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+    
+    return data || []
+  }
+  
+  async updateAlertNotifications(notificationIds: string[], status: AlertNotificationStatus, sentAt: string | null): Promise<void> {
+    if (notificationIds.length === 0) return
+    
+    await supabase
+      .from('alert_notifications')
+      .update({ status, sent_at: sentAt })
+      .in('id', notificationIds)
+  }
+  
+  // Baselines
+  
+  async getVenueBaselines(venueId: number): Promise<VenueBaselineRecord[]> {
+    const { data } = await supabase
+      .from('venue_hourly_baselines')
+      .select('*')
+      .eq('venue_id', venueId)
+    
+    return data || []
+  }
+  
+  async replaceVenueBaselines(venueId: number, records: VenueBaselineRecord[], learnedAt: string): Promise<void> {
+    // Delete, insert and stamp venues.baseline_learned_at in one transaction (see VENUE_BASELINES_SQL)
+    const { error } = await supabase.rpc('replace_venue_baselines', {
+      p_venue_id: venueId,
+      p_records: records,
+      p_learned_at: learnedAt
+    })
+    if (error) throw error
+  }
+  
+  async getVenueBaselinesForVenues(venueIds: number[], hoursOfWeek: number[]): Promise<VenueBaselineRecord[]> {
+    if (hoursOfWeek.length === 0) return []
+    
+    return inChunks<VenueBaselineRecord>(venueIds, chunk => supabase
+      .from('venue_hourly_baselines')
+      .select('*')
+      .in('venue_id', chunk)
+      .in('hour_of_week', hoursOfWeek)
+      .order('venue_id', { ascending: true })
+      .order('hour_of_week', { ascending: true })
+    )
+  }
+  
+  // Dwell models
+  
+  async getDwellModels(): Promise<DwellModelRecord[]> {
+    // A row per learned venue: more than one page once the city grows
+    return allPages<DwellModelRecord>(() => supabase
+      .from('venue_dwell_models')
+      .select('*')
+      .order('scope', { ascending: true })
+      .order('scope_key', { ascending: true })
+    )
+  }
+  
+  async upsertDwellModels(records: DwellModelRecord[]): Promise<void> {
+    if (records.length === 0) return
+    
+    await supabase
+      .from('venue_dwell_models')
+      .upsert(records, { onConflict: 'scope,scope_key' })
+  }
+  
+  // Reputation
+  
+  async getReputations(type: ReporterType, reporterIds: string[]): Promise<ReporterReputationRecord[]> {
+    if (reporterIds.length === 0) return []
+    
+    // The bulk snapshot asks for every reporter across all venues at once
+    return inChunks<ReporterReputationRecord, string>(reporterIds, ids => supabase
+      .from('reporter_reputation')
+      .select('*')
+      .eq('reporter_type', type)
+      .in('reporter_id', ids)
+      .order('reporter_id', { ascending: true })
+    )
+  }
+  
+  async upsertReputations(records: ReporterReputationRecord[]): Promise<void> {
+    if (records.length === 0) return
+    
+    await supabase
+      .from('reporter_reputation')
+      .upsert(records, { onConflict: 'reporter_type,reporter_id' })
+  }
+  
+  async getReporterFirstSeen(type: ReporterType, reporterIds: string[]): Promise<ReporterFirstSeenRecord[]> {
+    if (reporterIds.length === 0) return []
+    
+    if (type === 'user') {
+      const users = await inChunks<{ id: string, created_at: string }, string>(reporterIds, ids => supabase
+        .from('users')
+        .select('id, created_at')
+        .in('id', ids)
+        .order('id', { ascending: true })
+      )
+      
+      return users.map(u => ({
+        reporter_id: u.id,
+        first_seen_at: u.created_at
+      }))
+    }
+    
+    // Devices have no account: first ping (see REPORT_SCREENING_SQL)
+    const { data, error } = await supabase.rpc('device_first_seen', { p_device_ids: reporterIds })
+    if (error) throw error
+    return data || []
+  }
+  
+  // Report flags
+  
+  async getReportFlags(venueId: number, since: Date): Promise<ReportFlagRecord[]> {
+    const { data } = await supabase
+      .from('community_report_flags')
+      .select('*')
+      .eq('venue_id', venueId)
+      .gte('created_at', since.toISOString())
+    
+    return data || []
+  }
+  
+  async getReportFlagsForVenues(venueIds: number[], since: Date): Promise<ReportFlagRecord[]> {
+    return inChunks(venueIds, ids => supabase
+      .from('community_report_flags')
+      .select('*')
+      .in('venue_id', ids)
+      .gte('created_at', since.toISOString())
+      .order('id', { ascending: true })
+    )
+  }
+  
+  async insertReportFlags(flags: Omit<ReportFlagRecord, 'id'>[]): Promise<void> {
+    if (flags.length === 0) return
+    
+    await supabase
+      .from('community_report_flags')
+      .insert(flags)
+  }
+  
+  async getReportFlagsByStatus(status: ReportFlagStatus, limit: number): Promise<ReportFlagRecord[]> {
+    const { data } = await supabase
+      .from('community_report_flags')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+    
+    return data || []
+  }
+  
+  async updateReportFlag(flagId: string, patch: Partial<ReportFlagRecord>): Promise<void> {
+    await supabase
+      .from('community_report_flags')
+      .update(patch)
+      .eq('id', flagId)
+  }
+  
+  // Usage
+  
+  async recordApiCall(entry: BusynessApiCallRecord): Promise<void> {
+    await supabase
+      .from('busyness_api_calls')
+      .insert(entry)
+  }
+  
+  async countApiCalls(provider: string, since: Date): Promise<number> {
+    const { count } = await supabase
+      .from('busyness_api_calls')
+      .select('*', { count: 'exact', head: true })
+      .eq('provider', provider)
+      .gte('called_at', since.toISOString())
+    
+    return count || 0
+  }
+  
+  async recordVenueView(entry: VenueViewRecord): Promise<void> {
+    await supabase
+      .from('venue_views')
+      .insert(entry)
+  }
+  
+  async countVenueViews(venueId: number, since: Date): Promise<number> {
+    const { count } = await supabase
+      .from('venue_views')
+      .select('*', { count: 'exact', head: true })
+      .eq('venue_id', venueId)
+      .gte('viewed_at', since.toISOString())
+    
+    return count || 0
+  }
+  
+  async countVenueViewsForVenues(venueIds: number[], since: Date): Promise<VenueViewCount[]> {
+    // Grouped in the database (see API_BUDGET_SQL)
+    return inChunks<VenueViewCount>(venueIds, ids => supabase
+      .rpc('count_venue_views', { p_venue_ids: ids, p_since: since.toISOString() })
+      .order('venue_id', { ascending: true })
+    )
+  }
+}
@@ -0,0 +1,201 @@
+// lib/pulse/repository/types.ts
+
+import {
+  AlertNotificationRecord,
+  AlertNotificationStatus,
+  AnonymousPingRecord,
+  BusynessApiCallRecord,
+  CheckInRecord,
+  DwellModelRecord,
+  EventRecord,
+  GeoBounds,
+  GoogleBusynessCacheRecord,
+  GoogleBusynessLogRecord,
+  GooglePopularTimesRecord,
+  PulseAlertRecord,
+  PulseCalculationLogRecord,
+  PulseEventDeliveryRecord,
+  PulseHistoryRecord,
+  PulseUpdateJobRecord,
+  PulseWebhookRecord,
+  ReportFlagRecord,
+  ReportFlagStatus,
+  ReporterFirstSeenRecord,
+  ReporterReputationRecord,
+  ReporterType,
+  VenueBaselineRecord,
+  VenueHoursExceptionRecord,
+  VenuePulseBulkUpdate,
+  SocialSignalRecord,
+  UserPointsRecord,
+  VenuePulseUpdate,
+  VenueRatingRecord,
+  VenueRecord,
+  VenueStatusLogRecord,
+  VenueViewCount,
+  VenueViewRecord,
+  VibeReportRecord
+} from '../types'
+
+// Set-based variants (`...ForVenues`) serve the bulk batch path; same filters as the single-venue reads
+
+// venues
+export interface VenueStore {
+  getVenue(venueId: number): Promise<VenueRecord | null>
+  getActiveVenues(): Promise<VenueRecord[]> // Partners first
+  getActiveVenuesInBounds(bounds: GeoBounds, pulseUpdatedSince: Date): Promise<VenueRecord[]> // Closed venues kept whatever their pulse age
+  updateVenuePulse(venueId: number, update: VenuePulseUpdate): Promise<void>
+  updateVenuePulses(updates: VenuePulseBulkUpdate[]): Promise<void>
+}
+
+// venue_hours_exceptions
+export interface OpeningHoursStore {
+  getHoursExceptions(venueId: number, fromDate: string, toDate: string): Promise<VenueHoursExceptionRecord[]>
+  insertHoursException(entry: VenueHoursExceptionRecord): Promise<VenueHoursExceptionRecord>
+  deleteHoursException(exceptionId: string): Promise<void>
+  getHoursExceptionsForVenues(venueIds: number[], fromDate: string, toDate: string): Promise<VenueHoursExceptionRecord[]>
+}
+
+// checkins, venue_status_logs, venue_ratings, events
+export interface ActivityStore {
+  getCheckIns(venueId: number, since: Date): Promise<CheckInRecord[]>
+  getLatestStatusLog(venueId: number, since: Date): Promise<VenueStatusLogRecord | null>
+  getRatings(venueId: number, since: Date): Promise<VenueRatingRecord[]>
+  getEventsStartingBetween(venueId: number, from: Date, to: Date): Promise<EventRecord[]>
+  getCheckInsForVenues(venueIds: number[], since: Date): Promise<CheckInRecord[]>
+  getStatusLogsForVenues(venueIds: number[], since: Date): Promise<VenueStatusLogRecord[]>
+  getRatingsForVenues(venueIds: number[], since: Date): Promise<VenueRatingRecord[]>
+  getEventsForVenues(venueIds: number[], from: Date, to: Date): Promise<EventRecord[]>
+  getCompletedCheckInsForVenues(venueIds: number[], since: Date): Promise<CheckInRecord[]> // User check-outs only
+  getOpenCheckIns(createdBefore: Date, limit: number): Promise<CheckInRecord[]> // Oldest first
+  autoCheckOut(checkIns: Array<{ id: number, checked_out_at: string }>): Promise<void>
+}
+
+// community_vibe_reports, anonymous_pings, social_signals, user_points
+export interface CommunityStore {
+  hasRecentVibeReport(venueId: number, userId: string, since: Date): Promise<boolean>
+  insertVibeReport(report: VibeReportRecord): Promise<void>
+  getVibeReports(venueId: number, since: Date): Promise<VibeReportRecord[]>
+  countVibeReports(venueId: number, since: Date): Promise<number>
+  hasRecentPing(venueId: number, deviceId: string, since: Date): Promise<boolean>
+  insertPing(ping: AnonymousPingRecord): Promise<void>
+  getPings(venueId: number, since: Date): Promise<AnonymousPingRecord[]>
+  countPings(venueId: number, since: Date): Promise<number>
+  getSocialSignals(venueId: number, since: Date): Promise<SocialSignalRecord[]>
+  insertUserPoints(entry: UserPointsRecord): Promise<void>
+  getVibeReportsForVenues(venueIds: number[], since: Date): Promise<VibeReportRecord[]>
+  getPingsForVenues(venueIds: number[], since: Date): Promise<AnonymousPingRecord[]>
+  getSocialSignalsForVenues(venueIds: number[], since: Date): Promise<SocialSignalRecord[]>
+}
+
+// pulse_history, pulse_calculations_log, google_busyness_log
+export interface PulseLogStore {
+  insertPulseHistory(entry: PulseHistoryRecord): Promise<void>
+  getPulseHistory(venueId: number, since: Date): Promise<PulseHistoryRecord[]>
+  insertCalculationLog(entry: PulseCalculationLogRecord): Promise<void>
+  insertGoogleBusynessLog(entry: GoogleBusynessLogRecord): Promise<void>
+  getPulseHistoryForVenues(venueIds: number[], since: Date): Promise<PulseHistoryRecord[]> // Oldest first
+  insertPulseHistoryBatch(entries: PulseHistoryRecord[]): Promise<void>
+  insertCalculationLogs(entries: PulseCalculationLogRecord[]): Promise<void>
+}
+
+// google_busyness_cache, google_popular_times
+export interface GoogleCacheStore {
+  getGoogleCache(placeId: string): Promise<GoogleBusynessCacheRecord | null>
+  upsertGoogleCache(record: GoogleBusynessCacheRecord): Promise<void>
+  getPopularTimes(placeId: string): Promise<GooglePopularTimesRecord | null>
+  upsertPopularTimes(record: GooglePopularTimesRecord): Promise<void>
+  getGoogleCacheForPlaces(placeIds: string[]): Promise<GoogleBusynessCacheRecord[]> // Places with no row left out
+  getPopularTimesForPlaces(placeIds: string[]): Promise<GooglePopularTimesRecord[]>
+}
+
+// venue_hourly_baselines
+export interface BaselineStore {
+  getVenueBaselines(venueId: number): Promise<VenueBaselineRecord[]>
+  replaceVenueBaselines(venueId: number, records: VenueBaselineRecord[], learnedAt: string): Promise<void> // Also sets venues.baseline_learned_at
+  getVenueBaselinesForVenues(venueIds: number[], hoursOfWeek: number[]): Promise<VenueBaselineRecord[]>
+}
+
+// reporter_reputation, users
+export interface ReputationStore {
+  getReputations(type: ReporterType, reporterIds: string[]): Promise<ReporterReputationRecord[]>
+  upsertReputations(records: ReporterReputationRecord[]): Promise<void>
+  getReporterFirstSeen(type: ReporterType, reporterIds: string[]): Promise<ReporterFirstSeenRecord[]>
+}
+
+// community_report_flags
+export interface ReportFlagStore {
+  getReportFlags(venueId: number, since: Date): Promise<ReportFlagRecord[]>
+  insertReportFlags(flags: Omit<ReportFlagRecord, 'id'>[]): Promise<void>
+  getReportFlagsByStatus(status: ReportFlagStatus, limit: number): Promise<ReportFlagRecord[]> // Newest first
+  updateReportFlag(flagId: string, patch: Partial<ReportFlagRecord>): Promise<void>
+  getReportFlagsForVenues(venueIds: number[], since: Date): Promise<ReportFlagRecord[]>
+}
+
+// busyness_api_calls, venue_views
+export interface UsageStore {
+  recordApiCall(entry: BusynessApiCallRecord): Promise<void>
+  countApiCalls(provider: string, since: Date): Promise<number>
+  recordVenueView(entry: VenueViewRecord): Promise<void>
+  countVenueViews(venueId: number, since: Date): Promise<number>
+  countVenueViewsForVenues(venueIds: number[], since: Date): Promise<VenueViewCount[]> // Venues with no views left out
+}
+
+// pulse_update_jobs
+export interface PulseJobStore {
+  findPendingJob(venueId: number): Promise<PulseUpdateJobRecord | null>
+  insertJob(job: Omit<PulseUpdateJobRecord, 'id'>): Promise<PulseUpdateJobRecord>
+  updateJob(jobId: string, patch: Partial<PulseUpdateJobRecord>): Promise<void> // Throws on a second pending job per venue
+  claimDueJobs(now: Date, limit: number): Promise<PulseUpdateJobRecord[]> // pending -> processing
+  getStaleJobs(lockedBefore: Date): Promise<PulseUpdateJobRecord[]> // Processing, locked before
+  getDeadJobs(limit: number): Promise<PulseUpdateJobRecord[]>
+}
+
+// pulse_webhooks, pulse_event_deliveries
+export interface PulseEventStore {
+  getActiveWebhooks(): Promise<PulseWebhookRecord[]>
+  getWebhook(webhookId: string): Promise<PulseWebhookRecord | null>
+  insertWebhook(webhook: Omit<PulseWebhookRecord, 'id'>): Promise<PulseWebhookRecord>
+  updateWebhook(webhookId: string, patch: Partial<PulseWebhookRecord>): Promise<void>
+  insertEventDeliveries(deliveries: Omit<PulseEventDeliveryRecord, 'id'>[]): Promise<PulseEventDeliveryRecord[]>
+  updateEventDelivery(deliveryId: string, patch: Partial<PulseEventDeliveryRecord>): Promise<void>
+  claimDueEventDeliveries(now: Date, limit: number, leaseUntil: Date): Promise<PulseEventDeliveryRecord[]> // Pending and due, oldest first; next attempt moved to leaseUntil
+  getEventDeliveries(webhookId: string, limit: number): Promise<PulseEventDeliveryRecord[]> // Newest first
+}
+
+// pulse_alerts, alert_notifications
+export interface PulseAlertStore {
+  insertAlert(alert: Omit<PulseAlertRecord, 'id'>): Promise<PulseAlertRecord>
+  updateAlert(alertId: string, patch: Partial<PulseAlertRecord>): Promise<void>
+  getUserAlerts(userId: string): Promise<PulseAlertRecord[]>
+  getActiveVenueAlerts(venueIds: number[]): Promise<PulseAlertRecord[]>
+  getActiveAreaAlerts(): Promise<PulseAlertRecord[]>
+  insertAlertNotifications(entries: Omit<AlertNotificationRecord, 'id'>[]): Promise<AlertNotificationRecord[]> // Skips alerts already notified that night
+  getPendingAlertNotifications(limit: number): Promise<AlertNotificationRecord[]> // Oldest first
+  updateAlertNotifications(notificationIds: string[], status: AlertNotificationStatus, sentAt: string | null): Promise<void>
+}
+
+// venue_dwell_models
+export interface DwellModelStore {
+  getDwellModels(): Promise<DwellModelRecord[]>
+  upsertDwellModels(records: DwellModelRecord[]): Promise<void>
+}
+
+/**
+ * Everything the pulse engine reads from or writes to storage
+ */
+export interface PulseRepository extends
+  VenueStore,
+  OpeningHoursStore,
+  ActivityStore,
+  CommunityStore,
+  PulseLogStore,
+  GoogleCacheStore,
+  PulseJobStore,
+  PulseEventStore,
+  PulseAlertStore,
+  BaselineStore,
+  DwellModelStore,
+  ReputationStore,
+  ReportFlagStore,
+  UsageStore {}
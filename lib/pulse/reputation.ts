@@ -0,0 +1,290 @@
+// lib/pulse/reputation.ts
+
+import {
+  AnonymousPingRecord,
+  CheckInRecord,
+  PulseHistoryRecord,
+  QuickVibeReport,
+  ReporterReputationRecord,
+  ReporterType,
+  VibeReportRecord
+} from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+
+const HOUR_MS = 60 * 60 * 1000
+const SCORING_WINDOW_MS = 24 * HOUR_MS
+const MATCH_WINDOW_MS = 30 * 60 * 1000   // Evidence this close to a report counts
+const MIN_PEER_REPORTS = 2               // Others needed to form a consensus
+const PRIOR_REPORTS = 5                  // New reporters start near DEFAULT_TRUST
+const MAX_TRUST_WEIGHT = 2
+
+export const DEFAULT_TRUST = 0.5
+export const LOW_TRUST = 0.3
+
+// History rows built from these carry community votes; scoring reporters
+// against them would let a group vouch for itself
+const COMMUNITY_DERIVED_SOURCES = ['community', 'presence', 'occupancy', 'estimated']
+
+const VIBE_LEVELS: Array<QuickVibeReport['vibe_level']> = ['dead', 'chill', 'busy', 'packed']
+
+/**
+ * Vote weight relative to an unknown reporter (1.0)
+ */
+export function trustWeight(trust: number): number {
+  // Below LOW_TRUST the weight falls off quadratically
+  if (trust < LOW_TRUST) {
+    return Math.max(0, (trust / LOW_TRUST) ** 2 * (LOW_TRUST / DEFAULT_TRUST))
+  }
+  return Math.min(MAX_TRUST_WEIGHT, trust / DEFAULT_TRUST)
+}
+
+/**
+ * Vibe level a pulse value corresponds to
+ */
+export function vibeFromPulse(pulse: number): QuickVibeReport['vibe_level'] {
+  if (pulse < 2.5) return 'dead'
+  if (pulse < 5) return 'chill'
+  if (pulse < 7.5) return 'busy'
+  return 'packed'
+}
+
+/**
+ * Scores reporters by how well their reports matched what actually happened
+ */
+export class ReporterReputationService {
+  private repository: PulseRepository
+  
+  constructor(repository: PulseRepository = new SupabasePulseRepository()) {
+    this.repository = repository
+  }
+  
+  /**
+   * Trust per reporter, DEFAULT_TRUST for anyone not yet scored
+   */
+  async getTrust(type: ReporterType, reporterIds: string[]): Promise<Map<string, number>> {
+    const ids = Array.from(new Set(reporterIds))
+    const trust = new Map(ids.map(id => [id, DEFAULT_TRUST]))
+    if (ids.length === 0) return trust
+    
+    const records = await this.repository.getReputations(type, ids)
+    records.forEach(r => trust.set(r.reporter_id, r.trust))
+    return trust
+  }
+  
+  /**
+   * Score the last night's reports and update trust. Run once per night.
+   */
+  async updateNightly(now: Date = new Date()): Promise<{
+    reportsScored: number
+    usersUpdated: number
+    devicesUpdated: number
+  }> {
+    const since = new Date(now.getTime() - SCORING_WINDOW_MS)
+    const evidenceSince = new Date(since.getTime() - MATCH_WINDOW_MS)
+    
+    const userScores = new Map<string, ScoredReport[]>()
+    const deviceScores = new Map<string, ScoredReport[]>()
+    
+    const venues = await this.repository.getActiveVenues()
+    
+    for (const venue of venues) {
+      const [reports, pings, allHistory, checkIns] = await Promise.all([
+        this.repository.getVibeReports(venue.id, evidenceSince),
+        this.repository.getPings(venue.id, evidenceSince),
+        this.repository.getPulseHistory(venue.id, evidenceSince),
+        venue.spree_onboarded
+          ? this.repository.getCheckIns(venue.id, evidenceSince)
+          : Promise.resolve([])
+      ])
+      const history = allHistory.filter(h =>
+        !h.data_sources.some(source => COMMUNITY_DERIVED_SOURCES.includes(source))
+      )
+      
+      reports
+        .filter(r => isInWindow(r.created_at, since, now))
+        .forEach(report => {
+          const score = this.scoreVibeReport(report, reports, history)
+          if (score !== null) {
+            addScore(userScores, report.user_id, { score, createdAt: report.created_at })
+          }
+        })
+      
+      pings
+        .filter(p => isInWindow(p.created_at, since, now))
+        .forEach(ping => {
+          const score = this.scorePing(ping, pings, checkIns, history)
+          if (score !== null) {
+            addScore(deviceScores, ping.device_id, { score, createdAt: ping.created_at })
+          }
+        })
+    }
+    
+    const [users, devices] = await Promise.all([
+      this.applyScores('user', userScores, now),
+      this.applyScores('device', deviceScores, now)
+    ])
+    
+    return {
+      reportsScored: users.reportsScored + devices.reportsScored,
+      usersUpdated: users.updated,
+      devicesUpdated: devices.updated
+    }
+  }
+  
+  /**
+   * Agreement with other reporters and with the venue's pulse, 0-1
+   *
+   * `history` holds only pulses computed without community input.
+   */
+  private scoreVibeReport(
+    report: VibeReportRecord,
+    reports: VibeReportRecord[],
+    history: PulseHistoryRecord[]
+  ): number | null {
+    const scores: number[] = []
+    const reported = VIBE_LEVELS.indexOf(report.vibe_level)
+    
+    // Consensus of everyone else reporting around the same time
+    const peers = reports.filter(r =>
+      r.user_id !== report.user_id && isNear(r.created_at, report.created_at)
+    )
+    if (peers.length >= MIN_PEER_REPORTS) {
+      const consensus = median(peers.map(p => VIBE_LEVELS.indexOf(p.vibe_level)))
+      scores.push(1 - Math.abs(reported - consensus) / 3)
+    }
+    
+    // Pulse from check-ins/Google at the time
+    const pulse = nearestPulse(history, report.created_at)
+    if (pulse !== null) {
+      scores.push(1 - Math.abs(reported - VIBE_LEVELS.indexOf(vibeFromPulse(pulse))) / 3)
+    }
+    
+    if (scores.length === 0) return null
+    return scores.reduce((a, b) => a + b, 0) / scores.length
+  }
+  
+  /**
+   * A ping claims someone is there; check whether anything backs that up
+   */
+  private scorePing(
+    ping: AnonymousPingRecord,
+    pings: AnonymousPingRecord[],
+    checkIns: CheckInRecord[],
+    history: PulseHistoryRecord[]
+  ): number | null {
+    const corroborated =
+      pings.some(p => p.device_id !== ping.device_id && isNear(p.created_at, ping.created_at)) ||
+      checkIns.some(c => isNear(c.created_at, ping.created_at))
+    if (corroborated) return 1
+    
+    const pulse = nearestPulse(history, ping.created_at)
+    if (pulse === null) return null
+    
+    return vibeFromPulse(pulse) === 'dead' ? 0.2 : 0.8
+  }
+  
+  private async applyScores(
+    type: ReporterType,
+    scores: Map<string, ScoredReport[]>,
+    now: Date
+  ): Promise<{ reportsScored: number, updated: number }> {
+    if (scores.size === 0) return { reportsScored: 0, updated: 0 }
+    
+    const existing = new Map(
+      (await this.repository.getReputations(type, Array.from(scores.keys())))
+        .map(r => [r.reporter_id, r])
+    )
+    
+    let reportsScored = 0
+    const records: ReporterReputationRecord[] = []
+    
+    scores.forEach((reporterScores, reporterId) => {
+      const previous = existing.get(reporterId)
+      
+      // Skip anything an earlier run already scored
+      const fresh = previous
+        ? reporterScores.filter(s => new Date(s.createdAt) > new Date(previous.last_scored_at))
+        : reporterScores
+      if (fresh.length === 0) return
+      
+      const scoreSum = (previous?.score_sum || 0) + fresh.reduce((sum, s) => sum + s.score, 0)
+      const reportsCount = (previous?.reports_scored || 0) + fresh.length
+      const lastScoredAt = new Date(Math.max(
+        ...fresh.map(s => new Date(s.createdAt).getTime())
+      )).toISOString()
+      
+      reportsScored += fresh.length
+      records.push({
+        reporter_type: type,
+        reporter_id: reporterId,
+        // Shrink towards DEFAULT_TRUST until there is a track record
+        trust: Math.round(
+          (PRIOR_REPORTS * DEFAULT_TRUST + scoreSum) / (PRIOR_REPORTS + reportsCount) * 1000
+        ) / 1000,
+        score_sum: scoreSum,
+        reports_scored: reportsCount,
+        last_scored_at: lastScoredAt,
+        updated_at: now.toISOString()
+      })
+    })
+    
+    await this.repository.upsertReputations(records)
+    return { reportsScored, updated: records.length }
+  }
+}
+
+interface ScoredReport {
+  score: number
+  createdAt: string
+}
+
+function addScore(scores: Map<string, ScoredReport[]>, reporterId: string, scored: ScoredReport) {
+  const list = scores.get(reporterId) || []
+  list.push(scored)
+  scores.set(reporterId, list)
+}
+
+function isInWindow(timestamp: string, from: Date, to: Date): boolean {
+  const time = new Date(timestamp).getTime()
+  return time >= from.getTime() && time < to.getTime()
+}
+
+function isNear(a: string, b: string): boolean {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) <= MATCH_WINDOW_MS
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function nearestPulse(history: PulseHistoryRecord[], timestamp: string): number | null {
+  let nearest: number | null = null
+  let nearestGap = Infinity
+  
+  for (const h of history) {
+    if (!h.created_at) continue
+    const gap = Math.abs(new Date(h.created_at).getTime() - new Date(timestamp).getTime())
+    if (gap <= MATCH_WINDOW_MS && gap < nearestGap) {
+      nearest = h.pulse_value
+      nearestGap = gap
+    }
+  }
+  
+  return nearest
+}
+
+// Database tables needed:
+export const REPORTER_REPUTATION_SQL = `
+CREATE TABLE IF NOT EXISTS reporter_reputation (
+  reporter_type TEXT NOT NULL CHECK (reporter_type IN ('user', 'device')),
+  reporter_id TEXT NOT NULL,
+  trust DECIMAL(4,3) NOT NULL DEFAULT 0.5,
+  score_sum DECIMAL(10,3) NOT NULL DEFAULT 0,
+  reports_scored INTEGER NOT NULL DEFAULT 0,
+  last_scored_at TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (reporter_type, reporter_id)
+);
+`
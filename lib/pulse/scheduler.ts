@@ -0,0 +1,156 @@
+// lib/pulse/scheduler.ts
+
+import { VenueRecord } from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { ApiBudget, ApiBudgetStatus } from './budget'
+import { PulseCalculator } from './calculations'
+import { getScoringProfile } from './profiles'
+import { getVenueLocalTime } from './time'
+
+const HOUR_MS = 60 * 60 * 1000
+const MIN_TTL_MS = 5 * 60 * 1000
+const MAX_TTL_MS = 3 * HOUR_MS
+const VIEW_WINDOW_MS = 24 * HOUR_MS
+const VOLATILITY_WINDOW_MS = 3 * HOUR_MS
+const BUDGET_MAX_AGE_MS = 60 * 1000       // Budget status reused within a run
+const PRIORITY_MAX_AGE_MS = 5 * 60 * 1000 // plan() results reused by the providers during a run
+
+// Cached busyness older than this is never served, budget or not
+export const MAX_STALE_MS = 12 * HOUR_MS
+
+const WEIGHTS = { views: 0.4, timeOfNight: 0.35, volatility: 0.25 }
+
+export interface RefreshPriority {
+  venueId: number
+  priority: number           // 0-1
+  ttlMs: number              // How long cached busyness stays good
+  views: number              // Last 24h
+  volatility: number         // Std of recent pulse moves
+}
+
+/**
+ * Cache lifetime for a priority, stretched as the day's budget runs out
+ */
+export function adaptiveTtl(priority: number, budget: Pick<ApiBudgetStatus, 'remainingShare'>): number {
+  if (budget.remainingShare <= 0) return MAX_STALE_MS // Serve what is cached, up to a point
+  
+  const ttl = MIN_TTL_MS + (1 - priority) ** 2 * (MAX_TTL_MS - MIN_TTL_MS)
+  return Math.min(MAX_TTL_MS, ttl / Math.max(0.2, budget.remainingShare))
+}
+
+/**
+ * Decides which venues deserve fresh paid busyness data
+ */
+export class BusynessRefreshScheduler {
+  private repository: PulseRepository
+  private budget: ApiBudget
+  private calculator: PulseCalculator
+  private status: { at: number, value: ApiBudgetStatus } | null = null
+  private priorities = new Map<number, { at: number, value: RefreshPriority }>()
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    budget: ApiBudget = new ApiBudget(repository)
+  ) {
+    this.repository = repository
+    this.budget = budget
+    this.calculator = new PulseCalculator()
+  }
+  
+  /**
+   * Priority and cache TTL for one venue, from the last plan() when recent
+   */
+  async getPriority(venue: VenueRecord, now: Date = new Date()): Promise<RefreshPriority> {
+    const memo = this.priorities.get(venue.id)
+    if (memo && Math.abs(now.getTime() - memo.at) <= PRIORITY_MAX_AGE_MS) {
+      return memo.value
+    }
+    
+    const [priority] = await this.plan([venue], now)
+    return priority
+  }
+  
+  /**
+   * Venues ordered by priority, so the budget goes to the ones that matter first
+   *
+   * Views and recent history are read for all venues at once.
+   */
+  async plan(venues: VenueRecord[], now: Date = new Date()): Promise<RefreshPriority[]> {
+    if (venues.length === 0) return []
+    
+    const ids = venues.map(v => v.id)
+    const [viewCounts, history, budget] = await Promise.all([
+      this.repository.countVenueViewsForVenues(ids, new Date(now.getTime() - VIEW_WINDOW_MS)),
+      this.repository.getPulseHistoryForVenues(ids, new Date(now.getTime() - VOLATILITY_WINDOW_MS)),
+      this.getBudgetStatus(now)
+    ])
+    
+    const views = new Map(viewCounts.map(c => [c.venue_id, c.views]))
+    const pulses = new Map<number, number[]>()
+    history.forEach(h => {
+      const values = pulses.get(h.venue_id) || []
+      values.push(h.pulse_value)
+      pulses.set(h.venue_id, values)
+    })
+    
+    const priorities = venues.map(venue => {
+      const priority = this.score(venue, views.get(venue.id) || 0, pulses.get(venue.id) || [], budget, now)
+      this.priorities.set(venue.id, { at: now.getTime(), value: priority })
+      return priority
+    })
+    
+    return priorities.sort((a, b) => b.priority - a.priority)
+  }
+  
+  private score(
+    venue: VenueRecord,
+    views: number,
+    pulses: number[],
+    budget: ApiBudgetStatus,
+    now: Date
+  ): RefreshPriority {
+    // Std of consecutive pulse changes
+    const moves = pulses.slice(1).map((value, i) => value - pulses[i])
+    const volatility = moves.length > 1
+      ? Math.sqrt(moves.reduce((sum, m) => sum + m * m, 0) / moves.length)
+      : 0
+    
+    // Busy hours for this kind of venue matter most
+    const localTime = getVenueLocalTime(venue, now)
+    const modifier = this.calculator.getTimeModifier(
+      localTime.hour,
+      localTime.nightlifeDayOfWeek,
+      getScoringProfile(venue.venue_type)
+    )
+    
+    const scores = {
+      views: Math.min(1, Math.log10(1 + views) / 2),    // 100 views/day = 1
+      timeOfNight: clamp01((modifier - 0.5) / 0.7),     // 0.5x = 0, 1.2x = 1
+      volatility: clamp01(volatility / 1.5)
+    }
+    const priority = Math.round((
+      scores.views * WEIGHTS.views +
+      scores.timeOfNight * WEIGHTS.timeOfNight +
+      scores.volatility * WEIGHTS.volatility
+    ) * 1000) / 1000
+    
+    return {
+      venueId: venue.id,
+      priority,
+      ttlMs: adaptiveTtl(priority, budget),
+      views,
+      volatility: Math.round(volatility * 100) / 100
+    }
+  }
+  
+  private async getBudgetStatus(now: Date): Promise<ApiBudgetStatus> {
+    if (!this.status || Math.abs(now.getTime() - this.status.at) > BUDGET_MAX_AGE_MS) {
+      this.status = { at: now.getTime(), value: await this.budget.getStatus(now) }
+    }
+    return this.status.value
+  }
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
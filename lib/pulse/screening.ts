@@ -0,0 +1,307 @@
+// lib/pulse/screening.ts
+
+import {
+  CommunityReportKind,
+  QuickVibeReport,
+  ReportFlagReason,
+  ReportFlagRecord,
+  ReporterReputationRecord,
+  ReporterType,
+  VenueDataSource,
+  VenueRecord
+} from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { vibeFromPulse } from './reputation'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const SCREEN_WINDOW_MS = 60 * MINUTE_MS      // Matches the consensus window
+const BURST_WINDOW_MS = 15 * MINUTE_MS
+const BURST_MIN_REPORTS = 5                  // From new accounts, within BURST_WINDOW_MS
+const CHURN_MIN_DEVICES = 8                  // New devices, within BURST_WINDOW_MS
+const CHURN_MIN_SHARE = 0.7                  // Of all pings in the window
+const COORDINATED_WINDOW_MS = 60 * 1000
+const COORDINATED_MIN_REPORTS = 4            // Same vibe within COORDINATED_WINDOW_MS
+const COORDINATED_MIN_PINGS = 5
+const NEW_ACCOUNT_AGE_MS = 7 * DAY_MS        // Younger accounts (devices: first ping) are new
+const USUAL_VOLUME_WINDOW_MS = 28 * DAY_MS
+const USUAL_ACTIVE_HOURS_PER_DAY = 6         // Reports cluster in a venue's busy hours
+const USUAL_VOLUME_MULTIPLE = 3              // Minimums above rise to this many times a usual window
+const TRUSTED_REPORTER = 0.7                 // Never flagged for contradicting ground truth
+const GROUND_TRUTH_MAX_AGE_MS = 30 * MINUTE_MS
+const GROUND_TRUTH_MIN_CONFIDENCE = 0.6
+
+const VIBE_LEVELS: Array<QuickVibeReport['vibe_level']> = ['dead', 'chill', 'busy', 'packed']
+
+// A vibe report or ping, as screened
+interface Submission {
+  kind: CommunityReportKind
+  id: string
+  reporterId: string
+  vibeLevel: QuickVibeReport['vibe_level'] | null
+  time: number
+  isNew: boolean
+  trust: number | null
+}
+
+/**
+ * Flags brigading and spam in community reports and keeps them out of consensus
+ */
+export class CommunityReportScreener {
+  private repository: PulseRepository
+  
+  constructor(repository: PulseRepository = new SupabasePulseRepository()) {
+    this.repository = repository
+  }
+  
+  /**
+   * Check a venue's recent reports and pings, quarantining anything suspicious
+   */
+  async screen(venueId: number, now: Date = new Date()): Promise<Omit<ReportFlagRecord, 'id'>[]> {
+    const since = new Date(now.getTime() - SCREEN_WINDOW_MS)
+    
+    const usualSince = new Date(now.getTime() - USUAL_VOLUME_WINDOW_MS)
+    
+    const [venue, reports, pings, existingFlags, usualReports, usualPings] = await Promise.all([
+      this.repository.getVenue(venueId),
+      this.repository.getVibeReports(venueId, since),
+      this.repository.getPings(venueId, since),
+      this.repository.getReportFlags(venueId, since),
+      this.repository.countVibeReports(venueId, usualSince),
+      this.repository.countPings(venueId, usualSince)
+    ])
+    
+    const [users, devices, userFirstSeen, deviceFirstSeen] = await Promise.all([
+      this.getReputations('user', reports.map(r => r.user_id)),
+      this.getReputations('device', pings.map(p => p.device_id)),
+      this.getFirstSeen('user', reports.map(r => r.user_id)),
+      this.getFirstSeen('device', pings.map(p => p.device_id))
+    ])
+    
+    const vibeSubmissions: Submission[] = reports
+      .filter(r => !!r.id)
+      .map(r => toSubmission('vibe_report', r.id!, r.user_id, r.vibe_level, r.created_at, users, userFirstSeen, now))
+    const pingSubmissions: Submission[] = pings
+      .filter(p => !!p.id)
+      .map(p => toSubmission('anonymous_ping', p.id!, p.device_id, null, p.created_at, devices, deviceFirstSeen, now))
+    
+    // Busy venues get proportionally more reports, so need more to look suspicious
+    const reportsThreshold = (minimum: number, windowMs: number) =>
+      usualThreshold(minimum, usualReports, windowMs)
+    const pingsThreshold = (minimum: number, windowMs: number) =>
+      usualThreshold(minimum, usualPings, windowMs)
+    
+    const reasons = new Map<string, Set<ReportFlagReason>>()
+    const flag = (items: Submission[], reason: ReportFlagReason) => {
+      items.forEach(item => {
+        const key = submissionKey(item.kind, item.id)
+        const itemReasons = reasons.get(key) || new Set<ReportFlagReason>()
+        itemReasons.add(reason)
+        reasons.set(key, itemReasons)
+      })
+    }
+    
+    // Bursts of reports from unproven accounts
+    flag(
+      clustered(vibeSubmissions.filter(s => s.isNew), BURST_WINDOW_MS, reportsThreshold(BURST_MIN_REPORTS, BURST_WINDOW_MS)),
+      'new_account_burst'
+    )
+    
+    // Pings from a swarm of never-seen devices
+    const newPings = pingSubmissions.filter(s => s.isNew)
+    if (pingSubmissions.length > 0 && newPings.length / pingSubmissions.length >= CHURN_MIN_SHARE) {
+      flag(clustered(newPings, BURST_WINDOW_MS, pingsThreshold(CHURN_MIN_DEVICES, BURST_WINDOW_MS)), 'device_churn')
+    }
+    
+    // Identical submissions landing within seconds of each other
+    const coordinatedReports = reportsThreshold(COORDINATED_MIN_REPORTS, COORDINATED_WINDOW_MS)
+    VIBE_LEVELS.forEach(level => {
+      const sameVibe = vibeSubmissions.filter(s => s.vibeLevel === level)
+      flag(clustered(sameVibe, COORDINATED_WINDOW_MS, coordinatedReports), 'coordinated_timing')
+    })
+    flag(
+      clustered(pingSubmissions, COORDINATED_WINDOW_MS, pingsThreshold(COORDINATED_MIN_PINGS, COORDINATED_WINDOW_MS)),
+      'coordinated_timing'
+    )
+    
+    // Reports far off what check-ins/Google say
+    const groundTruth = venue ? getGroundTruth(venue, now) : null
+    if (groundTruth) {
+      const expected = VIBE_LEVELS.indexOf(groundTruth)
+      flag(
+        vibeSubmissions.filter(s =>
+          Math.abs(VIBE_LEVELS.indexOf(s.vibeLevel!) - expected) >= 2 &&
+          (s.trust === null || s.trust < TRUSTED_REPORTER)
+        ),
+        'contradicts_ground_truth'
+      )
+    }
+    
+    // Each report is flagged once; reviewed ones stay reviewed
+    const alreadyFlagged = new Set(existingFlags.map(f => submissionKey(f.report_kind, f.report_id)))
+    const createdAt = now.toISOString()
+    
+    const flags: Omit<ReportFlagRecord, 'id'>[] = [...vibeSubmissions, ...pingSubmissions]
+      .filter(s => reasons.has(submissionKey(s.kind, s.id)))
+      .filter(s => !alreadyFlagged.has(submissionKey(s.kind, s.id)))
+      .map(s => ({
+        report_kind: s.kind,
+        report_id: s.id,
+        venue_id: venueId,
+        reporter_id: s.reporterId,
+        vibe_level: s.vibeLevel,
+        reasons: Array.from(reasons.get(submissionKey(s.kind, s.id))!),
+        status: 'quarantined',
+        created_at: createdAt
+      }))
+    
+    await this.repository.insertReportFlags(flags)
+    return flags
+  }
+  
+  /**
+   * Keys (see submissionKey) of reports that must not count towards consensus
+   */
+  async getExcludedKeys(venueId: number, since: Date): Promise<Set<string>> {
+    const flags = await this.repository.getReportFlags(venueId, since)
+    return new Set(
+      flags
+        .filter(f => f.status !== 'approved')
+        .map(f => submissionKey(f.report_kind, f.report_id))
+    )
+  }
+  
+  /**
+   * Quarantined reports awaiting review, newest first
+   */
+  async getReviewQueue(limit: number = 50): Promise<ReportFlagRecord[]> {
+    return this.repository.getReportFlagsByStatus('quarantined', limit)
+  }
+  
+  /**
+   * Release a quarantined report into consensus, or reject it for good
+   */
+  async review(flagId: string, decision: 'approved' | 'rejected'): Promise<void> {
+    await this.repository.updateReportFlag(flagId, {
+      status: decision,
+      reviewed_at: new Date().toISOString()
+    })
+  }
+  
+  private async getReputations(
+    type: ReporterReputationRecord['reporter_type'],
+    reporterIds: string[]
+  ): Promise<Map<string, ReporterReputationRecord>> {
+    const ids = Array.from(new Set(reporterIds))
+    if (ids.length === 0) return new Map()
+    
+    const records = await this.repository.getReputations(type, ids)
+    return new Map(records.map(r => [r.reporter_id, r]))
+  }
+  
+  private async getFirstSeen(type: ReporterType, reporterIds: string[]): Promise<Map<string, number>> {
+    const ids = Array.from(new Set(reporterIds))
+    if (ids.length === 0) return new Map()
+    
+    const records = await this.repository.getReporterFirstSeen(type, ids)
+    return new Map(records.map(r => [r.reporter_id, new Date(r.first_seen_at).getTime()]))
+  }
+}
+
+export function submissionKey(kind: CommunityReportKind, id: string): string {
+  return `${kind}:${id}`
+}
+
+function toSubmission(
+  kind: CommunityReportKind,
+  id: string,
+  reporterId: string,
+  vibeLevel: QuickVibeReport['vibe_level'] | null,
+  createdAt: string,
+  reputations: Map<string, ReporterReputationRecord>,
+  firstSeen: Map<string, number>,
+  now: Date
+): Submission {
+  const reputation = reputations.get(reporterId)
+  const seenAt = firstSeen.get(reporterId)
+  return {
+    kind,
+    id,
+    reporterId,
+    vibeLevel,
+    time: new Date(createdAt).getTime(),
+    isNew: seenAt === undefined || now.getTime() - seenAt < NEW_ACCOUNT_AGE_MS,
+    trust: reputation ? reputation.trust : null
+  }
+}
+
+/**
+ * A minimum cluster size, raised to a multiple of what the venue usually gets in such a window
+ */
+function usualThreshold(minimum: number, usualCount: number, windowMs: number): number {
+  const activeMs = USUAL_VOLUME_WINDOW_MS / DAY_MS * USUAL_ACTIVE_HOURS_PER_DAY * 60 * MINUTE_MS
+  const usualPerWindow = usualCount * windowMs / activeMs
+  return Math.max(minimum, Math.ceil(usualPerWindow * USUAL_VOLUME_MULTIPLE))
+}
+
+/**
+ * Items that fall in any window of `windowMs` holding at least `minSize` items
+ */
+function clustered(items: Submission[], windowMs: number, minSize: number): Submission[] {
+  const sorted = [...items].sort((a, b) => a.time - b.time)
+  const hits = new Set<Submission>()
+  let start = 0
+  
+  for (let end = 0; end < sorted.length; end++) {
+    while (sorted[end].time - sorted[start].time > windowMs) start++
+    if (end - start + 1 >= minSize) {
+      sorted.slice(start, end + 1).forEach(item => hits.add(item))
+    }
+  }
+  
+  return Array.from(hits)
+}
+
+/**
+ * Vibe implied by a fresh, confident pulse that did not come from the community
+ */
+function getGroundTruth(venue: VenueRecord, now: Date): QuickVibeReport['vibe_level'] | null {
+  const source = venue.pulse_data_source
+  if (source !== VenueDataSource.SPREE && source !== VenueDataSource.GOOGLE) return null
+  if ((venue.pulse_confidence || 0) < GROUND_TRUTH_MIN_CONFIDENCE) return null
+  if (!venue.pulse_updated_at) return null
+  if (now.getTime() - new Date(venue.pulse_updated_at).getTime() > GROUND_TRUTH_MAX_AGE_MS) return null
+  
+  return vibeFromPulse(venue.pulse)
+}
+
+// Database tables needed:
+export const REPORT_SCREENING_SQL = `
+CREATE TABLE IF NOT EXISTS community_report_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_kind TEXT NOT NULL CHECK (report_kind IN ('vibe_report', 'anonymous_ping')),
+  report_id UUID NOT NULL,
+  venue_id INTEGER REFERENCES venues(id) NOT NULL,
+  reporter_id TEXT NOT NULL,
+  vibe_level TEXT,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'quarantined' CHECK (status IN ('quarantined', 'approved', 'rejected')),
+  created_at TIMESTAMP DEFAULT NOW(),
+  reviewed_at TIMESTAMP,
+  UNIQUE (report_kind, report_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_flags_venue_time ON community_report_flags(venue_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_report_flags_status ON community_report_flags(status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_pings_device_time ON anonymous_pings(device_id, created_at);
+
+-- Devices have no account; their age is their first ping
+CREATE OR REPLACE FUNCTION device_first_seen(p_device_ids TEXT[])
+RETURNS TABLE (reporter_id TEXT, first_seen_at TIMESTAMP) AS $$
+  SELECT device_id, MIN(created_at)
+  FROM anonymous_pings
+  WHERE device_id = ANY(p_device_ids)
+  GROUP BY device_id;
+$$ LANGUAGE sql STABLE;
+`
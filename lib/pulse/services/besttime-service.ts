@@ -0,0 +1,132 @@
+// lib/pulse/services/besttime-service.ts
+
+import { BusynessReading, GoogleBusynessData, VenueRecord } from '../types'
+import { PulseRepository, SupabasePulseRepository } from '../repository'
+import { ApiBudget, DEFAULT_BESTTIME_BUDGET } from '../budget'
+import { BusynessRefreshScheduler, MAX_STALE_MS } from '../scheduler'
+import { BusynessProvider } from './busyness-provider'
+
+const CACHE_TTL_MS = 5 * 60 * 1000 // Without a scheduler
+
+/**
+ * google_busyness_cache key for a venue's BestTime reading
+ */
+export function besttimeCacheKey(venueId: number): string {
+  return `besttime:${venueId}`
+}
+
+/**
+ * Live foot traffic from BestTime (besttime.app)
+ *
+ * Cached and budgeted like SerpAPI; readings share google_busyness_cache
+ * under a `besttime:<venue id>` key.
+ */
+export class BestTimeBusynessProvider implements BusynessProvider {
+  readonly name = 'besttime'
+  private apiKey: string
+  private repository: PulseRepository
+  private budget: ApiBudget
+  private scheduler: BusynessRefreshScheduler | null
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    budget: ApiBudget = new ApiBudget(repository, DEFAULT_BESTTIME_BUDGET),
+    scheduler: BusynessRefreshScheduler | null = null,
+    apiKey: string = process.env.EXPO_PUBLIC_BESTTIME_API_KEY || ''
+  ) {
+    this.repository = repository
+    this.budget = budget
+    this.scheduler = scheduler
+    this.apiKey = apiKey
+  }
+  
+  async getBusyness(venue: VenueRecord): Promise<BusynessReading | null> {
+    if (!this.apiKey || !venue.address) return null
+    
+    const cacheKey = besttimeCacheKey(venue.id)
+    const maxAgeMs = this.scheduler
+      ? (await this.scheduler.getPriority(venue)).ttlMs
+      : CACHE_TTL_MS
+    
+    const cached = await this.repository.getGoogleCache(cacheKey)
+    const age = cached ? Date.now() - new Date(cached.fetched_at).getTime() : Infinity
+    if (cached && age <= maxAgeMs) {
+      return this.toReading(cached.busyness_data)
+    }
+    
+    const fresh = await this.fetchLive(venue)
+    if (fresh) {
+      await this.repository.upsertGoogleCache({
+        google_place_id: cacheKey,
+        busyness_data: fresh,
+        fetched_at: new Date().toISOString()
+      })
+      return this.toReading(fresh)
+    }
+    
+    return cached && age <= MAX_STALE_MS ? this.toReading(cached.busyness_data) : null
+  }
+  
+  private async fetchLive(venue: VenueRecord): Promise<GoogleBusynessData | null> {
+    if (!(await this.budget.tryAcquire({ venueId: venue.id, googlePlaceId: venue.google_place_id ?? undefined }))) {
+      console.warn(`BestTime budget spent, skipping fetch for ${venue.name}`)
+      return null
+    }
+    
+    const url = `https://besttime.app/api/v1/forecasts/live?` +
+      `api_key_private=${encodeURIComponent(this.apiKey)}&` +
+      `venue_name=${encodeURIComponent(venue.name)}&` +
+      `venue_address=${encodeURIComponent(venue.address!)}`
+    
+    const response = await fetch(url, { method: 'POST' })
+    if (!response.ok) {
+      console.error(`BestTime error: HTTP ${response.status}`)
+      return null
+    }
+    
+    const data = await response.json()
+    if (data.status !== 'OK' || !data.analysis) {
+      console.error('BestTime error:', data.message || data.status)
+      return null
+    }
+    
+    const analysis = data.analysis
+    const hasLive = analysis.venue_live_busyness_available === true
+    const currentBusyness = hasLive ? Number(analysis.venue_live_busyness) || 0 : 0
+    const usualBusyness = Number(analysis.venue_forecasted_busyness) || 0
+    
+    return {
+      currentBusyness,
+      usualBusyness,
+      relativeLevel: this.getRelativeLevel(currentBusyness, usualBusyness),
+      trend: this.getTrend(currentBusyness, usualBusyness),
+      lastUpdated: new Date(),
+      confidence: hasLive ? 0.8 : 0.3
+    }
+  }
+  
+  private toReading(data: GoogleBusynessData): BusynessReading {
+    return {
+      ...data,
+      lastUpdated: new Date(data.lastUpdated), // A string when read from the cache
+      provider: this.name
+    }
+  }
+  
+  private getTrend(current: number, usual: number): GoogleBusynessData['trend'] {
+    const difference = current - usual
+    if (difference > 10) return 'increasing'
+    if (difference < -10) return 'decreasing'
+    return 'stable'
+  }
+  
+  private getRelativeLevel(current: number, usual: number): GoogleBusynessData['relativeLevel'] {
+    const ratio = usual > 0 ? current / usual : 1
+    
+    if (ratio < 0.5) return 'low'
+    if (ratio < 0.8) return 'below_average'
+    if (ratio < 1.2) return 'average'
+    if (ratio < 1.5) return 'above_average'
+    return 'high'
+  }
+}
@@ -0,0 +1,167 @@
+// lib/pulse/services/busyness-provider.ts
+
+import { BusynessReading, GoogleBusynessData, VenueRecord } from '../types'
+import { resolveVenueTimezone } from '../time'
+import { PulseRepository } from '../repository'
+import { GoogleBusynessService } from './google-service'
+import { BestTimeBusynessProvider } from './besttime-service'
+import { BusynessRefreshScheduler } from '../scheduler'
+import { ApiBudget, DEFAULT_BESTTIME_BUDGET } from '../budget'
+
+/**
+ * Any source of live foot-traffic for a venue
+ */
+export interface BusynessProvider {
+  readonly name: string
+  getBusyness(venue: VenueRecord): Promise<BusynessReading | null>
+}
+
+export interface BusynessChainOptions {
+  minConfidence: number      // Weaker readings fall through to the next provider
+  maxAgeMs: number           // Staler readings fall through too
+}
+
+export const DEFAULT_CHAIN_OPTIONS: BusynessChainOptions = {
+  minConfidence: 0.5,
+  maxAgeMs: 30 * 60 * 1000
+}
+
+/**
+ * How old a reading is
+ */
+export function readingAgeMs(reading: Pick<BusynessReading, 'lastUpdated'>, now: Date = new Date()): number {
+  return Math.max(0, now.getTime() - new Date(reading.lastUpdated).getTime())
+}
+
+/**
+ * Ordered list of providers; the first usable live reading wins
+ */
+export class BusynessProviderChain implements BusynessProvider {
+  readonly name = 'chain'
+  private providers: BusynessProvider[]
+  private options: BusynessChainOptions
+  
+  constructor(providers: BusynessProvider[], options: Partial<BusynessChainOptions> = {}) {
+    this.providers = providers
+    this.options = { ...DEFAULT_CHAIN_OPTIONS, ...options }
+  }
+  
+  async getBusyness(venue: VenueRecord): Promise<BusynessReading | null> {
+    // Best non-live answer, e.g. usual levels without a current reading
+    let fallback: BusynessReading | null = null
+    
+    for (const provider of this.providers) {
+      let reading: BusynessReading | null = null
+      try {
+        reading = await provider.getBusyness(venue)
+      } catch (error) {
+        console.warn(`Busyness provider ${provider.name} failed for ${venue.name}:`, error)
+      }
+      if (!reading) continue
+      
+      if (this.isUsable(reading)) {
+        return reading
+      }
+      fallback = fallback || reading
+    }
+    
+    return fallback
+  }
+  
+  private isUsable(reading: BusynessReading): boolean {
+    return reading.currentBusyness > 0 &&
+      reading.confidence >= this.options.minConfidence &&
+      readingAgeMs(reading) <= this.options.maxAgeMs
+  }
+}
+
+/**
+ * SerpAPI first, then BestTime; each budgeted, with the scheduler's adaptive cache
+ */
+export function createDefaultBusynessChain(
+  repository: PulseRepository,
+  options: Partial<BusynessChainOptions> = {},
+  scheduler: BusynessRefreshScheduler = new BusynessRefreshScheduler(repository)
+): BusynessProviderChain {
+  return new BusynessProviderChain([
+    new SerpApiBusynessProvider(new GoogleBusynessService(repository), scheduler),
+    new BestTimeBusynessProvider(repository, new ApiBudget(repository, DEFAULT_BESTTIME_BUDGET), scheduler)
+  ], options)
+}
+
+/**
+ * Google popular times via SerpAPI
+ */
+export class SerpApiBusynessProvider implements BusynessProvider {
+  readonly name = 'serpapi'
+  private googleService: GoogleBusynessService
+  private scheduler: BusynessRefreshScheduler | null
+  
+  constructor(googleService: GoogleBusynessService, scheduler: BusynessRefreshScheduler | null = null) {
+    this.googleService = googleService
+    this.scheduler = scheduler
+  }
+  
+  async getBusyness(venue: VenueRecord): Promise<BusynessReading | null> {
+    if (!venue.google_place_id) return null
+    
+    // Busy, watched venues refresh often; quiet ones ride the cache
+    const maxAgeMs = this.scheduler
+      ? (await this.scheduler.getPriority(venue)).ttlMs
+      : undefined
+    
+    const data = await this.googleService.getBusyness(
+      venue.google_place_id,
+      resolveVenueTimezone(venue),
+      { maxAgeMs, venueId: venue.id }
+    )
+    if (!data) return null
+    
+    return {
+      ...data,
+      lastUpdated: new Date(data.lastUpdated), // A string when read from the cache
+      provider: this.name
+    }
+  }
+}
+
+/**
+ * Canned readings for local dev, keyed by google_place_id or venue id
+ */
+export class FixtureBusynessProvider implements BusynessProvider {
+  readonly name = 'fixture'
+  private fixtures: Record<string, Partial<GoogleBusynessData>>
+  
+  constructor(fixtures: Record<string, Partial<GoogleBusynessData>>) {
+    this.fixtures = fixtures
+  }
+  
+  /**
+   * Load fixtures from a JSON file
+   */
+  static async fromFile(path: string): Promise<FixtureBusynessProvider> {
+    const { readFile } = await import('fs/promises')
+    return new FixtureBusynessProvider(JSON.parse(await readFile(path, 'utf8')))
+  }
+  
+  async getBusyness(venue: VenueRecord): Promise<BusynessReading | null> {
+    const fixture = (venue.google_place_id && this.fixtures[venue.google_place_id]) ||
+      this.fixtures[String(venue.id)]
+    if (!fixture) return null
+    
+    const currentBusyness = fixture.currentBusyness ?? 0
+    const usualBusyness = fixture.usualBusyness ?? 50
+    
+    return {
+      currentBusyness,
+      usualBusyness,
+      relativeLevel: fixture.relativeLevel ?? 'average',
+      trend: fixture.trend ?? 'stable',
+      // Fixtures are always "just fetched" unless they say otherwise
+      lastUpdated: fixture.lastUpdated ? new Date(fixture.lastUpdated) : new Date(),
+      confidence: fixture.confidence ?? (currentBusyness > 0 ? 0.9 : 0.3),
+      popularTimes: fixture.popularTimes,
+      provider: this.name
+    }
+  }
+}
@@ -1,36 +1,66 @@
 // lib/pulse/services/google-service.ts
 
-import { supabase } from '@/lib/supabase'
-import { GoogleBusynessData } from '../types'
+import { GoogleBusynessData, WeeklyHistogram } from '../types'
+import { getLocalTime } from '../time'
+import { PulseRepository, SupabasePulseRepository } from '../repository'
+import { ApiBudget } from '../budget'
+import { MAX_STALE_MS } from '../scheduler'
 
 export class GoogleBusynessService {
   private apiKey: string
-  private cacheExpiry: number = 5 * 60 * 1000 // 5 minutes
+  private cacheExpiry: number = 5 * 60 * 1000 // Default TTL, 5 minutes
+  private repository: PulseRepository
+  private budget: ApiBudget
   
-  constructor() {
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    budget: ApiBudget = new ApiBudget(repository)
+  ) {
     this.apiKey = process.env.EXPO_PUBLIC_SERP_API_KEY || ''
+    this.repository = repository
+    this.budget = budget
   }
   
   /**
    * Get busyness data for a venue
+   * 
+   * `timezone` picks the venue's local populartimes bucket (server clock when null).
+   * `maxAgeMs` overrides the cache TTL. Stale cache, up to MAX_STALE_MS old, is served
+   * when the budget is spent.
    */
-  async getBusyness(googlePlaceId: string): Promise<GoogleBusynessData | null> {
+  async getBusyness(
+    googlePlaceId: string,
+    timezone: string | null = null,
+    options: { maxAgeMs?: number, venueId?: number } = {}
+  ): Promise<GoogleBusynessData | null> {
+    const { maxAgeMs = this.cacheExpiry, venueId } = options
+    
     try {
       // Check cache first
-      const cached = await this.getCachedData(googlePlaceId)
-      if (cached) {
-        return cached
+      const cached = await this.repository.getGoogleCache(googlePlaceId)
+      const age = cached ? Date.now() - new Date(cached.fetched_at).getTime() : Infinity
+      if (cached && age <= maxAgeMs) {
+        return cached.busyness_data as GoogleBusynessData
       }
       
       // Fetch fresh data
-      const freshData = await this.fetchFromSerpAPI(googlePlaceId)
+      const freshData = await this.fetchFromSerpAPI(googlePlaceId, timezone, venueId)
       
       // Cache it
       if (freshData) {
         await this.cacheData(googlePlaceId, freshData)
+        if (freshData.popularTimes) {
+          await this.repository.upsertPopularTimes({
+            google_place_id: googlePlaceId,
+            histogram: freshData.popularTimes,
+            fetched_at: new Date().toISOString(),
+            checked_at: new Date().toISOString()
+          })
+        }
+        return freshData
       }
       
-      return freshData
+      return cached && age <= MAX_STALE_MS ? cached.busyness_data as GoogleBusynessData : null
     } catch (error) {
       console.error('Error fetching Google busyness:', error)
       return null
@@ -40,12 +70,21 @@ export class GoogleBusynessService {
   /**
    * Fetch live data from SerpAPI
    */
-  private async fetchFromSerpAPI(placeId: string): Promise<GoogleBusynessData | null> {
+  private async fetchFromSerpAPI(
+    placeId: string,
+    timezone: string | null,
+    venueId?: number
+  ): Promise<GoogleBusynessData | null> {
     if (!this.apiKey) {
       console.warn('No SERP_API_KEY configured')
       return null
     }
     
+    if (!(await this.budget.tryAcquire({ venueId, googlePlaceId: placeId }))) {
+      console.warn(`SerpAPI budget spent, skipping fetch for ${placeId}`)
+      return null
+    }
+    
     const url = `https://serpapi.com/search.json?` +
       `engine=google_maps&` +
       `type=place&` +
@@ -68,8 +107,9 @@ export class GoogleBusynessService {
       
       // Extract busyness data
       const currentBusyness = placeInfo.current_popularity || 0
-      const currentDay = new Date().toLocaleDateString('en-US', { weekday: 'long' })
-      const currentHour = new Date().getHours()
+      const localTime = getLocalTime(timezone)
+      const currentDay = localTime.dayName
+      const currentHour = localTime.hour
       
       // Get usual busyness
       let usualBusyness = 50
@@ -92,7 +132,8 @@ export class GoogleBusynessService {
         relativeLevel,
         trend,
         lastUpdated: new Date(),
-        confidence: currentBusyness > 0 ? 0.9 : 0.3
+        confidence: currentBusyness > 0 ? 0.9 : 0.3,
+        popularTimes: this.parsePopularTimes(placeInfo.populartimes)
       }
     } catch (error) {
       console.error('Failed to fetch from SerpAPI:', error)
@@ -100,6 +141,29 @@ export class GoogleBusynessService {
     }
   }
   
+  /**
+   * Turn SerpAPI populartimes into a 7x24 histogram
+   */
+  private parsePopularTimes(populartimes: any): WeeklyHistogram | undefined {
+    if (!Array.isArray(populartimes)) return undefined
+    
+    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+    const histogram: WeeklyHistogram = days.map(() => new Array(24).fill(0))
+    let found = false
+    
+    populartimes.forEach((day: any) => {
+      const dayIndex = days.indexOf(day?.day)
+      if (dayIndex < 0 || !Array.isArray(day.data)) return
+      
+      day.data.slice(0, 24).forEach((value: unknown, hour: number) => {
+        histogram[dayIndex][hour] = typeof value === 'number' ? value : 0
+      })
+      found = true
+    })
+    
+    return found ? histogram : undefined
+  }
+  
   /**
    * Calculate trend from current vs usual
    */
@@ -129,36 +193,15 @@ export class GoogleBusynessService {
     return 'high'
   }
   
-  /**
-   * Get cached data
-   */
-  private async getCachedData(placeId: string): Promise<GoogleBusynessData | null> {
-    const { data } = await supabase
-      .from('google_busyness_cache')
-      .select('busyness_data, fetched_at')
-      .eq('google_place_id', placeId)
-      .single()
-    
-    if (!data) return null
-    
-    // Check if cache is still valid
-    const age = Date.now() - new Date(data.fetched_at).getTime()
-    if (age > this.cacheExpiry) return null
-    
-    return data.busyness_data as GoogleBusynessData
-  }
-  
   /**
    * Cache busyness data
    */
   private async cacheData(placeId: string, data: GoogleBusynessData) {
-    await supabase
-      .from('google_busyness_cache')
-      .upsert({
-        google_place_id: placeId,
-        busyness_data: data,
-        fetched_at: new Date().toISOString()
-      })
+    await this.repository.upsertGoogleCache({
+      google_place_id: placeId,
+      busyness_data: data,
+      fetched_at: new Date().toISOString()
+    })
   }
 }
 
@@ -171,4 +214,32 @@ CREATE TABLE IF NOT EXISTS google_busyness_cache (
 );
 
 CREATE INDEX IF NOT EXISTS idx_google_cache_fetched ON google_busyness_cache(fetched_at);
+
+-- Left over from the old venue_id-keyed client
+ALTER TABLE google_busyness_cache DROP COLUMN IF EXISTS venue_id;
+
+-- Full popular-times histogram per place, refreshed weekly
+CREATE TABLE IF NOT EXISTS google_popular_times (
+  google_place_id TEXT PRIMARY KEY,
+  histogram JSONB,                  -- 7 days (0 = Sunday) x 24 hours, 0-100; NULL when Google has none
+  fetched_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  checked_at TIMESTAMP              -- Last asked, histogram or not
+);
+
+ALTER TABLE google_popular_times ALTER COLUMN histogram DROP NOT NULL;
+ALTER TABLE google_popular_times ADD COLUMN IF NOT EXISTS checked_at TIMESTAMP;
+
+-- Google vs. our pulse, for model training
+CREATE TABLE IF NOT EXISTS google_busyness_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id INTEGER REFERENCES venues(id) NOT NULL,
+  google_busyness INTEGER NOT NULL,
+  google_usual INTEGER NOT NULL,
+  google_trend TEXT NOT NULL,
+  spree_pulse DECIMAL(3,1) NOT NULL,
+  provider TEXT,
+  timestamp TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_google_log_venue_time ON google_busyness_log(venue_id, timestamp DESC);
 `
@@ -0,0 +1,107 @@
+// lib/pulse/smoothing.ts
+
+import { PulseHistoryRecord } from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+
+export interface SmoothingOptions {
+  dropTimeConstantMinutes: number  // One late check-out doesn't crater the pulse
+  deadband: number                 // Smaller moves keep the previous value
+  maxGapMinutes: number            // Older history doesn't seed the filter
+}
+
+export const DEFAULT_SMOOTHING_OPTIONS: SmoothingOptions = {
+  dropTimeConstantMinutes: 20,
+  deadband: 0.2,
+  maxGapMinutes: 120
+}
+
+export interface SmoothedPulse {
+  value: number              // Smoothed, 0-10, one decimal
+  state: number              // Smoothed, unrounded; what the next run starts from
+  raw: number
+  previous: number | null    // Seed from pulse_history, if recent enough
+  minutesSincePrevious: number | null
+  alpha: number              // Share of the move let through (1 = raw)
+}
+
+/**
+ * Asymmetric EMA over pulse values, seeded from the last pulse_history row
+ * 
+ * Rises come through at once; drops decay toward the new value over time.
+ * The filter runs unrounded (smoothing_state); only `value` is rounded, so
+ * small steps still add up.
+ */
+export class PulseSmoother {
+  private repository: PulseRepository
+  private options: SmoothingOptions
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    options: Partial<SmoothingOptions> = {}
+  ) {
+    this.repository = repository
+    this.options = { ...DEFAULT_SMOOTHING_OPTIONS, ...options }
+  }
+  
+  /**
+   * Smooth a freshly calculated pulse against the venue's last stored one
+   */
+  async smooth(venueId: number, raw: number, confidence: number, now: Date = new Date()): Promise<SmoothedPulse> {
+    const since = new Date(now.getTime() - this.options.maxGapMinutes * 60 * 1000)
+    const history = await this.repository.getPulseHistory(venueId, since)
+    return this.apply(history[history.length - 1] ?? null, raw, confidence, now)
+  }
+  
+  /**
+   * One filter step; pure, so replays of the same inputs give the same value
+   */
+  apply(
+    previous: PulseHistoryRecord | null,
+    raw: number,
+    confidence: number,
+    now: Date = new Date()
+  ): SmoothedPulse {
+    if (!previous?.created_at) {
+      return { value: toOutput(raw), state: raw, raw, previous: null, minutesSincePrevious: null, alpha: 1 }
+    }
+    
+    const last = previous.smoothing_state ?? previous.pulse_value
+    const minutes = Math.max(0, (now.getTime() - new Date(previous.created_at).getTime()) / 60000)
+    const change = raw - last
+    const step = { raw, previous: round(last), minutesSincePrevious: round(minutes) }
+    
+    // Hysteresis: jitter around the last value doesn't move it
+    if (Math.abs(change) < this.options.deadband) {
+      return { ...step, value: toOutput(last), state: last, alpha: 0 }
+    }
+    
+    if (change > 0) {
+      return { ...step, value: toOutput(raw), state: raw, alpha: 1 }
+    }
+    
+    // Weak calculations pull it down less, like a Kalman gain would
+    const alpha = (1 - Math.exp(-minutes / this.options.dropTimeConstantMinutes)) *
+      Math.min(1, Math.max(0.3, confidence))
+    const state = Math.min(10, Math.max(0, last + alpha * change))
+    
+    return { ...step, value: toOutput(state), state, alpha: round(alpha) }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function toOutput(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+// Raw (unsmoothed) pulse next to the smoothed one
+export const PULSE_SMOOTHING_SQL = `
+ALTER TABLE pulse_history
+ADD COLUMN IF NOT EXISTS raw_pulse_value DECIMAL(3,1),
+ADD COLUMN IF NOT EXISTS smoothing_state DECIMAL(6,3);
+
+ALTER TABLE venues
+ADD COLUMN IF NOT EXISTS pulse_raw DECIMAL(3,1);
+`
@@ -0,0 +1,154 @@
+// lib/pulse/time.ts
+
+import { VenueRecord } from './types'
+
+// Hours before this still belong to the previous night (1am Sat = Fri night)
+export const NIGHTLIFE_DAY_START_HOUR = 6
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export interface VenueLocalTime {
+  timezone: string | null    // null = server clock
+  hour: number               // 0-23, venue local
+  minute: number
+  date: string               // YYYY-MM-DD, venue local calendar day
+  dayOfWeek: number          // 0-6, venue local calendar day
+  dayName: string            // 'Friday', matches Google populartimes
+  nightlifeDayOfWeek: number // 0-6, rolled back before NIGHTLIFE_DAY_START_HOUR
+  nightlifeDate: string      // YYYY-MM-DD of the night this hour belongs to
+}
+
+/**
+ * Resolve the IANA timezone used for a venue's hour/day logic
+ */
+export function resolveVenueTimezone(
+  venue: Pick<VenueRecord, 'timezone' | 'lng'>
+): string | null {
+  if (venue.timezone && isValidTimezone(venue.timezone)) {
+    return venue.timezone
+  }
+  
+  // Rough fallback: fixed offset from longitude (no DST)
+  if (typeof venue.lng === 'number') {
+    const offset = Math.max(-12, Math.min(14, Math.round(venue.lng / 15)))
+    if (offset === 0) return 'Etc/GMT'
+    // Etc/GMT zones use inverted signs: Etc/GMT+5 is UTC-5
+    return `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`
+  }
+  
+  return null
+}
+
+/**
+ * Get local hour/day for a venue
+ */
+export function getVenueLocalTime(
+  venue: Pick<VenueRecord, 'timezone' | 'lng'>,
+  date: Date = new Date()
+): VenueLocalTime {
+  return getLocalTime(resolveVenueTimezone(venue), date)
+}
+
+/**
+ * Hour-of-week bucket, keyed by nightlife day ("typical Thursday" includes 1am Fri)
+ */
+export function hourOfWeek(localTime: VenueLocalTime): number {
+  return localTime.nightlifeDayOfWeek * 24 + localTime.hour
+}
+
+/**
+ * Start of the venue-local hour containing `date`
+ *
+ * Off the UTC hour for half-hour and 45-minute offsets.
+ */
+export function startOfVenueHour(
+  venue: Pick<VenueRecord, 'timezone' | 'lng'>,
+  date: Date = new Date()
+): Date {
+  const { minute } = getVenueLocalTime(venue, date)
+  return new Date(date.getTime() - minute * 60 * 1000 - date.getTime() % (60 * 1000))
+}
+
+/**
+ * The instant a venue-local wall-clock time happens
+ *
+ * `minutes` counts from local midnight of `date` (YYYY-MM-DD) and may run
+ * past a day either way. Offsets come from the zone, so DST changes are
+ * honoured; a time inside a spring-forward gap lands just after it.
+ */
+export function fromVenueLocalTime(
+  venue: Pick<VenueRecord, 'timezone' | 'lng'>,
+  date: string,
+  minutes: number
+): Date {
+  const timezone = resolveVenueTimezone(venue)
+  const [year, month, day] = date.split('-').map(Number)
+  const wall = Date.UTC(year, month - 1, day, 0, minutes)
+  
+  // Second pass picks up an offset change between the guess and the answer
+  const guess = wall - utcOffsetMs(timezone, wall)
+  return new Date(wall - utcOffsetMs(timezone, guess))
+}
+
+function utcOffsetMs(timezone: string | null, at: number): number {
+  const local = getLocalTime(timezone, new Date(at))
+  const [year, month, day] = local.date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day, local.hour, local.minute) - (at - at % (60 * 1000))
+}
+
+/**
+ * Get local hour/day in a timezone (server clock when null)
+ */
+export function getLocalTime(timezone: string | null, date: Date = new Date()): VenueLocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone || undefined,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'long'
+  }).formatToParts(date)
+  
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(p => p.type === type)?.value || ''
+  
+  const year = Number(part('year'))
+  const month = Number(part('month'))
+  const day = Number(part('day'))
+  const hour = Number(part('hour')) % 24
+  const minute = Number(part('minute'))
+  const dayOfWeek = WEEKDAYS.indexOf(part('weekday'))
+  
+  // After-midnight hours count toward the previous night
+  const isLateNight = hour < NIGHTLIFE_DAY_START_HOUR
+  const nightlifeDayOfWeek = isLateNight ? (dayOfWeek + 6) % 7 : dayOfWeek
+  const nightlifeDay = new Date(Date.UTC(year, month - 1, isLateNight ? day - 1 : day))
+  
+  return {
+    timezone,
+    hour,
+    minute,
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    dayOfWeek,
+    dayName: WEEKDAYS[dayOfWeek],
+    nightlifeDayOfWeek,
+    nightlifeDate: nightlifeDay.toISOString().slice(0, 10)
+  }
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Venue timezone column
+export const VENUE_TIMEZONE_SQL = `
+ALTER TABLE venues
+ADD COLUMN IF NOT EXISTS timezone TEXT; -- IANA name, e.g. 'America/New_York'
+`
@@ -0,0 +1,55 @@
+// lib/pulse/trace.ts
+
+import { PulseTraceStep, PulseTraceStepName } from './types'
+
+/**
+ * Records how each calculation step moved the pulse
+ */
+export class PulseTrace {
+  private steps: PulseTraceStep[] = []
+  private current: number
+  
+  constructor(start: number = 0) {
+    this.current = start
+  }
+  
+  get value(): number {
+    return this.current
+  }
+  
+  /**
+   * Record a step that set the pulse to `value`
+   */
+  record(step: PulseTraceStepName, input: PulseTraceStep['input'], value: number): number {
+    this.steps.push({
+      step,
+      input,
+      delta: round(value - this.current),
+      value: round(value)
+    })
+    this.current = value
+    return value
+  }
+  
+  /**
+   * Clamp to 0-10 and round to one decimal, as the final step
+   */
+  clamp(): number {
+    const clamped = Math.round(Math.min(10, Math.max(0, this.current)) * 10) / 10
+    return this.record('clamp', { min: 0, max: 10, raw: round(this.current) }, clamped)
+  }
+  
+  toArray(): PulseTraceStep[] {
+    return [...this.steps]
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+// Trace column on the calculations log
+export const PULSE_TRACE_SQL = `
+ALTER TABLE pulse_calculations_log
+ADD COLUMN IF NOT EXISTS trace JSONB;
+`
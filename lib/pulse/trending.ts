@@ -0,0 +1,201 @@
+// lib/pulse/trending.ts
+
+import {
+  GeoBounds,
+  PulseDelta,
+  PulseHistoryRecord,
+  TrendingVenue,
+  VenueBaselineRecord,
+  VenueRecord
+} from './types'
+import { PulseRepository, SupabasePulseRepository } from './repository'
+import { matchesVenueType } from './profiles'
+import { getVenueLocalTime, hourOfWeek } from './time'
+
+const MINUTE_MS = 60 * 1000
+const STALE_AFTER_MINUTES = 30   // Latest calculation older than this: not trending now
+const MIN_BASELINE_SAMPLES = 3
+
+export interface TrendingOptions {
+  windowsMinutes: number[]   // Deltas are taken over each window
+  windowWeights: number[]    // Same order; recent rises count most
+  minConfidence: number      // Mean over the sustained points
+  minSamples: number         // History points within the longest window
+  minRise: number            // Pulse points above the start of the shortest window...
+  sustainedPoints: number    // ...held for this many calculations in a row
+}
+
+export const DEFAULT_TRENDING_OPTIONS: TrendingOptions = {
+  windowsMinutes: [15, 30, 60],
+  windowWeights: [0.5, 0.3, 0.2],
+  minConfidence: 0.5,
+  minSamples: 3,
+  minRise: 0.5,
+  sustainedPoints: 2
+}
+
+export interface TrendingFilters {
+  bounds?: GeoBounds
+  neighborhood?: string
+  venueTypes?: string[]
+  limit?: number
+}
+
+export interface TrendScore {
+  pulse: number
+  confidence: number
+  deltas: PulseDelta[]
+  score: number
+}
+
+/**
+ * Score a venue's recent rise from its pulse history (oldest first)
+ *
+ * Deltas are divided by the venue's usual spread for this hour, so a big club
+ * swinging its normal two points doesn't outrank a small bar filling up.
+ * Returns null unless the rise is fresh, confident and sustained.
+ */
+export function scoreTrend(
+  history: PulseHistoryRecord[],
+  baseline: VenueBaselineRecord | null,
+  options: TrendingOptions = DEFAULT_TRENDING_OPTIONS,
+  now: Date = new Date()
+): TrendScore | null {
+  const longest = Math.max(...options.windowsMinutes)
+  const points = history
+    .filter(h => !!h.created_at)
+    .map(h => ({ time: new Date(h.created_at!).getTime(), value: h.pulse_value, confidence: h.confidence }))
+    .filter(p => now.getTime() - p.time <= longest * 1.25 * MINUTE_MS)
+    .sort((a, b) => a.time - b.time)
+  
+  if (points.length < Math.max(options.minSamples, options.sustainedPoints + 1)) return null
+  
+  const latest = points[points.length - 1]
+  if (now.getTime() - latest.time > STALE_AFTER_MINUTES * MINUTE_MS) return null
+  
+  // The point nearest each window's start, within a quarter window
+  const deltas: PulseDelta[] = options.windowsMinutes.map(minutes => {
+    const target = latest.time - minutes * MINUTE_MS
+    const tolerance = minutes * 0.25 * MINUTE_MS
+    const start = points
+      .filter(p => p !== latest && Math.abs(p.time - target) <= tolerance)
+      .sort((a, b) => Math.abs(a.time - target) - Math.abs(b.time - target))[0]
+    return {
+      minutes,
+      delta: start ? Math.round((latest.value - start.value) * 10) / 10 : null
+    }
+  })
+  
+  const available = deltas
+    .map((d, i) => ({ delta: d.delta, weight: options.windowWeights[i] ?? 0 }))
+    .filter((d): d is { delta: number, weight: number } => d.delta !== null)
+  if (available.length === 0) return null
+  
+  // One noisy calculation can't hold a rise over several runs
+  const shortest = deltas.find(d => d.delta !== null)!
+  const reference = latest.value - shortest.delta!
+  const recent = points.slice(-options.sustainedPoints)
+  if (recent.some(p => p.value < reference + options.minRise)) return null
+  
+  const confidence = recent.reduce((sum, p) => sum + p.confidence, 0) / recent.length
+  if (confidence < options.minConfidence) return null
+  
+  const scale = baseline && baseline.pulse_samples >= MIN_BASELINE_SAMPLES
+    ? Math.max(0.5, baseline.pulse_std)
+    : 1
+  const totalWeight = available.reduce((sum, d) => sum + d.weight, 0)
+  const score = totalWeight > 0
+    ? available.reduce((sum, d) => sum + d.weight * d.delta / scale, 0) / totalWeight
+    : 0
+  if (score <= 0) return null
+  
+  return {
+    pulse: latest.value,
+    confidence: Math.round(confidence * 100) / 100,
+    deltas,
+    score: Math.round(score * 100) / 100
+  }
+}
+
+/**
+ * Venues whose pulse is rising fastest against their usual
+ */
+export class PulseTrendingService {
+  private repository: PulseRepository
+  private options: TrendingOptions
+  
+  constructor(
+    repository: PulseRepository = new SupabasePulseRepository(),
+    options: Partial<TrendingOptions> = {}
+  ) {
+    this.repository = repository
+    this.options = { ...DEFAULT_TRENDING_OPTIONS, ...options }
+  }
+  
+  /**
+   * Trending leaderboard, fastest riser first
+   */
+  async getTrending(filters: TrendingFilters = {}, now: Date = new Date()): Promise<TrendingVenue[]> {
+    const longest = Math.max(...this.options.windowsMinutes)
+    const historySince = new Date(now.getTime() - longest * 1.25 * MINUTE_MS)
+    
+    // Venues with no pulse in the window have no history to trend on either
+    const venues = (filters.bounds
+      ? await this.repository.getActiveVenuesInBounds(filters.bounds, historySince)
+      : await this.repository.getActiveVenues()
+    ).filter(venue =>
+      venue.pulse_status !== 'closed' &&
+      (!filters.neighborhood || venue.neighborhood === filters.neighborhood) &&
+      (!filters.venueTypes?.length || matchesVenueType(venue.venue_type, filters.venueTypes))
+    )
+    if (venues.length === 0) return []
+    
+    const ids = venues.map(v => v.id)
+    const localHours = new Map(venues.map(v => [v.id, hourOfWeek(getVenueLocalTime(v, now))]))
+    
+    const [history, baselines] = await Promise.all([
+      this.repository.getPulseHistoryForVenues(ids, historySince),
+      this.repository.getVenueBaselinesForVenues(ids, [...new Set(localHours.values())])
+    ])
+    
+    const historyByVenue = new Map<number, PulseHistoryRecord[]>()
+    history.forEach(h => {
+      const list = historyByVenue.get(h.venue_id) ?? []
+      list.push(h)
+      historyByVenue.set(h.venue_id, list)
+    })
+    const baselineByVenue = new Map(
+      baselines
+        .filter(b => b.hour_of_week === localHours.get(b.venue_id))
+        .map(b => [b.venue_id, b])
+    )
+    
+    const trending: TrendingVenue[] = []
+    for (const venue of venues) {
+      const baseline = baselineByVenue.get(venue.id) ?? null
+      const trend = scoreTrend(historyByVenue.get(venue.id) ?? [], baseline, this.options, now)
+      if (trend) trending.push(this.toTrendingVenue(venue, baseline, trend))
+    }
+    
+    return trending
+      .sort((a, b) => b.score - a.score)
+      .slice(0, filters.limit ?? 20)
+  }
+  
+  private toTrendingVenue(venue: VenueRecord, baseline: VenueBaselineRecord | null, trend: TrendScore): TrendingVenue {
+    return {
+      venueId: venue.id,
+      name: venue.name,
+      venueType: venue.venue_type ?? null,
+      lat: venue.lat ?? null,
+      lng: venue.lng ?? null,
+      pulse: trend.pulse,
+      confidence: trend.confidence,
+      usualPulse: baseline && baseline.pulse_samples >= MIN_BASELINE_SAMPLES
+        ? Math.round(baseline.pulse_mean * 10) / 10
+        : null,
+      deltas: trend.deltas,
+      score: trend.score
+    }
+  }
+}
@@ -10,19 +10,86 @@ export enum VenueDataSource {
 
 // Pulse data structure
 export interface PulseData {
-  value: number              // 0-10 scale
+  value: number              // 0-10 scale, smoothed over recent runs
+  rawValue?: number          // This run's value before smoothing
+  smoothingState?: number    // `value` before rounding, stored for the next run
   confidence: number         // 0-1 confidence score
-  dataSource: VenueDataSource
+  dataSource: VenueDataSource // Strongest contributor, kept for the venues column
+  sources?: PulseSourceContribution[] // Every observation that went into the value
   lastUpdated: Date
   breakdown?: PulseBreakdown
+  trace?: PulseTraceStep[]   // Ordered calculation steps
+  relativeLevel?: RelativeBusynessLevel // vs. this venue's usual for this hour
+  deviation?: number         // z-score vs. the venue's baseline
+  busynessProvider?: string  // Which foot-traffic provider answered, if any
+  usualPulse?: number        // Baseline pulse for this hour of week
+  openStatus?: VenueOpenStatus
+  opensAt?: Date | null      // Next opening, when closed or opening soon
+  closesAt?: Date | null     // End of the current opening period
 }
 
+// Independent observations fused into a pulse
+export type PulseSource =
+  | 'checkins'
+  | 'wait_time'
+  | 'ratings'
+  | 'community'
+  | 'presence'
+  | 'occupancy'
+  | 'google'
+  | 'popular_times'
+
+export interface PulseSourceContribution {
+  source: PulseSource
+  value: number              // What this source alone says, 0-10
+  variance: number           // After aging
+  weight: number             // Share of the fused value, 0-1
+  ageMinutes: number
+}
+
+// Opening hours
+export type VenueOpenStatus = 'open' | 'opening_soon' | 'last_call' | 'closed' | 'unknown'
+
+// Venue local 'HH:MM'; a close at or before the open runs past midnight
+export interface OpeningPeriod {
+  day: number                // 0 = Sunday, the day the period opens
+  open: string
+  close: string
+}
+
+export interface VenueHours {
+  status: VenueOpenStatus
+  opensAt: Date | null
+  closesAt: Date | null
+  label: string | null       // Exception label, e.g. 'Christmas Eve'
+}
+
+export type RelativeBusynessLevel = 'low' | 'below_average' | 'average' | 'above_average' | 'high'
+
 export interface PulseBreakdown {
   checkIns?: number
   googleBusy?: number
   communityReports?: number
   waitTime?: number
+  waitTimeAgeMinutes?: number // Since the line was reported
   vibeScore?: number
+  occupancyPercent?: number  // 0-100 of capacity
+}
+
+// Explainability
+export type PulseTraceStepName =
+  | 'default_estimate'
+  | 'prior'
+  | 'fusion'
+  | 'clamp'
+  | 'smoothing'
+  | 'closed'
+
+export interface PulseTraceStep {
+  step: PulseTraceStepName
+  input: Record<string, string | number | boolean | null>
+  delta: number              // Change this step made
+  value: number              // Running pulse after this step
 }
 
 // Community data types
@@ -32,24 +99,44 @@ export interface QuickVibeReport {
   vibe_level: 'dead' | 'chill' | 'busy' | 'packed'
   wait_time_minutes?: number
   crowd_estimate?: '0%' | '25%' | '50%' | '75%' | '100%'
+  location?: ClientLocation
   created_at?: Date
 }
 
 export interface AnonymousPing {
   venue_id: number
   device_id: string
+  location?: ClientLocation
   created_at?: Date
 }
 
+// Where the reporter's device says it is
+export interface ClientLocation {
+  lat: number
+  lng: number
+  accuracy?: number          // Meters, as reported by the device
+}
+
+export type LocationVerification = 'verified' | 'unverified' | 'rejected'
+
 export interface CommunityConsensus {
   vibeReports: number
-  consensusVibe: string | null
+  consensusVibe: string | null         // From time- and trust-weighted votes
   vibeScores: Record<string, number>
+  weightedVibeScores: Record<string, number>
   averageWaitTime: number | null
+  weightedAverageWaitTime: number | null
+  averageCrowdEstimate: number | null  // 0-100, time-weighted
+  crowdEstimateReports: number
   anonymousPings: number
   uniqueDevices: number
   socialSignals: number
   dataPoints: number
+  effectiveDataPoints: number          // Sum of decay x trust weights
+  weightedPings: number                // Decay x trust x location, like the votes
+  weightedSocialSignals: number        // Decay only
+  quarantinedReports: number           // Flagged and left out of all of the above
+  verifiedReports: number              // Reports and pings made on site
 }
 
 // Venue metrics
@@ -64,14 +151,15 @@ export interface VenueMetrics {
   
   // Wait times
   reportedWaitTime: number | null
+  waitTimeAgeMinutes?: number | null
   
   // Ratings & vibes
   recentRatings: number
   recentSentiment: number  // -1 to 1
-  vibePhotosCount: number
+  ratingsAgeMinutes?: number | null // Mean age of the recent ratings
   
-  // Context
-  dayOfWeek: number
+  // Context (venue local time)
+  dayOfWeek: number          // Nightlife day: 1am Sat counts as Fri
   hourOfDay: number
   isSpecialEvent: boolean
 }
@@ -80,10 +168,99 @@ export interface VenueMetrics {
 export interface GoogleBusynessData {
   currentBusyness: number    // 0-100
   usualBusyness: number      // 0-100 for this hour
-  relativeLevel: 'low' | 'below_average' | 'average' | 'above_average' | 'high'
+  relativeLevel: RelativeBusynessLevel
   trend: 'decreasing' | 'stable' | 'increasing'
-  lastUpdated: Date
+  lastUpdated: Date          // When the provider measured it
+  confidence: number
+  popularTimes?: WeeklyHistogram
+}
+
+// A busyness reading plus the provider that produced it
+export interface BusynessReading extends GoogleBusynessData {
+  provider: string           // e.g. 'serpapi', 'besttime', 'fixture'
+}
+
+// 7 days (0 = Sunday) x 24 hours, 0-100
+export type WeeklyHistogram = number[][]
+
+// A venue's typical week, in venue local time
+export interface TypicalWeek {
+  venueId: number
+  timezone: string | null
+  fetchedAt: string
+  days: Array<{
+    dayOfWeek: number        // 0 = Sunday
+    dayName: string
+    hours: Array<{
+      hour: number
+      busyness: number       // 0-100, Google scale
+      pulse: number          // 0-10
+    }>
+  }>
+}
+
+// Forecasting
+export interface PulseForecastPoint {
+  time: Date                 // Start of the forecast hour
+  hour: number               // Venue local hour
+  value: number              // 0-10
+  low: number                // ~80% band
+  high: number
+  confidence: number         // 0-1
+  isSpecialEvent: boolean
+  openStatus?: VenueOpenStatus
+}
+
+// Map queries
+export interface GeoBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+export interface NearbyVenue {
+  venueId: number
+  name: string
+  lat: number
+  lng: number
+  venueType: string | null
+  distanceMeters: number
+  pulse: number
+  confidence: number
+  status: VenueOpenStatus | null
+  score: number              // Ranking: pulse, then confidence and distance
+}
+
+export interface HeatmapCell {
+  key: string                // 'row:col' for grid cells, the name for neighborhoods
+  bounds: GeoBounds
+  center: { lat: number, lng: number } // Capacity-weighted venue centroid
+  venueCount: number         // Open venues in the aggregate
+  closedCount: number
+  pulse: number              // Capacity-weighted mean, 0-10
+  maxPulse: number
+  confidence: number         // Capacity-weighted mean
+  totalCapacity: number      // Known capacities only
+  hottestVenueId: number | null
+}
+
+export interface PulseDelta {
+  minutes: number            // Window length
+  delta: number | null       // Pulse points gained; null without history that far back
+}
+
+export interface TrendingVenue {
+  venueId: number
+  name: string
+  venueType: string | null
+  lat: number | null
+  lng: number | null
+  pulse: number              // Latest calculation
   confidence: number
+  usualPulse: number | null  // Baseline for this hour of week
+  deltas: PulseDelta[]
+  score: number              // Weighted rise in units of the venue's usual spread
 }
 
 // Database schemas
@@ -92,7 +269,10 @@ export interface VenueRecord {
   name: string
   google_place_id?: string
   spree_onboarded: boolean
+  address?: string
+  is_active?: boolean
   pulse: number
+  pulse_raw?: number
   pulse_confidence?: number
   pulse_data_source?: string
   pulse_updated_at?: Date
@@ -100,4 +280,338 @@ export interface VenueRecord {
   venue_type?: string
   lat?: number
   lng?: number
+  timezone?: string          // IANA, e.g. 'America/New_York'
+  opening_hours?: OpeningPeriod[] | null // null = unknown, treated as open
+  pulse_status?: VenueOpenStatus
+  neighborhood?: string | null
+  baseline_learned_at?: string | null // Last baseline rebuild, even one that found no data
+  created_at?: string
+}
+
+export interface VenuePulseUpdate {
+  pulse: number
+  pulse_raw?: number
+  pulse_confidence: number
+  pulse_data_source: string
+  pulse_updated_at: Date
+  pulse_status?: VenueOpenStatus
+}
+
+export interface VenuePulseBulkUpdate extends VenuePulseUpdate {
+  venue_id: number
+}
+
+// Holiday hours, one-off closures and special hours for one local date
+export interface VenueHoursExceptionRecord {
+  id?: string
+  venue_id: number
+  date: string               // YYYY-MM-DD, venue local
+  closed: boolean            // Closed all day; open/close ignored
+  open?: string | null       // 'HH:MM', replaces the regular periods for the date
+  close?: string | null
+  label?: string | null
+  created_at?: string
+}
+
+export interface CheckInRecord {
+  id: number
+  venue_id: number
+  user_id?: string
+  created_at: string
+  checked_out_at?: string | null
+  auto_checked_out?: boolean // Closed by the dwell model, not the user
+}
+
+export interface VenueStatusLogRecord {
+  venue_id: number
+  line_time_minutes: number | null
+  created_at: string
+}
+
+export interface VenueRatingRecord {
+  venue_id: number
+  vibe_check: string | null
+  created_at: string
+}
+
+export interface EventRecord {
+  id: number
+  venue_id: number
+  starts_at: string
+}
+
+export interface VibeReportRecord {
+  id?: string
+  venue_id: number
+  user_id: string
+  vibe_level: QuickVibeReport['vibe_level']
+  wait_time_minutes?: number | null
+  crowd_estimate?: QuickVibeReport['crowd_estimate'] | null
+  location_status?: LocationVerification  // Missing on older rows = unverified
+  distance_meters?: number | null
+  location_accuracy?: number | null
+  created_at: string
+}
+
+export interface AnonymousPingRecord {
+  id?: string
+  venue_id: number
+  device_id: string
+  location_status?: LocationVerification
+  distance_meters?: number | null
+  location_accuracy?: number | null
+  created_at: string
+}
+
+export interface SocialSignalRecord {
+  id?: string
+  venue_id: number
+  signal_type: string
+  metadata?: Record<string, unknown> | null
+  confidence?: number
+  created_at: string
+}
+
+// Only the columns the pulse engine reads
+export interface UserRecord {
+  id: string
+  created_at: string
+}
+
+export interface UserPointsRecord {
+  user_id: string
+  points: number
+  source_type: string
+  timestamp: string
+}
+
+export interface PulseHistoryRecord {
+  venue_id: number
+  pulse_value: number        // Smoothed
+  raw_pulse_value?: number | null
+  smoothing_state?: number | null // Smoothed before rounding; seeds the next run
+  confidence: number
+  data_sources: string[]
+  created_at?: string
+}
+
+export interface PulseCalculationLogRecord {
+  venue_id: number
+  calculated_pulse: number
+  factors: Record<string, unknown>
+  trace?: PulseTraceStep[]
+  created_at?: string
+}
+
+export interface GooglePopularTimesRecord {
+  google_place_id: string
+  histogram: WeeklyHistogram | null // null: Google had none when asked
+  fetched_at: string
+  checked_at?: string | null // Last time we asked, histogram or not
+}
+
+export interface GoogleBusynessLogRecord {
+  venue_id: number
+  google_busyness: number
+  google_usual: number
+  google_trend: GoogleBusynessData['trend']
+  spree_pulse: number        // Pulse we calculated alongside it
+  provider?: string
+  timestamp: string
+}
+
+export interface VenueBaselineRecord {
+  venue_id: number
+  hour_of_week: number       // nightlife day * 24 + local hour
+  pulse_mean: number
+  pulse_std: number
+  pulse_samples: number
+  checkin_mean: number       // New check-ins per hour
+  checkin_std: number
+  checkin_samples: number
+  updated_at: string
+}
+
+// Reporter reputation
+export type ReporterType = 'user' | 'device'  // Vibe reports by user, pings by device
+
+export interface ReporterReputationRecord {
+  reporter_type: ReporterType
+  reporter_id: string
+  trust: number              // 0-1
+  score_sum: number          // Sum of per-report accuracy scores
+  reports_scored: number
+  last_scored_at: string     // Reports up to here are already scored
+  updated_at: string
+}
+
+export interface ReporterFirstSeenRecord {
+  reporter_id: string
+  first_seen_at: string      // Account creation for users, first ping for devices
+}
+
+// Paid busyness API usage and venue demand
+export interface BusynessApiCallRecord {
+  provider: string           // e.g. 'serpapi'
+  venue_id?: number | null
+  google_place_id?: string | null
+  called_at: string
+}
+
+export interface VenueViewRecord {
+  venue_id: number
+  user_id?: string | null
+  viewed_at: string
+}
+
+export interface VenueViewCount {
+  venue_id: number
+  views: number
+}
+
+// Community report screening
+export type CommunityReportKind = 'vibe_report' | 'anonymous_ping'
+
+export type ReportFlagReason =
+  | 'new_account_burst'      // Many reports from unproven accounts at once
+  | 'device_churn'           // Mostly never-seen device IDs
+  | 'contradicts_ground_truth' // Far off check-in/Google pulse
+  | 'coordinated_timing'     // Identical submissions within seconds
+
+export type ReportFlagStatus = 'quarantined' | 'approved' | 'rejected'
+
+export interface ReportFlagRecord {
+  id: string
+  report_kind: CommunityReportKind
+  report_id: string
+  venue_id: number
+  reporter_id: string        // user_id or device_id
+  vibe_level?: QuickVibeReport['vibe_level'] | null
+  reasons: ReportFlagReason[]
+  status: ReportFlagStatus   // Only 'approved' reports count again
+  created_at: string
+  reviewed_at?: string | null
+}
+
+// Pulse update queue
+export type PulseUpdateTrigger =
+  | 'vibe_report'
+  | 'anonymous_ping'
+  | 'checkin'
+  | 'status_log'
+  | 'manual'
+
+export type PulseUpdateJobStatus = 'pending' | 'processing' | 'done' | 'dead'
+
+export interface PulseUpdateJobRecord {
+  id: string
+  venue_id: number
+  status: PulseUpdateJobStatus
+  triggers: PulseUpdateTrigger[]
+  attempts: number
+  run_at: string             // Not picked up before this
+  last_error?: string | null
+  locked_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface GoogleBusynessCacheRecord {
+  google_place_id: string
+  busyness_data: GoogleBusynessData
+  fetched_at: string
+}
+
+// Pulse change events
+export type PulseChangeEventType =
+  | 'threshold_crossed'      // Passed one of the configured levels
+  | 'moved'                  // Moved at least the configured points since the last write
+  | 'source_changed'         // Strongest data source changed
+
+export interface PulseChangeEvent {
+  id: string
+  type: PulseChangeEventType
+  venueId: number
+  venueName: string
+  previous: { value: number, dataSource: string | null }
+  current: { value: number, confidence: number, dataSource: string, status: VenueOpenStatus | null }
+  change: number             // current - previous, one decimal
+  direction: 'up' | 'down' | 'none'
+  threshold?: number         // threshold_crossed only
+  occurredAt: string
+}
+
+export interface PulseWebhookRecord {
+  id: string
+  url: string
+  secret: string             // HMAC-SHA256 key for X-Pulse-Signature
+  event_types: PulseChangeEventType[] // Empty = every type
+  venue_ids: number[]        // Empty = every venue
+  active: boolean
+  created_at: string
+}
+
+export type PulseEventDeliveryStatus = 'pending' | 'delivered' | 'dead'
+
+export interface PulseEventDeliveryRecord {
+  id: string
+  webhook_id: string
+  event_id: string
+  event_type: PulseChangeEventType
+  venue_id: number
+  payload: PulseChangeEvent  // Resent as-is on retries
+  status: PulseEventDeliveryStatus
+  attempts: number
+  next_attempt_at: string    // Not retried before this
+  response_status?: number | null
+  last_error?: string | null
+  created_at: string
+  delivered_at?: string | null
+}
+
+// User alerts
+export interface PulseAlertRecord {
+  id: string
+  user_id: string
+  venue_id?: number | null   // Venue alert...
+  area_lat?: number | null   // ...or area alert: any venue within the radius
+  area_lng?: number | null
+  area_radius_m?: number | null
+  min_pulse?: number | null  // Every condition that is set must hold
+  min_relative_level?: RelativeBusynessLevel | null
+  max_wait_minutes?: number | null
+  active: boolean
+  created_at: string
+}
+
+export type AlertNotificationStatus = 'pending' | 'sent' | 'failed'
+
+export interface AlertNotificationRecord {
+  id: string
+  alert_id: string
+  user_id: string
+  venue_id: number
+  nightlife_date: string     // At most one per alert per night
+  title: string
+  body: string
+  data: {
+    pulse: number
+    relative_level: RelativeBusynessLevel | null
+    wait_minutes: number | null
+  }
+  status: AlertNotificationStatus
+  created_at: string
+  sent_at?: string | null
+}
+
+// Check-in dwell time
+export type DwellModelScope = 'venue' | 'venue_type' | 'global'
+
+export interface DwellModelRecord {
+  scope: DwellModelScope
+  scope_key: string          // Venue id, venue type, or 'all'
+  log_mean: number           // Log-normal fit of minutes stayed
+  log_std: number
+  samples: number            // Completed check-ins it was learned from
+  updated_at: string
 }